@@ -17,7 +17,9 @@ import {
   RefreshCw,
   HardHat,
   Truck,
-  ClipboardList
+  ClipboardList,
+  Receipt,
+  CloudUpload
 } from 'lucide-react';
 import Dashboard from './components/Dashboard';
 import Calculator from './components/Calculator';
@@ -26,6 +28,14 @@ import Inventory from './components/Inventory';
 import Settings from './components/Settings';
 import Auth from './components/Auth';
 import PDFPreviewModal from './components/PDFPreviewModal';
+import RevisionHistory from './components/RevisionHistory';
+import ChangeOrderPanel from './components/ChangeOrderPanel';
+import PaymentPanel from './components/PaymentPanel';
+import AcceptancePanel from './components/AcceptancePanel';
+import PhotoGallery from './components/PhotoGallery';
+import Receivables from './components/Receivables';
+import EstimateAcceptance from './components/EstimateAcceptance';
+import CustomerPortal from './components/CustomerPortal';
 import EmployeeManager from './components/EmployeeManager';
 import RigManager from './components/RigManager';
 import EmployeePortal, { AssignmentPanel } from './components/EmployeePortal';
@@ -33,9 +43,18 @@ import { ToastProvider, useToast } from './components/Toast';
 import { NAV_ITEMS, EMPLOYEE_NAV_ITEMS } from './constants';
 import { getCustomers, getEstimates, getInventory, getSettings, saveEstimate, saveFullInventory, deleteEstimate, deleteCustomer } from './services/storage';
 import { ensureProfile } from './services/employeeRigService';
+import { calculateMaterials, planApplication, specialtySurfaceArea } from './services/estimateEngine';
+import { applyEstimateOption, hasOptions } from './services/estimateOptions';
+import { roomArea } from './services/takeoff';
+import { applyRevision } from './services/revisions';
+import { changeOrderDelta, contractTotal, setChangeOrderStatus } from './services/changeOrders';
+import { balanceDue, isPaidInFull, statusAfterPayments } from './services/payments';
+import { currentAcceptance, hasSignedQuoteChanged, isAwaitingWorkOrder, parseAcceptanceToken } from './services/acceptance';
+import { parsePortalToken } from './services/portal';
+import { onPhotoQueueChange, startPhotoQueue } from './services/photoQueue';
 import { DEFAULT_SETTINGS } from './constants';
 import { supabase } from './services/supabaseClient';
-import { JobStatus, Estimate, User, InventoryItem, Customer, AppSettings, DocumentType, statusToDocumentType, UserProfile } from './types';
+import { JobStatus, Estimate, EstimateRevision, ChangeOrder, Payment, User, InventoryItem, Customer, AppSettings, DocumentType, formatDocumentNumber, statusToDocumentType, UserProfile } from './types';
 import type { Session } from '@supabase/supabase-js';
 
 // Wrapper to use the hook
@@ -80,11 +99,14 @@ const AppContent: React.FC = () => {
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
   const [lastUpdate, setLastUpdate] = useState(Date.now()); // Trigger re-renders
   const [isSyncing, setIsSyncing] = useState(false); // Background sync indicator (no blocking)
+  const [pendingPhotoUploads, setPendingPhotoUploads] = useState(0); // Photos waiting in the offline upload queue
   const initialLoadDone = useRef(false);
   const [jobsFilter, setJobsFilter] = useState('All'); // Lifted from JobsList to prevent reset
   const recentOptimisticIds = useRef<Set<string>>(new Set()); // Suppress realtime for recently-updated items
   const [pdfEstimateId, setPdfEstimateId] = useState<string | null>(null); // PDF modal target
   const [pdfDocumentType, setPdfDocumentType] = useState<DocumentType | undefined>(undefined); // Optional override
+  const [pdfChangeOrderId, setPdfChangeOrderId] = useState<string | undefined>(undefined);
+  const [pdfStatementCustomerId, setPdfStatementCustomerId] = useState<string | null>(null); // Customer statement target
 
   // --- Supabase Auth Listener ---
   useEffect(() => {
@@ -198,6 +220,17 @@ const AppContent: React.FC = () => {
     return () => { cancelled = true; };
   }, [lastUpdate, user]);
 
+  // --- Offline photo queue: keep uploading in the background wherever the user is in the app ---
+  useEffect(() => {
+    if (!user) return;
+    const stopQueue = startPhotoQueue();
+    const stopPending = onPhotoQueueChange(setPendingPhotoUploads);
+    return () => {
+      stopQueue();
+      stopPending();
+    };
+  }, [user]);
+
   // --- Supabase Realtime Subscriptions ---
   // Listen for changes to ALL tables and merge them into local state in real-time
   // so that data updates appear instantly on mobile without a full reload
@@ -309,10 +342,13 @@ const AppContent: React.FC = () => {
     location: row.location || undefined,
     images: row.images || undefined,
     thumbnails: row.thumbnails || undefined,
+    photoMeta: row.photo_meta || undefined,
     calcData: row.calc_data || { length: 0, width: 0, wallHeight: 0, roofPitch: 0, isGable: false, wallFoamType: 'Open Cell', wallThickness: 0, roofFoamType: 'Open Cell', roofThickness: 0, wastePct: 0 },
     pricingMode: row.pricing_mode || undefined,
     pricePerSqFtWall: row.price_per_sqft_wall != null ? Number(row.price_per_sqft_wall) : undefined,
     pricePerSqFtRoof: row.price_per_sqft_roof != null ? Number(row.price_per_sqft_roof) : undefined,
+    marginPricing: row.margin_pricing || undefined,
+    jobCost: row.job_cost != null ? Number(row.job_cost) : undefined,
     totalBoardFeetOpen: Number(row.total_board_feet_open) || 0,
     totalBoardFeetClosed: Number(row.total_board_feet_closed) || 0,
     setsRequiredOpen: Number(row.sets_required_open) || 0,
@@ -322,6 +358,14 @@ const AppContent: React.FC = () => {
     subtotal: Number(row.subtotal) || 0,
     tax: Number(row.tax) || 0,
     total: Number(row.total) || 0,
+    options: row.options || undefined,
+    selectedOptionId: row.selected_option_id || undefined,
+    changeOrders: row.change_orders || undefined,
+    payments: row.payments || undefined,
+    invoicedAt: row.invoiced_at || undefined,
+    paymentTerms: row.payment_terms || undefined,
+    acceptanceToken: row.acceptance_token || undefined,
+    acceptance: row.acceptance || undefined,
     notes: row.notes || undefined,
   });
 
@@ -336,6 +380,7 @@ const AppContent: React.FC = () => {
     state: row.state || '',
     zip: row.zip || '',
     notes: row.notes || undefined,
+    portalToken: row.portal_token || undefined,
     createdAt: row.created_at || new Date().toISOString(),
   });
 
@@ -349,8 +394,24 @@ const AppContent: React.FC = () => {
     closedCellYield: Number(row.closed_cell_yield) || DEFAULT_SETTINGS.closedCellYield,
     openCellCost: Number(row.open_cell_cost) || DEFAULT_SETTINGS.openCellCost,
     closedCellCost: Number(row.closed_cell_cost) || DEFAULT_SETTINGS.closedCellCost,
+    openCellRPerInch: Number(row.open_cell_r_per_inch) || DEFAULT_SETTINGS.openCellRPerInch,
+    closedCellRPerInch: Number(row.closed_cell_r_per_inch) || DEFAULT_SETTINGS.closedCellRPerInch,
+    closedCellMaxPass: Number(row.closed_cell_max_pass) || DEFAULT_SETTINGS.closedCellMaxPass,
+    closedCellCureMinutes: row.closed_cell_cure_minutes != null ? Number(row.closed_cell_cure_minutes) : DEFAULT_SETTINGS.closedCellCureMinutes,
+    openCellProductionRate: Number(row.open_cell_production_rate) || DEFAULT_SETTINGS.openCellProductionRate,
+    closedCellProductionRate: Number(row.closed_cell_production_rate) || DEFAULT_SETTINGS.closedCellProductionRate,
+    setupCleanupHours: row.setup_cleanup_hours != null ? Number(row.setup_cleanup_hours) : DEFAULT_SETTINGS.setupCleanupHours,
+    defaultCrewSize: Number(row.default_crew_size) || DEFAULT_SETTINGS.defaultCrewSize,
     laborRate: Number(row.labor_rate) || DEFAULT_SETTINGS.laborRate,
+    defaultMarginPct: row.default_margin_pct != null ? Number(row.default_margin_pct) : DEFAULT_SETTINGS.defaultMarginPct,
+    defaultMaterialMarkupPct: row.default_material_markup_pct != null ? Number(row.default_material_markup_pct) : DEFAULT_SETTINGS.defaultMaterialMarkupPct,
+    defaultLaborMarkupPct: row.default_labor_markup_pct != null ? Number(row.default_labor_markup_pct) : DEFAULT_SETTINGS.defaultLaborMarkupPct,
     taxRate: Number(row.tax_rate) ?? DEFAULT_SETTINGS.taxRate,
+    yieldAdjustments: row.yield_adjustments ? { ...DEFAULT_SETTINGS.yieldAdjustments, ...row.yield_adjustments } : DEFAULT_SETTINGS.yieldAdjustments,
+    estimateNumberPrefix: row.estimate_number_prefix || '',
+    estimateNumberPadding: row.estimate_number_padding != null ? Number(row.estimate_number_padding) : DEFAULT_SETTINGS.estimateNumberPadding,
+    estimateNumberYearlyReset: row.estimate_number_yearly_reset ?? DEFAULT_SETTINGS.estimateNumberYearlyReset,
+    defaultPaymentTerms: row.default_payment_terms || DEFAULT_SETTINGS.defaultPaymentTerms,
   });
 
   // PWA Install Event Listener
@@ -374,7 +435,10 @@ const AppContent: React.FC = () => {
 
   const refreshData = () => setLastUpdate(Date.now());
 
-  const getEstimateInventoryDeductions = (estimate: Estimate, currentInventory: InventoryItem[]) => {
+  // Change orders carry the same sets + items fields, so they deduct and restock the same way
+  type InventorySource = Pick<Estimate, 'setsRequiredOpen' | 'setsRequiredClosed' | 'items'>;
+
+  const getEstimateInventoryDeductions = (estimate: InventorySource, currentInventory: InventoryItem[]) => {
     const deductions = new Map<string, number>();
 
     const openRequired = estimate.setsRequiredOpen || 0;
@@ -400,7 +464,7 @@ const AppContent: React.FC = () => {
   };
 
   const applyEstimateInventoryChange = (
-    estimate: Estimate,
+    estimate: InventorySource,
     currentInventory: InventoryItem[],
     mode: 'deduct' | 'restock'
   ) => {
@@ -432,7 +496,11 @@ const AppContent: React.FC = () => {
     if (!estimate.inventoryDeducted) {
       return currentInventory;
     }
-    return applyEstimateInventoryChange(estimate, currentInventory, 'restock').updatedInventory;
+    let restocked = applyEstimateInventoryChange(estimate, currentInventory, 'restock').updatedInventory;
+    (estimate.changeOrders || []).filter(co => co.inventoryDeducted).forEach(co => {
+      restocked = applyEstimateInventoryChange(co, restocked, 'restock').updatedInventory;
+    });
+    return restocked;
   };
 
   const handleDeleteEstimate = async (estimate: Estimate) => {
@@ -482,41 +550,192 @@ const AppContent: React.FC = () => {
     refreshData();
   };
 
+  // --- Good / Better / Best: record the tier the customer picked ---
+  const handleSelectOption = (est: Estimate, optionId: string) => {
+    const updatedEst = applyEstimateOption(est, optionId);
+    recentOptimisticIds.current.add(est.id);
+    setEstimates(prev => prev.map(e => e.id === est.id ? updatedEst : e));
+    saveEstimate(updatedEst)
+      .then(() => showToast(`${updatedEst.options?.find(o => o.id === optionId)?.name || 'Option'} selected`, 'success'))
+      .catch(err => {
+        console.error('Failed to save selected option:', err);
+        showToast('Sync error - please refresh', 'error');
+      })
+      .finally(() => {
+        setTimeout(() => recentOptimisticIds.current.delete(est.id), 2000);
+      });
+  };
+
+  // --- Revisions: put an earlier quote back (the save records it as a new revision) ---
+  const handleRestoreRevision = async (est: Estimate, revision: EstimateRevision) => {
+    const inventoryNote = est.inventoryDeducted ? ' Inventory already allocated to this job will not be adjusted.' : '';
+    if (!window.confirm(`Restore revision ${revision.revisionNumber} of ${est.number}? The job stays ${est.status}.${inventoryNote}`)) return;
+
+    const restored = applyRevision(est, revision.snapshot);
+    // Same rule as the estimator: a signature only covers the price that was signed
+    const signatureVoided = hasSignedQuoteChanged(est, restored);
+    if (signatureVoided) {
+      restored.acceptanceToken = undefined;
+      restored.acceptance = undefined;
+    }
+    recentOptimisticIds.current.add(est.id);
+    setEstimates(prev => prev.map(e => e.id === est.id ? restored : e));
+    try {
+      await saveEstimate(restored);
+      if (signatureVoided) showToast(`Revision ${revision.revisionNumber} restored. The price changed, so send a new signature link.`, 'info');
+      else showToast(`Revision ${revision.revisionNumber} restored`, 'success');
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      showToast('Sync error - please refresh', 'error');
+    } finally {
+      setTimeout(() => recentOptimisticIds.current.delete(est.id), 2000);
+    }
+  };
+
+  // --- Optimistic save for edits made from the job detail (change orders, payments) ---
+  const persistEstimateUpdate = (est: Estimate, updatedEst: Estimate, message: string, updatedInventory?: InventoryItem[]) => {
+    recentOptimisticIds.current.add(est.id);
+    updatedInventory?.forEach(i => recentOptimisticIds.current.add(i.id));
+    setEstimates(prev => prev.map(e => e.id === est.id ? updatedEst : e));
+    if (updatedInventory) setInventory(updatedInventory);
+
+    Promise.all([
+      saveEstimate(updatedEst),
+      updatedInventory ? saveFullInventory(updatedInventory) : Promise.resolve(),
+    ])
+      .then(() => showToast(message, 'success'))
+      .catch(err => {
+        console.error('Failed to save job update:', err);
+        showToast('Sync error - please refresh', 'error');
+      })
+      .finally(() => {
+        setTimeout(() => {
+          recentOptimisticIds.current.delete(est.id);
+          updatedInventory?.forEach(i => recentOptimisticIds.current.delete(i.id));
+        }, 2000);
+      });
+  };
+
+  // --- Change orders: saved on the estimate; approving one pulls its materials if the job's already were ---
+  const handleAddChangeOrder = (est: Estimate, changeOrder: ChangeOrder) => {
+    persistEstimateUpdate(est, { ...est, changeOrders: [...(est.changeOrders || []), changeOrder] }, 'Change order added');
+  };
+
+  const handleChangeOrderStatus = (est: Estimate, changeOrder: ChangeOrder, status: ChangeOrder['status'], approvedBy?: string) => {
+    let updated = setChangeOrderStatus(changeOrder, status, approvedBy);
+    let updatedInventory: InventoryItem[] | undefined;
+    let message = status === 'approved' ? 'Change order approved' : 'Change order declined';
+    if (status === 'approved' && est.inventoryDeducted && !changeOrder.inventoryDeducted) {
+      const { updatedInventory: deducted, details } = applyEstimateInventoryChange(updated, inventory, 'deduct');
+      if (details.length > 0) {
+        updatedInventory = deducted;
+        updated = { ...updated, inventoryDeducted: true };
+        message = `Change order approved. Deducted: ${details.join(', ')}`;
+      }
+    }
+    const updatedEst = { ...est, changeOrders: (est.changeOrders || []).map(co => co.id === changeOrder.id ? updated : co) };
+    // A PAID job is short again once an approved change raises the total
+    persistEstimateUpdate(est, { ...updatedEst, status: statusAfterPayments(updatedEst) }, message, updatedInventory);
+  };
+
+  const handleDeleteChangeOrder = (est: Estimate, changeOrder: ChangeOrder) => {
+    if (!window.confirm(`Delete change order ${changeOrder.number} (${changeOrder.description})?`)) return;
+    persistEstimateUpdate(est, { ...est, changeOrders: (est.changeOrders || []).filter(co => co.id !== changeOrder.id) }, 'Change order deleted');
+  };
+
+  // --- Payments: the job moves to PAID (or back to INVOICED) as the balance reaches zero ---
+  const savePayments = (est: Estimate, payments: Payment[], message: string) => {
+    const withPayments = { ...est, payments };
+    const status = statusAfterPayments(withPayments);
+    const updatedEst = { ...withPayments, status };
+    if (status === JobStatus.PAID && est.status !== JobStatus.PAID) {
+      message = 'Paid in full!';
+    } else if (status !== JobStatus.PAID && est.status === JobStatus.PAID) {
+      message = `${message}. Balance due again — job moved back to ${status}`;
+    }
+    persistEstimateUpdate(est, updatedEst, message);
+  };
+
+  const handleAddPayment = (est: Estimate, payment: Payment) => {
+    savePayments(est, [...(est.payments || []), payment], `Payment of $${payment.amount.toLocaleString(undefined, {minimumFractionDigits: 2})} recorded`);
+  };
+
+  const handleDeletePayment = (est: Estimate, payment: Payment) => {
+    if (!window.confirm(`Remove the $${payment.amount.toLocaleString(undefined, {minimumFractionDigits: 2})} payment from ${new Date(payment.date + 'T00:00:00').toLocaleDateString()}?`)) return;
+    savePayments(est, (est.payments || []).filter(p => p.id !== payment.id), 'Payment removed');
+  };
+
   // --- Status Change Handler (shared by JobsList, JobDetail, and CRM) ---
   // Uses optimistic UI: updates state immediately, then syncs to Supabase in background
-  const handleStatusChange = async (est: Estimate, newStatus: JobStatus) => {
+  const handleStatusChange = async (est: Estimate, newStatus: JobStatus, openPdf = true) => {
+    // PAID follows the payments recorded against the job, never a manual click
+    if (newStatus === JobStatus.PAID && !isPaidInFull(est)) {
+      showToast(`$${balanceDue(est).toLocaleString(undefined, {minimumFractionDigits: 2})} still due — record a payment to close the job`, 'error');
+      return;
+    }
+
+    // A Good/Better/Best estimate only becomes a work order once the customer has picked a tier
+    if (newStatus === JobStatus.WORK_ORDER && hasOptions(est) && !est.selectedOptionId) {
+      showToast('Choose the option the customer accepted first', 'error');
+      return;
+    }
+
     let updatedEst = { ...est, status: newStatus };
+    if (newStatus === JobStatus.WORK_ORDER && est.selectedOptionId) {
+      updatedEst = { ...applyEstimateOption(est, est.selectedOptionId), status: newStatus };
+    }
     let updatedInventory = [...inventory];
     let inventoryChanged = false;
 
     if (newStatus === JobStatus.WORK_ORDER && !est.inventoryDeducted) {
-      const { updatedInventory: deductedInventory, details } = applyEstimateInventoryChange(est, updatedInventory, 'deduct');
+      // Deduct what the chosen option needs, not whatever tier was last edited
+      const { updatedInventory: deductedInventory, details } = applyEstimateInventoryChange(updatedEst, updatedInventory, 'deduct');
       if (details.length > 0) {
         updatedInventory = deductedInventory;
         updatedEst.inventoryDeducted = true;
         inventoryChanged = true;
+        // Change orders approved before a revert to draft come back with the job
+        updatedEst.changeOrders = updatedEst.changeOrders?.map(co => {
+          if (co.status !== 'approved') return co;
+          const { updatedInventory: withChange, details: changeDetails } = applyEstimateInventoryChange(co, updatedInventory, 'deduct');
+          updatedInventory = withChange;
+          details.push(...changeDetails);
+          return { ...co, inventoryDeducted: changeDetails.length > 0 };
+        });
         showToast(`Job Sold! Deducted: ${details.join(', ')}`, 'success');
       } else {
         showToast('Work Order Created', 'success');
       }
     } else if (newStatus === JobStatus.INVOICED) {
-      showToast('Invoice Created', 'success');
+      // Date and terms drive the AR aging; keep the originals if the job is invoiced again
+      updatedEst.invoicedAt = est.invoicedAt || new Date().toISOString().split('T')[0];
+      updatedEst.paymentTerms = est.paymentTerms || settings.defaultPaymentTerms;
+      // Deposits may already cover the whole invoice
+      updatedEst.status = statusAfterPayments(updatedEst);
+      showToast(updatedEst.status === JobStatus.PAID ? 'Invoice Created — already paid in full' : 'Invoice Created', 'success');
     } else if (newStatus === JobStatus.PAID) {
-      showToast('Payment Recorded!', 'success');
+      showToast('Paid in full!', 'success');
     } else if (newStatus === JobStatus.ARCHIVED) {
       showToast('Job Archived', 'info');
     } else if (newStatus === JobStatus.DRAFT && est.inventoryDeducted) {
-      const { updatedInventory: restockedInventory } = applyEstimateInventoryChange(est, updatedInventory, 'restock');
-      updatedInventory = restockedInventory;
+      updatedInventory = restockInventoryForEstimate(est, updatedInventory);
       updatedEst.inventoryDeducted = false;
+      updatedEst.changeOrders = updatedEst.changeOrders?.map(co => ({ ...co, inventoryDeducted: false }));
       inventoryChanged = true;
       showToast("Job Reverted to Draft. Materials Restocked.", 'info');
     }
 
+    // A signed link would turn the draft straight back into a work order — send a new one to re-sign
+    if (newStatus === JobStatus.DRAFT && currentAcceptance(est)) {
+      updatedEst.acceptanceToken = undefined;
+    }
+
     // Auto-open PDF builder for status transitions that produce documents
     if (
-      newStatus === JobStatus.WORK_ORDER ||
-      newStatus === JobStatus.INVOICED
+      openPdf && (
+        newStatus === JobStatus.WORK_ORDER ||
+        newStatus === JobStatus.INVOICED
+      )
     ) {
       // Open PDF modal with the correct document type after a short delay so state settles
       setTimeout(() => {
@@ -566,6 +785,18 @@ const AppContent: React.FC = () => {
     });
   };
 
+  // --- Online acceptance: a signed estimate becomes a work order through the same path as a manual click ---
+  const convertingAcceptedIds = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    if (!user || user.role === 'employee') return;
+    estimates.filter(isAwaitingWorkOrder).forEach(est => {
+      if (convertingAcceptedIds.current.has(est.id)) return;
+      convertingAcceptedIds.current.add(est.id);
+      showToast(`${est.acceptance!.signerName} accepted ${formatDocumentNumber(est.number, DocumentType.ESTIMATE)}`, 'success');
+      handleStatusChange(est, JobStatus.WORK_ORDER, false);
+    });
+  }, [estimates, user]);
+
   // --- Job Detail View (render function, NOT a component — avoids unmount/remount on state change) ---
   const renderJobDetail = (jobId: string) => {
     const est = estimates.find(e => e.id === jobId);
@@ -578,6 +809,8 @@ const AppContent: React.FC = () => {
       );
     }
     const customer = customers.find(c => c.id === est.customerId);
+    const materials = est.calcData ? calculateMaterials(est.calcData, settings) : null;
+    const applicationPlan = est.calcData ? planApplication(est.calcData, settings) : null;
 
     const nextAction = () => {
       switch (est.status) {
@@ -585,8 +818,6 @@ const AppContent: React.FC = () => {
           return { label: 'Mark Sold (Create Work Order)', nextStatus: JobStatus.WORK_ORDER, color: 'bg-orange-500 hover:bg-orange-600' };
         case JobStatus.WORK_ORDER:
           return { label: 'Create Invoice', nextStatus: JobStatus.INVOICED, color: 'bg-blue-600 hover:bg-blue-700' };
-        case JobStatus.INVOICED:
-          return { label: 'Mark as Paid', nextStatus: JobStatus.PAID, color: 'bg-green-600 hover:bg-green-700' };
         default:
           return null;
       }
@@ -637,7 +868,15 @@ const AppContent: React.FC = () => {
               </div>
               <div className="text-right">
                 <p className="text-sm text-slate-500">Total</p>
-                <p className="text-3xl font-bold text-slate-900">${est.total.toLocaleString(undefined, {minimumFractionDigits: 2})}</p>
+                <p className="text-3xl font-bold text-slate-900">${contractTotal(est).toLocaleString(undefined, {minimumFractionDigits: 2})}</p>
+                {changeOrderDelta(est) !== 0 && (
+                  <p className="text-xs text-purple-600 mt-1">incl. ${changeOrderDelta(est).toLocaleString(undefined, {minimumFractionDigits: 2})} in change orders</p>
+                )}
+                {(est.payments?.length || 0) > 0 && (
+                  <p className={`text-sm font-semibold mt-1 ${isPaidInFull(est) ? 'text-green-600' : 'text-red-600'}`}>
+                    {isPaidInFull(est) ? 'Paid in full' : `Balance due $${balanceDue(est).toLocaleString(undefined, {minimumFractionDigits: 2})}`}
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -701,6 +940,56 @@ const AppContent: React.FC = () => {
           </div>
         </div>
 
+        {/* Online acceptance — signature link and the signed result */}
+        {(est.status === JobStatus.DRAFT || currentAcceptance(est)) && (
+          <AcceptancePanel
+            key={`accept-${est.id}`}
+            estimate={est}
+            onCreateLink={(token) => persistEstimateUpdate(est, { ...est, acceptanceToken: token }, 'Signature link copied')}
+            onRevokeLink={() => persistEstimateUpdate(est, { ...est, acceptanceToken: undefined }, 'Signature link revoked')}
+          />
+        )}
+
+        {/* Payments — deposits through final payment */}
+        {est.status !== JobStatus.DRAFT && (
+          <PaymentPanel
+            key={`pay-${est.id}`}
+            estimate={est}
+            onAdd={(payment) => handleAddPayment(est, payment)}
+            onDelete={(payment) => handleDeletePayment(est, payment)}
+          />
+        )}
+
+        {/* Good / Better / Best Options */}
+        {hasOptions(est) && (
+          <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+            <h3 className="font-semibold text-slate-800 mb-4">Options</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {est.options!.map(option => {
+                const isSelected = option.id === est.selectedOptionId;
+                return (
+                  <div key={option.id} className={`rounded-lg border p-4 ${isSelected ? 'border-brand-500 bg-brand-50' : 'border-slate-200'}`}>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="font-semibold text-slate-800">{option.name}</span>
+                      {isSelected && <Check className="w-4 h-4 text-brand-600" />}
+                    </div>
+                    <p className="text-lg font-bold text-slate-900">${option.total.toLocaleString(undefined, {minimumFractionDigits: 2})}</p>
+                    <p className="text-xs text-slate-500 mb-3">
+                      {option.setsRequiredOpen > 0 && `${option.setsRequiredOpen.toFixed(2)} OC sets `}
+                      {option.setsRequiredClosed > 0 && `${option.setsRequiredClosed.toFixed(2)} CC sets`}
+                    </p>
+                    {est.status === JobStatus.DRAFT && !isSelected && (
+                      <button onClick={() => handleSelectOption(est, option.id)} className="w-full text-sm py-1.5 rounded border border-brand-200 text-brand-700 hover:bg-brand-50">
+                        Customer Chose This
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Details Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Line Items */}
@@ -734,8 +1023,23 @@ const AppContent: React.FC = () => {
           <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
             <h3 className="font-semibold text-slate-800 mb-4">Material Summary</h3>
             <div className="space-y-3 text-sm">
-              <div className="flex justify-between"><span className="text-slate-600">Wall Area</span><span className="font-mono">{est.calcData?.length && est.calcData?.wallHeight ? ((est.calcData.length + (est.calcData.width || 0)) * 2 * est.calcData.wallHeight).toFixed(0) : '—'} sqft</span></div>
-              <div className="flex justify-between"><span className="text-slate-600">Roof Area</span><span className="font-mono">{est.totalBoardFeetOpen || est.totalBoardFeetClosed ? 'Calculated' : '—'}</span></div>
+              <div className="flex justify-between"><span className="text-slate-600">Wall Area</span><span className="font-mono">{materials && materials.wallArea > 0 ? materials.wallArea.toFixed(0) : '—'} sqft</span></div>
+              {(est.calcData?.openingDeductionSqFt || 0) > 0 && (
+                <div className="flex justify-between"><span className="text-slate-600">Openings Deducted</span><span className="font-mono">-{est.calcData.openingDeductionSqFt!.toFixed(0)} sqft</span></div>
+              )}
+              <div className="flex justify-between"><span className="text-slate-600">Roof Area</span><span className="font-mono">{materials && materials.roofArea > 0 ? materials.roofArea.toFixed(0) : '—'} sqft</span></div>
+              {est.calcData?.rooms?.map(room => (
+                <div key={room.id} className="flex justify-between pl-3 text-xs">
+                  <span className="text-slate-500">{room.name}</span>
+                  <span className="font-mono">{roomArea(room).toFixed(0)} sqft</span>
+                </div>
+              ))}
+              {est.calcData?.specialtySurfaces?.map(surface => (
+                <div key={surface.id} className="flex justify-between">
+                  <span className="text-slate-600">{surface.label}</span>
+                  <span className="font-mono">{surface.linearFeet} LF · {specialtySurfaceArea(surface).toFixed(0)} sqft</span>
+                </div>
+              ))}
               <div className="border-t border-slate-100 pt-2"></div>
               {est.setsRequiredOpen > 0 && (
                 <div className="flex justify-between">
@@ -749,8 +1053,32 @@ const AppContent: React.FC = () => {
                   <span className="font-bold text-brand-600">{est.setsRequiredClosed.toFixed(2)}</span>
                 </div>
               )}
+              {materials && materials.yieldAdjustment.factor !== 1 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Yield Adjusted</span>
+                  <span className="text-amber-700 text-right">{(materials.yieldAdjustment.factor * 100).toFixed(1)}% ({materials.yieldAdjustment.reasons.join(', ')})</span>
+                </div>
+              )}
+              {est.calcData?.labor && (
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Labor (Suggested / Quoted)</span>
+                  <span className="font-mono">{est.calcData.labor.suggestedHours} / {est.calcData.labor.overrideHours ?? est.calcData.labor.suggestedHours} hrs</span>
+                </div>
+              )}
+              {applicationPlan && applicationPlan.maxPasses > 1 && (
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Closed Cell Lifts</span>
+                  <span>{applicationPlan.maxPasses} passes @ {applicationPlan.maxPassThickness}" max</span>
+                </div>
+              )}
               <div className="border-t border-slate-100 pt-2"></div>
-              <div className="flex justify-between"><span className="text-slate-600">Pricing Mode</span><span className="capitalize">{est.pricingMode === 'sqft' ? 'Per Sq Ft' : 'Cost Plus'}</span></div>
+              <div className="flex justify-between"><span className="text-slate-600">Pricing Mode</span><span className="capitalize">{est.pricingMode === 'sqft' ? 'Per Sq Ft' : est.pricingMode === 'margin' ? 'Margin / Markup' : 'Cost Plus'}</span></div>
+              {est.jobCost != null && (
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Job Cost (Internal)</span>
+                  <span className="font-mono">${est.jobCost.toFixed(2)}</span>
+                </div>
+              )}
               <div className="flex justify-between"><span className="text-slate-600">Waste Factor</span><span>{est.calcData?.wastePct || 0}%</span></div>
             </div>
 
@@ -767,6 +1095,24 @@ const AppContent: React.FC = () => {
             )}
           </div>
         </div>
+
+        {(est.status === JobStatus.WORK_ORDER || (est.changeOrders?.length || 0) > 0) && (
+          <ChangeOrderPanel
+            key={`co-${est.id}`}
+            estimate={est}
+            customerName={customer?.name || ''}
+            taxRate={settings.taxRate}
+            onAdd={(changeOrder) => handleAddChangeOrder(est, changeOrder)}
+            onSetStatus={(changeOrder, status, approvedBy) => handleChangeOrderStatus(est, changeOrder, status, approvedBy)}
+            onDelete={(changeOrder) => handleDeleteChangeOrder(est, changeOrder)}
+            onGeneratePDF={(changeOrder) => { setPdfDocumentType(DocumentType.CHANGE_ORDER); setPdfChangeOrderId(changeOrder.id); setPdfEstimateId(est.id); }}
+          />
+        )}
+
+        {/* Photos — categories, captions and before/after pairs */}
+        <PhotoGallery key={`photos-${est.id}`} estimate={est} onUpdate={(updated, message) => persistEstimateUpdate(est, updated, message)} />
+
+        <RevisionHistory key={est.id} estimate={est} onRestore={(revision) => handleRestoreRevision(est, revision)} />
       </div>
     );
   };
@@ -792,9 +1138,11 @@ const AppContent: React.FC = () => {
       }
       case 'jobs':
       case 'customers':
-        return <CRM customers={customers} estimates={estimates} onRefresh={refreshData} onNavigate={navigateTo} onDeleteCustomer={handleDeleteCustomer} onDeleteEstimate={handleDeleteEstimate} onStatusChange={handleStatusChange} onGeneratePDF={(id) => { const est = estimates.find(e => e.id === id); if (est) setPdfDocumentType(statusToDocumentType(est.status)); setPdfEstimateId(id); }} openAddOnLoad={openCustomerAdd} autoSelectCustomerId={preSelectedCustomerId || undefined} initialTab={activeView === 'jobs' ? 'jobs' : 'customers'} jobsFilter={jobsFilter} onJobsFilterChange={setJobsFilter} />;
+        return <CRM customers={customers} estimates={estimates} onRefresh={refreshData} onNavigate={navigateTo} onDeleteCustomer={handleDeleteCustomer} onDeleteEstimate={handleDeleteEstimate} onStatusChange={handleStatusChange} onGeneratePDF={(id) => { const est = estimates.find(e => e.id === id); if (est) setPdfDocumentType(statusToDocumentType(est.status)); setPdfEstimateId(id); }} onGenerateStatement={setPdfStatementCustomerId} openAddOnLoad={openCustomerAdd} autoSelectCustomerId={preSelectedCustomerId || undefined} initialTab={activeView === 'jobs' ? 'jobs' : 'customers'} jobsFilter={jobsFilter} onJobsFilterChange={setJobsFilter} />;
       case 'jobDetail':
-        return selectedJobId ? renderJobDetail(selectedJobId) : <CRM customers={customers} estimates={estimates} onRefresh={refreshData} onNavigate={navigateTo} onDeleteCustomer={handleDeleteCustomer} onDeleteEstimate={handleDeleteEstimate} onStatusChange={handleStatusChange} onGeneratePDF={(id) => { const est = estimates.find(e => e.id === id); if (est) setPdfDocumentType(statusToDocumentType(est.status)); setPdfEstimateId(id); }} openAddOnLoad={false} initialTab="customers" jobsFilter={jobsFilter} onJobsFilterChange={setJobsFilter} />;
+        return selectedJobId ? renderJobDetail(selectedJobId) : <CRM customers={customers} estimates={estimates} onRefresh={refreshData} onNavigate={navigateTo} onDeleteCustomer={handleDeleteCustomer} onDeleteEstimate={handleDeleteEstimate} onStatusChange={handleStatusChange} onGeneratePDF={(id) => { const est = estimates.find(e => e.id === id); if (est) setPdfDocumentType(statusToDocumentType(est.status)); setPdfEstimateId(id); }} onGenerateStatement={setPdfStatementCustomerId} openAddOnLoad={false} initialTab="customers" jobsFilter={jobsFilter} onJobsFilterChange={setJobsFilter} />;
+      case 'receivables':
+        return <Receivables estimates={estimates} customers={customers} settings={settings} onNavigate={navigateTo} onOpenStatement={setPdfStatementCustomerId} />;
       case 'inventory':
         return <Inventory items={inventory} onRefresh={refreshData} onOptimisticUpdate={(updatedItems) => setInventory(updatedItems)} />;
       case 'settings':
@@ -881,6 +1229,7 @@ const AppContent: React.FC = () => {
       case 'HardHat': return <HardHat className={className} />;
       case 'Truck': return <Truck className={className} />;
       case 'ClipboardList': return <ClipboardList className={className} />;
+      case 'Receipt': return <Receipt className={className} />;
       default: return <LayoutDashboard className={className} />;
     }
   };
@@ -969,6 +1318,12 @@ const AppContent: React.FC = () => {
           </nav>
 
           <div className="absolute bottom-0 w-full p-4 border-t border-slate-800 bg-slate-900">
+              {pendingPhotoUploads > 0 && (
+                <p className="mb-4 text-xs text-amber-400 flex items-center gap-2 px-2">
+                  <CloudUpload className="w-3.5 h-3.5" />
+                  {pendingPhotoUploads} {pendingPhotoUploads === 1 ? 'photo' : 'photos'} waiting to upload
+                </p>
+              )}
               {deferredPrompt && (
                 <button 
                   onClick={handleInstallClick} 
@@ -996,6 +1351,12 @@ const AppContent: React.FC = () => {
           <header className="lg:hidden bg-white border-b border-slate-200 px-4 py-3 flex items-center justify-between sticky top-0 z-30">
             <BrandLogoMobile />
             <div className="flex items-center gap-2">
+              {pendingPhotoUploads > 0 && (
+                <div className="flex items-center gap-1.5 text-xs text-amber-700" title="Photos waiting to upload">
+                  <CloudUpload className="w-3.5 h-3.5" />
+                  <span>{pendingPhotoUploads}</span>
+                </div>
+              )}
               {isSyncing && (
                 <div className="flex items-center gap-1.5 text-xs text-slate-400 animate-pulse">
                   <RefreshCw className="w-3.5 h-3.5 animate-spin" />
@@ -1123,18 +1484,39 @@ const AppContent: React.FC = () => {
               customer={pdfCustomer}
               settings={settings}
               initialDocumentType={pdfDocumentType}
-              onClose={() => { setPdfEstimateId(null); setPdfDocumentType(undefined); }}
+              initialChangeOrderId={pdfChangeOrderId}
+              onClose={() => { setPdfEstimateId(null); setPdfDocumentType(undefined); setPdfChangeOrderId(undefined); }}
               onSaved={() => {
                 console.log('PDF saved to Supabase for estimate:', pdfEst.id);
               }}
             />
           );
         })()}
+
+        {/* Customer Statement Modal */}
+        {pdfStatementCustomerId && (() => {
+          const statementCustomer = customers.find(c => c.id === pdfStatementCustomerId);
+          if (!statementCustomer) return null;
+          return (
+            <PDFPreviewModal
+              customer={statementCustomer}
+              statementEstimates={estimates}
+              settings={settings}
+              onClose={() => setPdfStatementCustomerId(null)}
+            />
+          );
+        })()}
       </div>
   );
 };
 
 const App: React.FC = () => {
+    // Signature and portal links are public — the customer never sees the login screen
+    const acceptanceToken = parseAcceptanceToken(window.location.search);
+    if (acceptanceToken) return <EstimateAcceptance token={acceptanceToken} />;
+    const portalToken = parsePortalToken(window.location.search);
+    if (portalToken) return <CustomerPortal token={portalToken} />;
+
     return (
         <ToastProvider>
             <AppContent />
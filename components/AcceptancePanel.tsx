@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { PenLine, Link, Copy, Check } from 'lucide-react';
+import { Estimate, JobStatus } from '../types';
+import { acceptanceUrl, createAcceptanceToken, currentAcceptance, describeAcceptance } from '../services/acceptance';
+
+interface AcceptancePanelProps {
+  estimate: Estimate;
+  onCreateLink: (token: string) => void;
+  onRevokeLink: () => void;
+}
+
+/** Share link the customer opens to review and e-sign the estimate, and the signature once it's in */
+const AcceptancePanel: React.FC<AcceptancePanelProps> = ({ estimate, onCreateLink, onRevokeLink }) => {
+  const [copiedLink, setCopiedLink] = useState(false);
+  const acceptance = currentAcceptance(estimate);
+  const link = estimate.acceptanceToken ? acceptanceUrl(estimate.acceptanceToken, window.location.origin) : null;
+
+  const copyLink = (url: string) => {
+    navigator.clipboard.writeText(url);
+    setCopiedLink(true);
+    setTimeout(() => setCopiedLink(false), 2000);
+  };
+
+  const handleCreate = () => {
+    const token = createAcceptanceToken();
+    onCreateLink(token);
+    copyLink(acceptanceUrl(token, window.location.origin));
+  };
+
+  const handleRevoke = () => {
+    if (!window.confirm('Revoke this signature link? The customer will need a new link to accept.')) return;
+    onRevokeLink();
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <h3 className="font-semibold text-slate-800 flex items-center gap-2 mb-4"><PenLine className="w-4 h-4" /> Customer Acceptance</h3>
+
+      {acceptance ? (
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-center">
+          <div className="border border-slate-200 rounded-lg bg-slate-50 p-2 w-full sm:w-64 shrink-0">
+            <img src={acceptance.signatureDataUrl} alt={`Signature of ${acceptance.signerName}`} className="w-full h-20 object-contain" />
+          </div>
+          <div className="text-sm space-y-1">
+            <p className="font-medium text-slate-800">{acceptance.signerName}</p>
+            <p className="text-slate-500">{describeAcceptance(acceptance)}</p>
+            <p className="text-xs text-slate-400">{acceptance.method === 'typed' ? 'Typed signature' : 'Drawn signature'}{acceptance.userAgent ? ` · ${acceptance.userAgent}` : ''}</p>
+          </div>
+        </div>
+      ) : estimate.status !== JobStatus.DRAFT ? (
+        <p className="text-sm text-slate-400">Signature links are only for draft estimates.</p>
+      ) : link ? (
+        <div className="space-y-2">
+          <p className="text-sm text-slate-500">Send this link to the customer. Once they sign, the job becomes a work order automatically.</p>
+          <div className="flex items-center gap-2">
+            <input readOnly value={link} className="flex-1 border border-slate-200 rounded-lg px-3 py-2 text-xs bg-slate-50 text-slate-600" />
+            <button onClick={() => copyLink(link)}
+              className={`p-2 rounded-lg transition-colors ${copiedLink ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+              {copiedLink ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+          <button onClick={handleRevoke} className="text-xs text-red-600 hover:underline">Revoke link</button>
+        </div>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-slate-500">Let the customer review and sign online instead of on paper.</p>
+          <button onClick={handleCreate} className="flex items-center justify-center gap-2 text-sm px-3 py-2 rounded-lg bg-brand-600 text-white hover:bg-brand-700 whitespace-nowrap">
+            <Link className="w-4 h-4" /> Copy Signature Link
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AcceptancePanel;
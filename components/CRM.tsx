@@ -1,7 +1,11 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { Customer, Estimate, JobStatus, DocumentType, statusToDocumentType } from '../types';
-import { Search, Plus, User, MapPin, Phone, Mail, ArrowLeft, Calendar, FileText, Pencil, Check, ChevronRight, ClipboardList, FileCheck, DollarSign, Archive, FileDown, Receipt, Package } from 'lucide-react';
-import { saveCustomer } from '../services/storage';
+import { Search, Plus, User, MapPin, Phone, Mail, ArrowLeft, Calendar, FileText, Pencil, Check, ChevronRight, ClipboardList, FileCheck, DollarSign, Archive, FileDown, Receipt, Package, ScrollText, Link } from 'lucide-react';
+import { saveCustomer, setCustomerPortalToken } from '../services/storage';
+import { contractTotal } from '../services/changeOrders';
+import { balanceDue } from '../services/payments';
+import { isInvoiced } from '../services/statements';
+import { createPortalToken, portalUrl } from '../services/portal';
 import { useToast } from './Toast';
 
 interface CRMProps {
@@ -13,6 +17,7 @@ interface CRMProps {
   onDeleteEstimate?: (estimate: Estimate) => void;
   onStatusChange?: (est: Estimate, newStatus: JobStatus) => void;
   onGeneratePDF?: (estimateId: string) => void;
+  onGenerateStatement?: (customerId: string) => void;
   openAddOnLoad?: boolean;
   autoSelectCustomerId?: string;
   initialTab?: 'customers' | 'jobs';
@@ -20,7 +25,7 @@ interface CRMProps {
   onJobsFilterChange?: (filter: string) => void;
 }
 
-const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh, onNavigate, onDeleteCustomer, onDeleteEstimate, onStatusChange, onGeneratePDF, openAddOnLoad, autoSelectCustomerId, initialTab, jobsFilter = 'All', onJobsFilterChange }) => {
+const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh, onNavigate, onDeleteCustomer, onDeleteEstimate, onStatusChange, onGeneratePDF, onGenerateStatement, openAddOnLoad, autoSelectCustomerId, initialTab, jobsFilter = 'All', onJobsFilterChange }) => {
   const { showToast } = useToast();
   const [activeTab, setActiveTab] = useState<'customers' | 'jobs'>(initialTab || 'customers');
   const [searchTerm, setSearchTerm] = useState('');
@@ -64,6 +69,23 @@ const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh
     ? allEstimates.filter(e => e.customerId === selectedCustomer.id) 
     : [];
 
+  // Portal link: issued on first copy; a reset retires the old link for good
+  const handleCopyPortalLink = async (customer: Customer, reset = false) => {
+    if (reset && !window.confirm(`Reset ${customer.name}'s portal link? The old link will stop working.`)) return;
+    let token = customer.portalToken;
+    try {
+      if (!token || reset) {
+        token = createPortalToken();
+        await setCustomerPortalToken(customer.id, token);
+        setSelectedCustomer({ ...customer, portalToken: token });
+      }
+      navigator.clipboard.writeText(portalUrl(token, window.location.origin));
+      showToast(reset ? 'New portal link copied' : 'Portal link copied', 'success');
+    } catch (err) {
+      showToast('Could not create portal link', 'error');
+    }
+  };
+
   // Jobs tab: filter estimates
   const filteredEstimates = useMemo(() => {
     let result = allEstimates;
@@ -132,7 +154,7 @@ const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh
       case JobStatus.WORK_ORDER:
         return { label: 'Create Invoice', sublabel: 'Bill the customer', nextStatus: JobStatus.INVOICED, color: 'bg-blue-600 hover:bg-blue-700', icon: FileCheck };
       case JobStatus.INVOICED:
-        return { label: 'Mark as Paid', sublabel: 'Payment received', nextStatus: JobStatus.PAID, color: 'bg-green-600 hover:bg-green-700', icon: DollarSign };
+        return { label: 'Record Payment', sublabel: `$${balanceDue(est).toLocaleString()} balance due`, nextStatus: JobStatus.PAID, color: 'bg-green-600 hover:bg-green-700', icon: DollarSign };
       case JobStatus.PAID:
         return { label: 'Archive Job', sublabel: 'Move to archive', nextStatus: JobStatus.ARCHIVED, color: 'bg-slate-500 hover:bg-slate-600', icon: Archive };
       default:
@@ -152,13 +174,13 @@ const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh
   const getCustomerSummary = (customerId: string) => {
     const ests = allEstimates.filter(e => e.customerId === customerId);
     const activeJobs = ests.filter(e => e.status !== JobStatus.ARCHIVED);
-    const totalValue = ests.reduce((a, e) => a + e.total, 0);
+    const totalValue = ests.reduce((a, e) => a + contractTotal(e), 0);
     return { jobCount: ests.length, activeJobs: activeJobs.length, totalValue };
   };
 
   // ======================= CUSTOMER DETAIL VIEW =======================
   if (selectedCustomer) {
-    const lifetimeValue = customerEstimates.reduce((acc, curr) => acc + curr.total, 0);
+    const lifetimeValue = customerEstimates.reduce((acc, curr) => acc + contractTotal(curr), 0);
     const actionableEstimate = getCustomerWorkflowStage();
     const nextAction = actionableEstimate ? getNextAction(actionableEstimate) : null;
 
@@ -207,6 +229,25 @@ const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh
                     </button>
                   );
                 })()}
+                {onGenerateStatement && customerEstimates.some(isInvoiced) && (
+                  <button
+                    onClick={() => onGenerateStatement(selectedCustomer.id)}
+                    className="mt-2 border border-slate-300 text-slate-700 hover:bg-slate-50 text-sm px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-1.5 ml-auto"
+                  >
+                    <ScrollText className="w-4 h-4" /> Customer Statement
+                  </button>
+                )}
+                <button
+                  onClick={() => handleCopyPortalLink(selectedCustomer)}
+                  className="mt-2 border border-slate-300 text-slate-700 hover:bg-slate-50 text-sm px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-1.5 ml-auto"
+                >
+                  <Link className="w-4 h-4" /> Copy Portal Link
+                </button>
+                {selectedCustomer.portalToken && (
+                  <button onClick={() => handleCopyPortalLink(selectedCustomer, true)} className="block text-xs text-slate-400 hover:text-red-600 ml-auto">
+                    Reset portal link
+                  </button>
+                )}
                 {onDeleteCustomer && (
                   <button
                     onClick={() => {
@@ -280,6 +321,11 @@ const CRM: React.FC<CRMProps> = ({ customers, estimates: allEstimates, onRefresh
               <div className="p-6">
                 <button
                   onClick={() => {
+                    // Payments are entered on the job; it goes PAID once they cover the balance
+                    if (nextAction.nextStatus === JobStatus.PAID && onNavigate) {
+                      onNavigate('jobDetail', { jobId: actionableEstimate.id });
+                      return;
+                    }
                     onStatusChange(actionableEstimate, nextAction.nextStatus);
                   }}
                   className={`w-full py-5 px-8 rounded-xl text-white font-bold text-lg shadow-lg transition-all active:scale-[0.98] flex items-center justify-center gap-3 ${nextAction.color}`}
@@ -1,10 +1,20 @@
-import React, { useState, useEffect } from 'react';
-import { AppSettings, Customer, Estimate, FoamType, JobStatus, JobItem, JobLocation, InventoryItem } from '../types';
-import { Save, RefreshCw, Plus, Calculator as CalcIcon, MapPin, Camera, Eye, EyeOff, X, UserPlus, Check, DollarSign, Loader2 } from 'lucide-react';
-import { saveEstimate, saveCustomer } from '../services/storage';
-import { uploadJobPhoto, deleteJobPhoto, isBase64Image } from '../services/imageService';
-import { supabase } from '../services/supabaseClient';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, BuildingSection, CalculationData, CalculatorMode, Customer, Estimate, EstimateTemplate, FoamType, JobStatus, JobItem, JobLocation, JobPhotoMeta, PhotoCategory, InventoryItem, EstimateOption, FoamLayer, MarginPricing, MarginStrategy, PricedSnapshot, PricingMode, Rig, RoofType, SpecialtySurface, SubstrateType, TakeoffRoom, ThicknessMode, WallOpening, YieldConditions } from '../types';
+import { OPENING_PRESETS, PHOTO_CATEGORY_LABELS, SUBSTRATE_LABELS } from '../constants';
+import { Save, RefreshCw, Plus, Calculator as CalcIcon, MapPin, Camera, Eye, EyeOff, X, UserPlus, Check, DollarSign, Loader2, Trash2, LayoutTemplate, BookmarkPlus, CloudUpload } from 'lucide-react';
+import { saveEstimate, saveCustomer, getTemplates, saveTemplate, deleteTemplate, allocateEstimateNumber } from '../services/storage';
+import { uploadJobPhotoWithMeta, deleteJobPhoto, isBase64Image } from '../services/imageService';
+import { isQueuedPhoto, prunePhotoMeta, renamePhotoMeta } from '../services/photos';
+import { claimQueuedPhotos, getQueuedPreviews, isPhotoQueueAvailable, onPhotoQueueChange, onQueuedPhotoUploaded, queueJobPhoto } from '../services/photoQueue';
+import { getRigs } from '../services/employeeRigService';
+import { ROOF_TYPE_LABELS, resolveRoofType, roofTypeHasGableEnds } from '../services/roofGeometry';
+import { applyRValueTargets, calculateEstimate, calculateMaterials, calculateRValues, describeApplicationPlan, describeRValues, mirrorLayers, planApplication, resolveCalcMode, rPerInchFor, sectionsFromCalcData, suggestLaborHours, surfaceLayers } from '../services/estimateEngine';
+import { applyEstimateOption, defaultOptionName, optionToOpen, updateOptionPricing } from '../services/estimateOptions';
+import { hasSignedQuoteChanged } from '../services/acceptance';
 import { useToast } from './Toast';
+import FoamLayerEditor from './FoamLayerEditor';
+import RoomTakeoffEditor from './RoomTakeoffEditor';
+import SpecialtySurfaceEditor from './SpecialtySurfaceEditor';
 
 interface CalculatorProps {
   settings: AppSettings;
@@ -16,13 +26,54 @@ interface CalculatorProps {
   onRefresh: () => void;
 }
 
+/** Create a building section with the same defaults the single-box estimator used */
+const createSection = (id: string, name: string): BuildingSection => ({
+  id,
+  name,
+  length: 0,
+  width: 0,
+  wallHeight: 8,
+  roofPitch: 0,
+  isGable: true,
+  roofType: 'gable',
+  wallFoamType: FoamType.OPEN_CELL,
+  wallThickness: 3.5,
+  roofFoamType: FoamType.OPEN_CELL,
+  roofThickness: 5.5,
+});
+
+/** Select value that switches a surface to a layered (hybrid) stack */
+const HYBRID = 'hybrid';
+
+/** Starting point for a hybrid surface: the common flash-and-fill */
+const DEFAULT_HYBRID_STACK: FoamLayer[] = [
+  { foamType: FoamType.CLOSED_CELL, thickness: 1 },
+  { foamType: FoamType.OPEN_CELL, thickness: 3 },
+];
+
+/** No temperature/humidity recorded, wood substrate — i.e. rated yield */
+const DEFAULT_YIELD_CONDITIONS: YieldConditions = { ambientTempF: null, humidityPct: null, substrate: 'wood' };
+
+/** Section fields for a surface's foam stack — a stack of one collapses back to a plain foam spec */
+const stackFields = (surface: 'wall' | 'roof', layers: FoamLayer[] | undefined): Partial<BuildingSection> => {
+  const stack = layers && layers.length > 1 ? layers : undefined;
+  const mirror = layers && layers.length > 0 ? mirrorLayers(layers) : undefined;
+  if (surface === 'wall') {
+    return { wallLayers: stack, ...(mirror && { wallFoamType: mirror.foamType, wallThickness: mirror.thickness }) };
+  }
+  return { roofLayers: stack, ...(mirror && { roofFoamType: mirror.foamType, roofThickness: mirror.thickness }) };
+};
+
+/** Label for a line item covering one or more foam types, e.g. "Open Cell + Closed Cell" */
+const describeFoamTypes = (types: FoamType[]): string => Array.from(new Set(types)).join(' + ');
+
 const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory, preSelectedCustomerId, editEstimate, onSave, onRefresh }) => {
   const { showToast } = useToast();
 
   const isEditMode = Boolean(editEstimate);
 
   // --- State ---
-  const [activeTab, setActiveTab] = useState<'building' | 'walls' | 'flat'>('building');
+  const [activeTab, setActiveTab] = useState<CalculatorMode>('building');
   const [showPricing, setShowPricing] = useState(true);
   
   // Job Info
@@ -32,36 +83,138 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
   const [location, setLocation] = useState<JobLocation | undefined>(undefined);
   const [images, setImages] = useState<string[]>([]);
   const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [photoMeta, setPhotoMeta] = useState<JobPhotoMeta[]>([]);
+  const [photoCategory, setPhotoCategory] = useState<PhotoCategory>('before');
   const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+  // Photos waiting in the upload queue show from local blobs, by placeholder
+  const [photoPreviews, setPhotoPreviews] = useState<Record<string, string>>({});
+  const [pendingUploads, setPendingUploads] = useState(0);
+  const queuedPlaceholders = useRef(new Set<string>());
 
   // Add Customer Modal State
   const [showAddCustomer, setShowAddCustomer] = useState(false);
   const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', email: '', address: '' });
   
-  // Dimensions
+  // Dimensions (Walls Only / Flat Area)
   const [length, setLength] = useState(0);
   const [width, setWidth] = useState(0);
   const [height, setHeight] = useState(8);
-  const [pitch, setPitch] = useState(0);
-  const [isGable, setIsGable] = useState(true);
+
+  // Full Building Sections (each with its own dimensions & foam spec)
+  const [sections, setSections] = useState<BuildingSection[]>([createSection('main', 'Main Building')]);
+
+  // Wall Openings (windows, doors, garage doors) deducted from wall area
+  const [openings, setOpenings] = useState<WallOpening[]>([]);
+
+  // Flat tab room-by-room takeoff (replaces length x width when any rooms exist)
+  const [rooms, setRooms] = useState<TakeoffRoom[]>([]);
+
+  // Rim joists & crawlspaces (any tab), priced per linear foot
+  const [specialtySurfaces, setSpecialtySurfaces] = useState<SpecialtySurface[]>([]);
   
-  // Foam Specs
+  // Foam Specs (Walls Only / Flat Area)
   const [wallFoamType, setWallFoamType] = useState<FoamType>(FoamType.OPEN_CELL);
   const [wallThickness, setWallThickness] = useState(3.5);
   const [roofFoamType, setRoofFoamType] = useState<FoamType>(FoamType.OPEN_CELL);
   const [roofThickness, setRoofThickness] = useState(5.5);
+  const [wallLayers, setWallLayers] = useState<FoamLayer[] | undefined>(undefined);
+  const [roofLayers, setRoofLayers] = useState<FoamLayer[] | undefined>(undefined);
   const [wastePct, setWastePct] = useState(10);
+  const [thicknessMode, setThicknessMode] = useState<ThicknessMode>('inches');
+  const [wallTargetR, setWallTargetR] = useState(13);
+  const [roofTargetR, setRoofTargetR] = useState(20);
+  const [maxPassThickness, setMaxPassThickness] = useState(settings.closedCellMaxPass);
   
   // Pricing Strategy
-  const [pricingMode, setPricingMode] = useState<'cost_plus' | 'sqft'>('cost_plus');
+  const [pricingMode, setPricingMode] = useState<PricingMode>('cost_plus');
   const [sqftPriceWall, setSqftPriceWall] = useState(0);
   const [sqftPriceRoof, setSqftPriceRoof] = useState(0);
+  const [marginPricing, setMarginPricing] = useState<MarginPricing>({
+    strategy: 'margin',
+    targetMarginPct: settings.defaultMarginPct,
+    materialMarkupPct: settings.defaultMaterialMarkupPct,
+    laborMarkupPct: settings.defaultLaborMarkupPct,
+  });
 
   // Cost Plus Pricing
-  const [laborHours, setLaborHours] = useState(0);
+  // Labor is suggested from production rates unless the estimator overrides it
+  const [laborOverride, setLaborOverride] = useState<number | null>(null);
+  const [crewSize, setCrewSize] = useState(settings.defaultCrewSize);
   const [tripCharge, setTripCharge] = useState(0);
   const [miscItems, setMiscItems] = useState<JobItem[]>([]);
 
+  // Site conditions that derate set yield (cold, humidity, substrate, rig)
+  const [yieldConditions, setYieldConditions] = useState<YieldConditions>(DEFAULT_YIELD_CONDITIONS);
+  const [rigs, setRigs] = useState<Rig[]>([]);
+
+  // Saved templates to start new estimates from
+  const [templates, setTemplates] = useState<EstimateTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+
+  // Good / Better / Best options; the calculator edits one at a time
+  const [options, setOptions] = useState<EstimateOption[]>([]);
+  const [activeOptionId, setActiveOptionId] = useState<string | null>(null);
+
+  /** Fill the calculator from a saved estimate, one of its options, or a template */
+  const loadPricedSnapshot = (source: Pick<PricedSnapshot, 'calcData' | 'pricingMode' | 'pricePerSqFtWall' | 'pricePerSqFtRoof' | 'marginPricing' | 'items'>) => {
+    const cd = source.calcData;
+    if (cd) {
+      setLength(cd.length || 0);
+      setWidth(cd.width || 0);
+      setHeight(cd.wallHeight || 8);
+      setSections(sectionsFromCalcData(cd));
+      setOpenings(cd.openings || []);
+      setRooms(cd.rooms || []);
+      setSpecialtySurfaces(cd.specialtySurfaces || []);
+      setWallFoamType(cd.wallFoamType || FoamType.OPEN_CELL);
+      setWallThickness(cd.wallThickness || 3.5);
+      setRoofFoamType(cd.roofFoamType || FoamType.OPEN_CELL);
+      setRoofThickness(cd.roofThickness || 5.5);
+      setWallLayers(cd.wallLayers);
+      setRoofLayers(cd.roofLayers);
+      setWastePct(cd.wastePct || 10);
+      setMaxPassThickness(cd.maxPassThickness || settings.closedCellMaxPass);
+      setThicknessMode(cd.thicknessMode || 'inches');
+      setWallTargetR(cd.wallTargetR ?? 13);
+      setRoofTargetR(cd.roofTargetR ?? 20);
+      setLaborOverride(cd.labor ? cd.labor.overrideHours : null);
+      setCrewSize(cd.labor ? cd.labor.crewSize : settings.defaultCrewSize);
+      setYieldConditions(cd.yieldConditions || DEFAULT_YIELD_CONDITIONS);
+      // Determine activeTab from calc data
+      setActiveTab(resolveCalcMode(cd));
+    }
+
+    // Load pricing
+    setPricingMode(source.pricingMode || 'cost_plus');
+    setSqftPriceWall(source.pricePerSqFtWall || 0);
+    setSqftPriceRoof(source.pricePerSqFtRoof || 0);
+    if (source.marginPricing) setMarginPricing(source.marginPricing);
+
+    // Load line items - separate misc items from main items
+    const items = source.items || [];
+    const mainDescs = ['Spray Foam Material', 'Labor', 'Trip Charge'];
+    const mainWallDesc = (t: string) => t.startsWith('Wall Insulation');
+    const mainRoofDesc = (t: string) => t.startsWith('Roof/Ceiling Insulation');
+    // Rim joist / crawlspace lines are regenerated from calcData.specialtySurfaces
+    const specialtyItem = (i: JobItem) => /^(lf|floor)-/.test(i.id);
+
+    // Estimates saved before labor suggestions: treat the labor line as an override
+    const laborItem = items.find(i => i.description === 'Labor');
+    if (laborItem && !cd?.labor) setLaborOverride(laborItem.quantity || 0);
+
+    // Extract trip charge
+    const tripItem = items.find(i => i.description === 'Trip Charge');
+    setTripCharge(tripItem ? tripItem.unitPrice || 0 : 0);
+
+    // Extract misc items (anything that's not auto-generated)
+    setMiscItems(items.filter(i =>
+      !mainDescs.includes(i.description) &&
+      !mainWallDesc(i.description) &&
+      !mainRoofDesc(i.description) &&
+      !specialtyItem(i)
+    ));
+  };
+
   // Load existing estimate data when editing
   useEffect(() => {
     if (editEstimate) {
@@ -71,165 +224,198 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
       setLocation(editEstimate.location);
       setImages(editEstimate.images || []);
       setThumbnails(editEstimate.thumbnails || []);
+      setPhotoMeta(editEstimate.photoMeta || []);
+      const queued = (editEstimate.images || []).filter(isQueuedPhoto);
+      queued.forEach(p => queuedPlaceholders.current.add(p));
+      getQueuedPreviews(queued)
+        .then(previews => setPhotoPreviews(prev => ({ ...prev, ...previews })))
+        .catch(err => console.error('Failed to load queued photos:', err));
       
-      // Load calc data
-      if (editEstimate.calcData) {
-        setLength(editEstimate.calcData.length || 0);
-        setWidth(editEstimate.calcData.width || 0);
-        setHeight(editEstimate.calcData.wallHeight || 8);
-        setPitch(editEstimate.calcData.roofPitch || 0);
-        setIsGable(editEstimate.calcData.isGable ?? true);
-        setWallFoamType(editEstimate.calcData.wallFoamType || FoamType.OPEN_CELL);
-        setWallThickness(editEstimate.calcData.wallThickness || 3.5);
-        setRoofFoamType(editEstimate.calcData.roofFoamType || FoamType.OPEN_CELL);
-        setRoofThickness(editEstimate.calcData.roofThickness || 5.5);
-        setWastePct(editEstimate.calcData.wastePct || 10);
-      }
-      
-      // Load pricing
-      setPricingMode(editEstimate.pricingMode || 'cost_plus');
-      setSqftPriceWall(editEstimate.pricePerSqFtWall || 0);
-      setSqftPriceRoof(editEstimate.pricePerSqFtRoof || 0);
-      
-      // Load line items - separate misc items from main items
-      if (editEstimate.items) {
-        const mainDescs = ['Spray Foam Material', 'Labor', 'Trip Charge'];
-        const mainWallDesc = (t: string) => t.startsWith('Wall Insulation');
-        const mainRoofDesc = (t: string) => t.startsWith('Roof/Ceiling Insulation');
-        
-        // Extract labor hours from labor line item
-        const laborItem = editEstimate.items.find(i => i.description === 'Labor');
-        if (laborItem) setLaborHours(laborItem.quantity || 0);
-        
-        // Extract trip charge
-        const tripItem = editEstimate.items.find(i => i.description === 'Trip Charge');
-        if (tripItem) setTripCharge(tripItem.unitPrice || 0);
-        
-        // Extract misc items (anything that's not auto-generated)
-        const misc = editEstimate.items.filter(i => 
-          !mainDescs.includes(i.description) && 
-          !mainWallDesc(i.description) && 
-          !mainRoofDesc(i.description)
-        );
-        setMiscItems(misc);
-      }
-      
-      // Determine activeTab from calc data
-      if (editEstimate.calcData) {
-        const cd = editEstimate.calcData;
-        if (cd.wallHeight > 0 && cd.width > 0) setActiveTab('building');
-        else if (cd.wallHeight === 0 && cd.width > 0) setActiveTab('flat');
-        else setActiveTab('walls');
-      }
+      // Each option keeps its own inputs — open on one and edit those, not the estimate's top-level copy
+      const openOption = optionToOpen(editEstimate);
+      loadPricedSnapshot(openOption || editEstimate);
+      setOptions(editEstimate.options || []);
+      setActiveOptionId(openOption?.id || null);
     }
   }, [editEstimate]);
 
-  // Results State
-  const [results, setResults] = useState({
-    wallArea: 0,
-    roofArea: 0,
-    totalBFOpen: 0,
-    totalBFClosed: 0,
-    setsOpen: 0,
-    setsClosed: 0,
-    baseCost: 0, // Material + Labor OR SQFT Total
-    materialCost: 0, // For internal tracking in Cost Plus
-    laborCost: 0, // For internal tracking in Cost Plus
-    subtotal: 0,
-    tax: 0,
-    total: 0
-  });
+  // Swap in uploaded URLs as queued photos land, and keep the pending count current
+  useEffect(() => {
+    const stopUploaded = onQueuedPhotoUploaded((placeholder, uploaded) => {
+      if (!queuedPlaceholders.current.has(placeholder)) return;
+      setImages(prev => prev.map(url => (url === placeholder ? uploaded.url : url)));
+      setThumbnails(prev => prev.map(url => (url === placeholder ? uploaded.thumbnailUrl : url)));
+      setPhotoMeta(prev => renamePhotoMeta(prev, placeholder, uploaded.url));
+    });
+    const stopPending = onPhotoQueueChange(setPendingUploads);
+    return () => {
+      stopUploaded();
+      stopPending();
+    };
+  }, []);
 
-  // --- Calculations ---
+  // Rigs for the yield factor picker, templates for new estimates
   useEffect(() => {
-    let wArea = 0;
-    let rArea = 0;
+    getRigs().then(setRigs);
+    getTemplates().then(setTemplates);
+  }, []);
 
-    // 1. Geometry
-    if (activeTab === 'building') {
-      // Simple Box Model
-      wArea = (length + width) * 2 * height;
-      
-      // Roof with pitch
-      const pitchFactor = Math.sqrt(Math.pow(12, 2) + Math.pow(pitch, 2)) / 12;
-      const flatRoofArea = length * width;
-      rArea = flatRoofArea * pitchFactor;
-
-      if (isGable) {
-         const rise = (pitch / 12) * (width / 2);
-         const oneGableArea = 0.5 * width * rise;
-         wArea += (oneGableArea * 2); 
+  // --- Calculation Snapshot (saved on the estimate) ---
+  const firstSection = sections[0];
+  const enteredCalcData: CalculationData = activeTab === 'building' ? {
+    mode: activeTab,
+    // Top-level box mirrors the first section for older readers
+    length: firstSection?.length || 0,
+    width: firstSection?.width || 0,
+    wallHeight: firstSection?.wallHeight || 0,
+    roofPitch: firstSection?.roofPitch || 0,
+    isGable: firstSection?.isGable ?? false,
+    roofType: firstSection ? resolveRoofType(firstSection) : undefined,
+    wallFoamType: firstSection?.wallFoamType || FoamType.OPEN_CELL,
+    wallThickness: firstSection?.wallThickness || 0,
+    roofFoamType: firstSection?.roofFoamType || FoamType.OPEN_CELL,
+    roofThickness: firstSection?.roofThickness || 0,
+    wastePct,
+    maxPassThickness,
+    thicknessMode,
+    ...(thicknessMode === 'r_value' && { wallTargetR: firstSection?.wallTargetR, roofTargetR: firstSection?.roofTargetR }),
+    sections,
+    openings,
+    ...(specialtySurfaces.length > 0 && { specialtySurfaces }),
+    yieldConditions,
+  } : {
+    mode: activeTab,
+    length, width, wallHeight: height, roofPitch: 0, isGable: false,
+    wallFoamType, wallThickness, roofFoamType, roofThickness, wastePct, maxPassThickness,
+    // Hybrid stacks override (and are mirrored into) the single foam fields
+    ...(wallLayers && { wallLayers, wallFoamType: mirrorLayers(wallLayers).foamType, wallThickness: mirrorLayers(wallLayers).thickness }),
+    ...(roofLayers && { roofLayers, roofFoamType: mirrorLayers(roofLayers).foamType, roofThickness: mirrorLayers(roofLayers).thickness }),
+    thicknessMode,
+    ...(thicknessMode === 'r_value' && { wallTargetR, roofTargetR }),
+    ...(activeTab === 'walls' && { openings }),
+    ...(activeTab === 'flat' && rooms.length > 0 && { rooms }),
+    ...(specialtySurfaces.length > 0 && { specialtySurfaces }),
+    yieldConditions,
+  };
+  // In R-value mode the thicknesses come from the targets
+  const calcData = applyRValueTargets(enteredCalcData, settings);
+
+  // --- Calculations ---
+  const applicationPlan = planApplication(calcData, settings);
+  const laborSuggestion = suggestLaborHours(calculateMaterials(calcData, settings), applicationPlan, settings, crewSize);
+  const laborHours = laborOverride ?? laborSuggestion.suggestedHours;
+  const results = calculateEstimate(calcData, {
+    pricingMode,
+    pricePerSqFtWall: sqftPriceWall,
+    pricePerSqFtRoof: sqftPriceRoof,
+    laborHours,
+    tripCharge,
+    miscItems,
+    margin: marginPricing,
+  }, settings);
+  const rValues = calculateRValues(calcData, settings);
+
+  /** R-value the foam on a surface achieves now, rounded — the starting target in R-value mode */
+  const currentR = (thickness: number, foamType: FoamType, layers?: FoamLayer[]) => Math.round(
+    surfaceLayers(foamType, thickness, layers).reduce((acc, l) => acc + l.thickness * rPerInchFor(l.foamType, settings), 0)
+  );
+
+  // --- Building Sections ---
+  const addSection = () => {
+    setSections(prev => {
+      const section = createSection(Date.now().toString(), `Section ${prev.length + 1}`);
+      if (thicknessMode === 'r_value') {
+        section.wallTargetR = currentR(section.wallThickness, section.wallFoamType, section.wallLayers);
+        section.roofTargetR = currentR(section.roofThickness, section.roofFoamType, section.roofLayers);
       }
-    } else if (activeTab === 'walls') {
-      wArea = length * height; // Here Length is linear footage
-      rArea = 0;
-    } else if (activeTab === 'flat') {
-      rArea = length * width; // Treat flat area as "Roof/Ceiling" logic
-      wArea = 0;
-    }
+      return [...prev, section];
+    });
+  };
 
-    // 2. Board Feet & Sets (Always calculated for material ordering)
-    const wBF = wArea * wallThickness;
-    const rBF = rArea * roofThickness;
-    
-    // Add waste
-    const wasteMult = 1 + (wastePct / 100);
-    const totalWBF = wBF * wasteMult;
-    const totalRBF = rBF * wasteMult;
+  const updateSection = (index: number, field: keyof BuildingSection, value: any) => {
+    patchSection(index, { [field]: value });
+  };
 
-    let bfOpen = 0;
-    let bfClosed = 0;
+  const patchSection = (index: number, patch: Partial<BuildingSection>) => {
+    setSections(prev => prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
 
-    // Assign to type
-    if (activeTab !== 'flat') {
-      if (wallFoamType === FoamType.OPEN_CELL) bfOpen += totalWBF; else bfClosed += totalWBF;
-    }
-    if (activeTab !== 'walls') {
-      if (roofFoamType === FoamType.OPEN_CELL) bfOpen += totalRBF; else bfClosed += totalRBF;
+  // Foam select for a section surface: a foam type, or HYBRID to start a layered stack
+  const setSectionFoam = (index: number, surface: 'wall' | 'roof', value: string) => {
+    if (value === HYBRID) {
+      patchSection(index, stackFields(surface, DEFAULT_HYBRID_STACK));
+    } else if (surface === 'wall') {
+      patchSection(index, { wallFoamType: value as FoamType, wallLayers: undefined });
+    } else {
+      patchSection(index, { roofFoamType: value as FoamType, roofLayers: undefined });
     }
+  };
 
-    // Round sets to 2 decimal places to ensure clean outputs
-    const setsOpen = bfOpen > 0 ? Number((bfOpen / settings.openCellYield).toFixed(2)) : 0;
-    const setsClosed = bfClosed > 0 ? Number((bfClosed / settings.closedCellYield).toFixed(2)) : 0;
+  // Walls-only / flat surfaces keep their stack in state; a stack of one collapses to a plain spec
+  const setSurfaceStack = (surface: 'wall' | 'roof', layers: FoamLayer[]) => {
+    const [setLayers, setFoam, setThickness] = surface === 'wall'
+      ? [setWallLayers, setWallFoamType, setWallThickness]
+      : [setRoofLayers, setRoofFoamType, setRoofThickness];
+    setLayers(layers.length > 1 ? layers : undefined);
+    if (layers.length > 0) {
+      const mirror = mirrorLayers(layers);
+      setFoam(mirror.foamType);
+      setThickness(mirror.thickness);
+    }
+  };
 
-    // 3. Costs & Pricing
-    let basePrice = 0;
-    let matCost = 0;
-    let labCost = 0;
+  const setSectionRoofType = (index: number, roofType: RoofType) => {
+    setSections(prev => prev.map((s, i) => i === index ? { ...s, roofType, isGable: roofTypeHasGableEnds(roofType) } : s));
+  };
 
-    if (pricingMode === 'cost_plus') {
-      // Cost Plus Logic
-      matCost = (setsOpen * settings.openCellCost) + (setsClosed * settings.closedCellCost);
-      labCost = laborHours * settings.laborRate;
-      basePrice = matCost + labCost;
+  // Seed targets from the current thicknesses so switching modes doesn't change the job
+  const switchThicknessMode = (mode: ThicknessMode) => {
+    if (mode === 'r_value') {
+      setSections(prev => prev.map(s => ({
+        ...s,
+        wallTargetR: s.wallTargetR ?? currentR(s.wallThickness, s.wallFoamType, s.wallLayers),
+        roofTargetR: s.roofTargetR ?? currentR(s.roofThickness, s.roofFoamType, s.roofLayers),
+      })));
+      setWallTargetR(currentR(wallThickness, wallFoamType, wallLayers));
+      setRoofTargetR(currentR(roofThickness, roofFoamType, roofLayers));
     } else {
-      // SQFT Logic
-      const wallPrice = wArea * sqftPriceWall;
-      const roofPrice = rArea * sqftPriceRoof;
-      basePrice = wallPrice + roofPrice;
+      // Keep the derived thicknesses when going back to inches
+      setSections(calcData.sections ?? sections);
+      setWallThickness(calcData.wallThickness);
+      setRoofThickness(calcData.roofThickness);
+      if (wallLayers) setWallLayers(calcData.wallLayers);
+      if (roofLayers) setRoofLayers(calcData.roofLayers);
     }
+    setThicknessMode(mode);
+  };
 
-    const miscCost = miscItems.reduce((acc, item) => acc + item.total, 0);
-    const sub = basePrice + tripCharge + miscCost;
-    const tax = sub * (settings.taxRate / 100);
-    const tot = sub + tax;
-
-    setResults({
-      wallArea: wArea,
-      roofArea: rArea,
-      totalBFOpen: bfOpen,
-      totalBFClosed: bfClosed,
-      setsOpen,
-      setsClosed,
-      baseCost: basePrice,
-      materialCost: matCost,
-      laborCost: labCost,
-      subtotal: sub,
-      tax,
-      total: tot
-    });
+  // --- Yield Conditions ---
+  const updateYieldConditions = (patch: Partial<YieldConditions>) => {
+    setYieldConditions(prev => ({ ...prev, ...patch }));
+  };
+
+  // The rig's factor is copied onto the estimate so later rig edits don't change saved jobs
+  const selectRig = (rigId: string) => {
+    const rig = rigs.find(r => r.id === rigId);
+    updateYieldConditions({ rigId: rig?.id, rigName: rig?.name, rigYieldFactorPct: rig?.yieldFactorPct });
+  };
+
+  const removeSection = (index: number) => {
+    setSections(prev => prev.filter((_, i) => i !== index));
+  };
 
-  }, [length, width, height, pitch, isGable, wallFoamType, wallThickness, roofFoamType, roofThickness, wastePct, laborHours, tripCharge, miscItems, activeTab, settings, pricingMode, sqftPriceWall, sqftPriceRoof]);
+  // --- Wall Openings ---
+  const addOpening = (preset: Omit<WallOpening, 'id' | 'count' | 'sectionId'>) => {
+    setOpenings(prev => [...prev, { ...preset, id: Date.now().toString(), count: 1 }]);
+  };
+
+  const updateOpening = (index: number, field: keyof WallOpening, value: any) => {
+    setOpenings(prev => prev.map((o, i) => i === index ? { ...o, [field]: value } : o));
+  };
+
+  const removeOpening = (index: number) => {
+    setOpenings(prev => prev.filter((_, i) => i !== index));
+  };
 
   const handleGPS = () => {
     if ("geolocation" in navigator) {
@@ -260,15 +446,22 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
 
       setIsUploadingPhoto(true);
       try {
-        const { data: { session } } = await supabase.auth.getSession();
-        if (!session?.user) {
-          showToast("Not authenticated", "error");
-          return;
+        if (isPhotoQueueAvailable()) {
+          // Saved on the device first, so it survives a dead zone; uploads in the background
+          const queued = await queueJobPhoto(file, photoCategory);
+          queuedPlaceholders.current.add(queued.placeholder);
+          setPhotoPreviews(prev => ({ ...prev, [queued.placeholder]: queued.previewUrl }));
+          setImages(prev => [...prev, queued.placeholder]);
+          setThumbnails(prev => [...prev, queued.placeholder]);
+          setPhotoMeta(prev => [...prev, queued.meta]);
+          showToast(navigator.onLine ? "Photo Added" : "Photo saved offline - it will upload when you're back online", "success");
+        } else {
+          const result = await uploadJobPhotoWithMeta(file, photoCategory);
+          setImages(prev => [...prev, result.url]);
+          setThumbnails(prev => [...prev, result.thumbnailUrl]);
+          setPhotoMeta(prev => [...prev, result.meta]);
+          showToast("Photo Uploaded", "success");
         }
-        const result = await uploadJobPhoto(file, session.user.id);
-        setImages(prev => [...prev, result.url]);
-        setThumbnails(prev => [...prev, result.thumbnailUrl]);
-        showToast("Photo Uploaded", "success");
       } catch (err: any) {
         console.error('Photo upload error:', err);
         showToast("Failed to upload photo: " + (err.message || 'Unknown error'), "error");
@@ -280,12 +473,17 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
 
   const removeImage = async (index: number) => {
     const url = images[index];
-    // Delete from storage if it's a storage URL (not legacy base64)
-    if (url && !isBase64Image(url)) {
+    // Delete from storage if it's a storage URL (not legacy base64 or still queued)
+    if (url && isQueuedPhoto(url)) {
+      // Not claimed for this estimate, so the queue cleans it up once it uploads
+      queuedPlaceholders.current.delete(url);
+    } else if (url && !isBase64Image(url)) {
       deleteJobPhoto(url).catch(err => console.error('Failed to delete photo:', err));
     }
-    setImages(images.filter((_, i) => i !== index));
+    const remaining = images.filter((_, i) => i !== index);
+    setImages(remaining);
     setThumbnails(thumbnails.filter((_, i) => i !== index));
+    setPhotoMeta(prunePhotoMeta(remaining, photoMeta));
   };
 
   // --- New Customer Logic ---
@@ -324,26 +522,31 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
     showToast("Customer created & selected", "success");
   };
 
-  const handleSave = async (status: JobStatus) => {
-    if (!selectedCustomerId) {
-      showToast("Please select a customer first", "error");
-      return;
-    }
-
+  /** The priced part of the current calculator state — saved on the estimate and on each option */
+  const buildPricedSnapshot = (): PricedSnapshot => {
     // Generate Items based on Mode
     let finalItems: JobItem[] = [];
+    const isBuilding = activeTab === 'building';
+    const wallFoamLabel = describeFoamTypes(isBuilding
+      ? sections.flatMap(s => surfaceLayers(s.wallFoamType, s.wallThickness, s.wallLayers).map(l => l.foamType))
+      : surfaceLayers(wallFoamType, wallThickness, wallLayers).map(l => l.foamType));
+    const roofFoamLabel = describeFoamTypes(isBuilding
+      ? sections.flatMap(s => surfaceLayers(s.roofFoamType, s.roofThickness, s.roofLayers).map(l => l.foamType))
+      : surfaceLayers(roofFoamType, roofThickness, roofLayers).map(l => l.foamType));
 
-    if (pricingMode === 'cost_plus') {
+    if (pricingMode !== 'sqft') {
+      // Sell prices only — in margin mode the markup is folded into the unit prices
+      const laborUnitPrice = laborHours > 0 ? results.laborPrice / laborHours : settings.laborRate;
       finalItems = [
-        { id: '1', description: 'Spray Foam Material', quantity: 1, unit: 'Lot', unitPrice: results.materialCost, total: results.materialCost },
-        { id: '2', description: 'Labor', quantity: laborHours, unit: 'Hours', unitPrice: settings.laborRate, total: results.laborCost },
+        { id: '1', description: 'Spray Foam Material', quantity: 1, unit: 'Lot', unitPrice: results.materialPrice, total: results.materialPrice },
+        { id: '2', description: 'Labor', quantity: laborHours, unit: 'Hours', unitPrice: laborUnitPrice, total: results.laborPrice },
       ];
     } else {
       // SQFT Mode
       if (results.wallArea > 0) {
         finalItems.push({
           id: '1', 
-          description: `Wall Insulation (${wallFoamType})`, 
+          description: `Wall Insulation (${wallFoamLabel})`, 
           quantity: Math.round(results.wallArea), 
           unit: 'SqFt', 
           unitPrice: sqftPriceWall, 
@@ -353,13 +556,26 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
       if (results.roofArea > 0) {
         finalItems.push({
           id: '2', 
-          description: `Roof/Ceiling Insulation (${roofFoamType})`, 
+          description: `Roof/Ceiling Insulation (${roofFoamLabel})`, 
           quantity: Math.round(results.roofArea), 
           unit: 'SqFt', 
           unitPrice: sqftPriceRoof, 
           total: results.roofArea * sqftPriceRoof 
         });
       }
+      specialtySurfaces.filter(s => s.linearFeet > 0).forEach(s => {
+        finalItems.push({
+          id: `lf-${s.id}`,
+          description: `${s.label} (${s.thickness}" ${s.foamType})`,
+          quantity: s.linearFeet,
+          unit: 'LF',
+          unitPrice: s.pricePerLinearFt,
+          total: s.linearFeet * s.pricePerLinearFt,
+        });
+        if (s.kind === 'crawlspace' && s.floorArea > 0) {
+          finalItems.push({ id: `floor-${s.id}`, description: `${s.label} Floor`, quantity: s.floorArea, unit: 'SqFt', unitPrice: s.floorPricePerSqFt, total: s.floorArea * s.floorPricePerSqFt });
+        }
+      });
     }
 
     // Add Trip Charge and Misc
@@ -368,13 +584,109 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
     }
     finalItems = [...finalItems, ...miscItems];
 
+    return {
+      calcData: {
+        ...calcData,
+        openingDeductionSqFt: results.openingDeduction,
+        achievedRValues: rValues,
+        labor: { ...laborSuggestion, overrideHours: laborOverride },
+      },
+      pricingMode,
+      pricePerSqFtWall: sqftPriceWall,
+      pricePerSqFtRoof: sqftPriceRoof,
+      ...(pricingMode === 'margin' && { marginPricing }),
+      jobCost: results.jobCost,
+      totalBoardFeetOpen: results.totalBFOpen,
+      totalBoardFeetClosed: results.totalBFClosed,
+      setsRequiredOpen: results.setsOpen,
+      setsRequiredClosed: results.setsClosed,
+      items: finalItems,
+      subtotal: results.subtotal,
+      tax: results.tax,
+      total: results.total,
+    };
+  };
+
+  // --- Templates ---
+  /** Pre-fill from a template — customer, job name/site and photos are left alone */
+  const applyTemplate = (template: EstimateTemplate) => {
+    const tripItems: JobItem[] = template.tripCharge > 0
+      ? [{ id: '3', description: 'Trip Charge', quantity: 1, unit: 'Flat', unitPrice: template.tripCharge, total: template.tripCharge }]
+      : [];
+    loadPricedSnapshot({
+      calcData: template.calcData,
+      pricingMode: template.pricingMode,
+      pricePerSqFtWall: template.pricePerSqFtWall,
+      pricePerSqFtRoof: template.pricePerSqFtRoof,
+      marginPricing: template.marginPricing,
+      items: [...tripItems, ...template.miscItems],
+    });
+    setOptions([]);
+    setActiveOptionId(null);
+    setShowTemplates(false);
+    showToast(`Started from "${template.name}"`, "success");
+  };
+
+  const handleSaveTemplate = async () => {
+    const name = window.prompt('Template name (e.g. "40x60 Pole Barn")', jobName);
+    if (!name?.trim()) return;
+    const { calcData: snapshotCalcData } = buildPricedSnapshot();
+    const saved = await saveTemplate({
+      name: name.trim(),
+      // Temperature & humidity are for the day of the job, not the job type
+      calcData: snapshotCalcData.yieldConditions
+        ? { ...snapshotCalcData, yieldConditions: { ...snapshotCalcData.yieldConditions, ambientTempF: null, humidityPct: null } }
+        : snapshotCalcData,
+      pricingMode,
+      pricePerSqFtWall: sqftPriceWall,
+      pricePerSqFtRoof: sqftPriceRoof,
+      ...(pricingMode === 'margin' && { marginPricing }),
+      tripCharge,
+      miscItems,
+    });
+    if (!saved) {
+      showToast("Could not save template", "error");
+      return;
+    }
+    setTemplates(prev => [...prev, saved].sort((a, b) => a.name.localeCompare(b.name)));
+    showToast("Template saved", "success");
+  };
+
+  const handleDeleteTemplate = async (template: EstimateTemplate) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    await deleteTemplate(template.id);
+    setTemplates(prev => prev.filter(t => t.id !== template.id));
+  };
+
+  // Options with the one being edited refreshed from the calculator
+  const syncActiveOption = (snapshot: PricedSnapshot): EstimateOption[] =>
+    updateOptionPricing(options, activeOptionId, snapshot);
+
+  const handleSave = async (status: JobStatus) => {
+    if (!selectedCustomerId) {
+      showToast("Please select a customer first", "error");
+      return;
+    }
+
+    const snapshot = buildPricedSnapshot();
+    const savedOptions = syncActiveOption(snapshot);
+    const selectedOptionId = savedOptions.some(o => o.id === editEstimate?.selectedOptionId) ? editEstimate?.selectedOptionId : undefined;
+
     // When editing, preserve the existing ID/number/date; otherwise create new
     const estimateId = editEstimate ? editEstimate.id : Date.now().toString();
-    const estimateNumber = editEstimate ? editEstimate.number : `EST-${Math.floor(Math.random() * 10000)}`;
+    let estimateNumber: string;
+    try {
+      estimateNumber = editEstimate ? editEstimate.number : await allocateEstimateNumber(settings);
+    } catch (err: any) {
+      showToast("Couldn't assign an estimate number: " + (err.message || 'Unknown error'), "error");
+      return;
+    }
     const estimateDate = editEstimate ? editEstimate.date : new Date().toISOString();
     const inventoryDeducted = editEstimate ? editEstimate.inventoryDeducted : undefined;
     
-    const newEstimate: Estimate = {
+    const draft: Estimate = {
+      // Keep what's recorded against the job (change orders, payments, invoicing, signature link)
+      ...editEstimate,
       id: estimateId,
       number: estimateNumber,
       customerId: selectedCustomerId,
@@ -385,27 +697,31 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
       location: location,
       images: images,
       thumbnails: thumbnails,
-      calcData: {
-        length, width, wallHeight: height, roofPitch: pitch, isGable,
-        wallFoamType, wallThickness, roofFoamType, roofThickness, wastePct
-      },
-      pricingMode,
-      pricePerSqFtWall: sqftPriceWall,
-      pricePerSqFtRoof: sqftPriceRoof,
-      totalBoardFeetOpen: results.totalBFOpen,
-      totalBoardFeetClosed: results.totalBFClosed,
-      setsRequiredOpen: results.setsOpen,
-      setsRequiredClosed: results.setsClosed,
+      photoMeta: photoMeta.length > 0 ? photoMeta : undefined,
+      ...snapshot,
       inventoryDeducted: inventoryDeducted,
-      items: finalItems,
-      subtotal: results.subtotal,
-      tax: results.tax,
-      total: results.total
+      options: savedOptions.length > 0 ? savedOptions : undefined,
+      selectedOptionId,
     };
+    // A picked option stays the estimate's pricing whichever option was open in the calculator
+    const newEstimate = selectedOptionId ? applyEstimateOption(draft, selectedOptionId) : draft;
+
+    // The customer signed the old price — drop the signature so the new one goes out for re-signing
+    const signatureVoided = !!editEstimate && hasSignedQuoteChanged(editEstimate, newEstimate);
+    if (signatureVoided) {
+      newEstimate.acceptanceToken = undefined;
+      newEstimate.acceptance = undefined;
+    }
     
     const saved = await saveEstimate(newEstimate);
+    // Queued photos patch the saved estimate when they upload; one whose claim never lands
+    // is matched to its estimate before it expires
+    await claimQueuedPhotos([...queuedPlaceholders.current], saved.id)
+      .catch(err => console.error('Failed to claim queued photos:', err));
     
-    if (isEditMode) {
+    if (signatureVoided) {
+      showToast("Estimate Updated. The price changed, so send a new signature link.", "info");
+    } else if (isEditMode) {
       showToast("Estimate Updated Successfully", "success");
     } else {
       showToast("Estimate Saved", "success");
@@ -413,6 +729,36 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
     onSave(saved.id, selectedCustomerId);
   };
 
+  // --- Good / Better / Best Options ---
+  // Starts from a copy of what's in the calculator, so a tier is usually a small tweak
+  const addOption = () => {
+    const snapshot = buildPricedSnapshot();
+    const id = Date.now().toString();
+    setOptions([...syncActiveOption(snapshot), { id, name: defaultOptionName(options.length), ...snapshot }]);
+    setActiveOptionId(id);
+  };
+
+  const switchOption = (id: string) => {
+    const target = options.find(o => o.id === id);
+    if (!target || id === activeOptionId) return;
+    setOptions(syncActiveOption(buildPricedSnapshot()));
+    setActiveOptionId(id);
+    loadPricedSnapshot(target);
+  };
+
+  const renameOption = (id: string, name: string) => {
+    setOptions(prev => prev.map(o => o.id === id ? { ...o, name } : o));
+  };
+
+  const removeOption = (id: string) => {
+    const remaining = options.filter(o => o.id !== id);
+    setOptions(remaining);
+    if (id === activeOptionId) {
+      setActiveOptionId(remaining[0]?.id || null);
+      if (remaining[0]) loadPricedSnapshot(remaining[0]);
+    }
+  };
+
   const addMiscItem = () => {
     const newItem: JobItem = {
       id: Date.now().toString(),
@@ -558,9 +904,38 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
              {showPricing ? <EyeOff className="w-5 h-5"/> : <Eye className="w-5 h-5"/>}
              <span className="text-sm hidden md:inline">{showPricing ? 'Hide Prices' : 'Show Prices'}</span>
            </button>
+          {!isEditMode && (
+            <div className="relative">
+              <button
+                onClick={() => setShowTemplates(!showTemplates)}
+                className="p-2 text-slate-600 hover:bg-slate-100 rounded flex items-center gap-1 border border-slate-200"
+                title="Start from a template"
+              >
+                <LayoutTemplate className="w-5 h-5" />
+                <span className="text-sm hidden md:inline">Templates</span>
+              </button>
+              {showTemplates && (
+                <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-200 rounded-lg shadow-lg z-20 p-2 space-y-1">
+                  {templates.length === 0 && (
+                    <p className="text-xs text-slate-400 p-2">No templates yet. Use "Save as Template" on any estimate.</p>
+                  )}
+                  {templates.map(template => (
+                    <div key={template.id} className="flex items-center gap-1">
+                      <button onClick={() => applyTemplate(template)} className="flex-1 text-left text-sm px-2 py-1.5 rounded hover:bg-slate-50 text-slate-700 truncate">
+                        {template.name}
+                      </button>
+                      <button onClick={() => handleDeleteTemplate(template)} className="p-1 text-slate-300 hover:text-red-500" title="Delete template">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {!isEditMode && (
           <button onClick={() => {
-            setLength(0); setWidth(0); setMiscItems([]); setImages([]); setThumbnails([]); setLocation(undefined);
+            setLength(0); setWidth(0); setSections([createSection('main', 'Main Building')]); setOpenings([]); setRooms([]); setSpecialtySurfaces([]); setYieldConditions(DEFAULT_YIELD_CONDITIONS); setMaxPassThickness(settings.closedCellMaxPass); setThicknessMode('inches'); setLaborOverride(null); setCrewSize(settings.defaultCrewSize); setOptions([]); setActiveOptionId(null); setWallLayers(undefined); setRoofLayers(undefined); setMiscItems([]); setImages([]); setThumbnails([]); setPhotoMeta([]); queuedPlaceholders.current.clear(); setLocation(undefined);
             showToast("Estimator Reset", "info");
           }} className="p-2 text-slate-600 hover:bg-slate-100 rounded">
             <RefreshCw className="w-5 h-5" />
@@ -634,11 +1009,21 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                    {location ? `GPS Captured (${location.accuracy?.toFixed(0)}m acc)` : 'Capture GPS Location'}
                    {location && <Check className="w-4 h-4 ml-1" />}
                  </button>
+                 <select
+                   className="md:w-36 py-3 px-2 border border-slate-200 rounded-lg text-sm text-slate-600 bg-white"
+                   value={photoCategory}
+                   onChange={(e) => setPhotoCategory(e.target.value as PhotoCategory)}
+                   title="Category for the next photo"
+                 >
+                   {(Object.keys(PHOTO_CATEGORY_LABELS) as PhotoCategory[]).map(c => (
+                     <option key={c} value={c}>{PHOTO_CATEGORY_LABELS[c]} photo</option>
+                   ))}
+                 </select>
                  <label className={`flex-1 flex items-center justify-center gap-2 py-3 border border-slate-200 rounded-lg transition-colors font-medium text-sm ${isUploadingPhoto ? 'bg-slate-100 cursor-wait text-slate-400' : 'hover:bg-slate-50 cursor-pointer text-slate-600'}`}>
                     {isUploadingPhoto ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        Uploading...
+                        Saving Photo...
                       </>
                     ) : (
                       <>
@@ -649,16 +1034,32 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                     <input type="file" accept="image/*" className="hidden" onChange={handleImageUpload} disabled={isUploadingPhoto} />
                  </label>
               </div>
+              {pendingUploads > 0 && (
+                <p className="md:col-span-2 text-xs text-amber-700 flex items-center gap-1.5">
+                  <CloudUpload className="w-3.5 h-3.5" />
+                  {pendingUploads} {pendingUploads === 1 ? 'photo' : 'photos'} waiting to upload{navigator.onLine ? ' — uploading in the background' : ' — will upload when you\'re back online'}
+                </p>
+              )}
               
               {/* Image Preview */}
               {images.length > 0 && (
                 <div className="md:col-span-2 flex gap-2 overflow-x-auto py-2">
                   {images.map((img, idx) => {
-                    // Use thumbnail for preview if available, fall back to full image
-                    const previewSrc = thumbnails[idx] || img;
+                    // Use thumbnail for preview if available, fall back to full image; queued photos show from the device
+                    const previewSrc = photoPreviews[img] || thumbnails[idx] || img;
+                    const isQueued = isQueuedPhoto(img);
+                    const category = photoMeta.find(m => m.url === img)?.category;
                     return (
                       <div key={idx} className="relative flex-shrink-0 w-24 h-24 rounded-lg overflow-hidden border border-slate-200 shadow-sm group">
-                        <img src={previewSrc} alt="Job site" className="w-full h-full object-cover" loading="lazy" />
+                        <img src={previewSrc} alt="Job site" className={`w-full h-full object-cover ${isQueued ? 'opacity-80' : ''}`} loading="lazy" />
+                        {isQueued && (
+                          <span className="absolute top-1 left-1 bg-amber-500 text-white p-1 rounded-full shadow-md" title="Waiting to upload">
+                            <CloudUpload className="w-3 h-3" />
+                          </span>
+                        )}
+                        {category && (
+                          <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] text-center py-0.5">{PHOTO_CATEGORY_LABELS[category]}</span>
+                        )}
                         <button 
                           onClick={() => removeImage(idx)}
                           className="absolute top-1 right-1 bg-red-500 text-white p-1 rounded-full shadow-md opacity-0 group-hover:opacity-100 transition-opacity"
@@ -702,40 +1103,222 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
               </button>
             </div>
 
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-              <div>
-                <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Length (ft)</label>
-                <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={length} onChange={(e) => setLength(Number(e.target.value))} />
+            {activeTab === 'building' ? (
+              <div className="space-y-4">
+                {sections.map((section, idx) => (
+                  <div key={section.id} className="border border-slate-200 rounded-lg p-4 space-y-4">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        className="flex-1 p-2 border rounded font-medium text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                        placeholder="e.g. House, Garage, Bonus Room"
+                        value={section.name}
+                        onChange={(e) => updateSection(idx, 'name', e.target.value)}
+                      />
+                      {sections.length > 1 && (
+                        <button onClick={() => removeSection(idx)} className="text-red-500 hover:text-red-700 bg-red-50 p-2 rounded" title="Remove Section">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Length (ft)</label>
+                        <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.length} onChange={(e) => updateSection(idx, 'length', Number(e.target.value))} />
+                      </div>
+                      <div>
+                        <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Width (ft)</label>
+                        <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.width} onChange={(e) => updateSection(idx, 'width', Number(e.target.value))} />
+                      </div>
+                      <div>
+                        <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Wall Height</label>
+                        <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.wallHeight} onChange={(e) => updateSection(idx, 'wallHeight', Number(e.target.value))} />
+                      </div>
+                      <div>
+                        <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Roof Pitch (/12)</label>
+                        <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.roofPitch} onChange={(e) => updateSection(idx, 'roofPitch', Number(e.target.value))} />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                      <div>
+                        <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Roof Type</label>
+                        <select className="w-full p-2 border rounded bg-white" value={resolveRoofType(section)} onChange={(e) => setSectionRoofType(idx, e.target.value as RoofType)}>
+                          {(Object.keys(ROOF_TYPE_LABELS) as RoofType[]).map(rt => (
+                            <option key={rt} value={rt}>{ROOF_TYPE_LABELS[rt]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {resolveRoofType(section) !== 'flat' && (
+                        <>
+                          <div>
+                            <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Dormers</label>
+                            <input type="number" min="0" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.dormerCount || 0} onChange={(e) => updateSection(idx, 'dormerCount', Number(e.target.value))} />
+                          </div>
+                          {(section.dormerCount || 0) > 0 && (
+                            <>
+                              <div>
+                                <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Dormer Width</label>
+                                <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.dormerWidth || 0} onChange={(e) => updateSection(idx, 'dormerWidth', Number(e.target.value))} />
+                              </div>
+                              <div>
+                                <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Dormer Height</label>
+                                <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={section.dormerHeight || 0} onChange={(e) => updateSection(idx, 'dormerHeight', Number(e.target.value))} />
+                              </div>
+                            </>
+                          )}
+                        </>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 pt-3 border-t border-slate-100">
+                      <div>
+                        <label className="block text-xs text-slate-500 mb-1">Wall Foam</label>
+                        <select className="w-full p-2 border rounded" value={section.wallLayers ? HYBRID : section.wallFoamType} onChange={(e) => setSectionFoam(idx, 'wall', e.target.value)}>
+                          <option>{FoamType.OPEN_CELL}</option>
+                          <option>{FoamType.CLOSED_CELL}</option>
+                          <option value={HYBRID}>Hybrid (Layers)</option>
+                        </select>
+                      </div>
+                      {thicknessMode === 'r_value' ? (
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">Wall Target R</label>
+                          <input type="number" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={section.wallTargetR ?? 0} onChange={(e) => updateSection(idx, 'wallTargetR', Number(e.target.value))} />
+                          <span className="text-[10px] text-slate-400">= {calcData.sections?.[idx]?.wallThickness ?? 0}" of foam</span>
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">Wall Thickness (in)</label>
+                          <input type="number" step="0.5" className={`w-full p-2 border rounded ${section.wallLayers ? 'bg-slate-50 text-slate-500' : ''}`} value={section.wallThickness} disabled={Boolean(section.wallLayers)} onChange={(e) => updateSection(idx, 'wallThickness', Number(e.target.value))} />
+                        </div>
+                      )}
+                      <div>
+                        <label className="block text-xs text-slate-500 mb-1">Roof Foam</label>
+                        <select className="w-full p-2 border rounded" value={section.roofLayers ? HYBRID : section.roofFoamType} onChange={(e) => setSectionFoam(idx, 'roof', e.target.value)}>
+                          <option>{FoamType.OPEN_CELL}</option>
+                          <option>{FoamType.CLOSED_CELL}</option>
+                          <option value={HYBRID}>Hybrid (Layers)</option>
+                        </select>
+                      </div>
+                      {thicknessMode === 'r_value' ? (
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">Roof Target R</label>
+                          <input type="number" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={section.roofTargetR ?? 0} onChange={(e) => updateSection(idx, 'roofTargetR', Number(e.target.value))} />
+                          <span className="text-[10px] text-slate-400">= {calcData.sections?.[idx]?.roofThickness ?? 0}" of foam</span>
+                        </div>
+                      ) : (
+                        <div>
+                          <label className="block text-xs text-slate-500 mb-1">Roof Thickness (in)</label>
+                          <input type="number" step="0.5" className={`w-full p-2 border rounded ${section.roofLayers ? 'bg-slate-50 text-slate-500' : ''}`} value={section.roofThickness} disabled={Boolean(section.roofLayers)} onChange={(e) => updateSection(idx, 'roofThickness', Number(e.target.value))} />
+                        </div>
+                      )}
+                    </div>
+                    {(section.wallLayers || section.roofLayers) && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {section.wallLayers && (
+                          <div>
+                            <label className="block text-xs text-slate-500 mb-1">Wall Layers</label>
+                            <FoamLayerEditor
+                              layers={section.wallLayers}
+                              derivedLayers={thicknessMode === 'r_value' ? calcData.sections?.[idx]?.wallLayers : undefined}
+                              onChange={(layers) => patchSection(idx, stackFields('wall', layers))}
+                            />
+                          </div>
+                        )}
+                        {section.roofLayers && (
+                          <div className={section.wallLayers ? '' : 'md:col-start-2'}>
+                            <label className="block text-xs text-slate-500 mb-1">Roof Layers</label>
+                            <FoamLayerEditor
+                              layers={section.roofLayers}
+                              derivedLayers={thicknessMode === 'r_value' ? calcData.sections?.[idx]?.roofLayers : undefined}
+                              onChange={(layers) => patchSection(idx, stackFields('roof', layers))}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <button onClick={addSection} className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200 flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> Add Section (Garage, Addition...)
+                </button>
               </div>
-              <div>
-                 <label className="block text-xs uppercase text-slate-500 font-bold mb-1">
-                   {activeTab === 'walls' ? 'Height (ft)' : 'Width (ft)'}
-                 </label>
-                <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={width} onChange={(e) => setWidth(Number(e.target.value))} />
+            ) : activeTab === 'flat' && rooms.length > 0 ? null : (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Length (ft)</label>
+                  <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={length} onChange={(e) => setLength(Number(e.target.value))} />
+                </div>
+                <div>
+                   <label className="block text-xs uppercase text-slate-500 font-bold mb-1">
+                     {activeTab === 'walls' ? 'Height (ft)' : 'Width (ft)'}
+                   </label>
+                  <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={width} onChange={(e) => setWidth(Number(e.target.value))} />
+                </div>
               </div>
-              
-              {activeTab === 'building' && (
-                <>
-                  <div>
-                    <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Wall Height</label>
-                    <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={height} onChange={(e) => setHeight(Number(e.target.value))} />
+            )}
+
+            {/* Room-by-room takeoff (flat & attic areas) */}
+            {activeTab === 'flat' && (
+              <div className={`${rooms.length > 0 ? '' : 'mt-6 pt-4 border-t border-slate-100'} space-y-2`}>
+                <label className="block text-xs font-bold text-slate-500">
+                  {rooms.length > 0 ? 'Areas in Scope' : 'Irregular space? Break it into rooms or trace its outline instead'}
+                </label>
+                <RoomTakeoffEditor rooms={rooms} onChange={setRooms} />
+              </div>
+            )}
+
+            {/* Openings (deducted from wall area) */}
+            {activeTab !== 'flat' && (
+              <div className="mt-6 pt-4 border-t border-slate-100 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <label className="block text-xs font-bold text-slate-500">Openings (Deducted from Walls)</label>
+                  <div className="flex flex-wrap gap-2">
+                    {OPENING_PRESETS.map(preset => (
+                      <button key={preset.label} onClick={() => addOpening(preset)} className="text-xs text-slate-600 hover:bg-slate-100 px-2 py-1 rounded border border-slate-200">
+                        + {preset.label}
+                      </button>
+                    ))}
+                    <button onClick={() => addOpening({ label: 'Custom Opening', width: 0, height: 0 })} className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200">
+                      + Custom
+                    </button>
                   </div>
-                  <div>
-                    <label className="block text-xs uppercase text-slate-500 font-bold mb-1">Roof Pitch (/12)</label>
-                    <input type="number" className="w-full p-2 border rounded focus:ring-2 focus:ring-brand-500 outline-none" value={pitch} onChange={(e) => setPitch(Number(e.target.value))} />
+                </div>
+                {openings.map((opening, idx) => (
+                  <div key={opening.id} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      className={`col-span-12 ${activeTab === 'building' && sections.length > 1 ? 'md:col-span-4' : 'md:col-span-6'} p-2 border rounded text-sm`}
+                      placeholder="Label"
+                      value={opening.label}
+                      onChange={(e) => updateOpening(idx, 'label', e.target.value)}
+                    />
+                    {activeTab === 'building' && sections.length > 1 && (
+                      <select
+                        className="col-span-12 md:col-span-2 p-2 border rounded text-sm bg-white"
+                        value={sections.some(s => s.id === opening.sectionId) ? opening.sectionId : sections[0].id}
+                        onChange={(e) => updateOpening(idx, 'sectionId', e.target.value)}
+                      >
+                        {sections.map(s => (
+                          <option key={s.id} value={s.id}>{s.name || 'Section'}</option>
+                        ))}
+                      </select>
+                    )}
+                    <input type="number" step="0.5" min="0" className="col-span-3 md:col-span-2 p-2 border rounded text-sm" placeholder="W (ft)" title="Width (ft)" value={opening.width} onChange={(e) => updateOpening(idx, 'width', Number(e.target.value))} />
+                    <input type="number" step="0.5" min="0" className="col-span-3 md:col-span-2 p-2 border rounded text-sm" placeholder="H (ft)" title="Height (ft)" value={opening.height} onChange={(e) => updateOpening(idx, 'height', Number(e.target.value))} />
+                    <input type="number" min="1" className="col-span-3 md:col-span-1 p-2 border rounded text-sm" placeholder="Qty" title="Count" value={opening.count} onChange={(e) => updateOpening(idx, 'count', Number(e.target.value))} />
+                    <button onClick={() => removeOpening(idx)} className="col-span-3 md:col-span-1 text-red-500 hover:text-red-700 bg-red-50 p-2 rounded flex justify-center">
+                      <X className="w-4 h-4"/>
+                    </button>
                   </div>
-                </>
-              )}
-            </div>
-            
-            {activeTab === 'building' && (
-              <div className="mt-4">
-                <label className="inline-flex items-center cursor-pointer">
-                  <input type="checkbox" className="w-4 h-4 rounded text-brand-600 focus:ring-brand-500" checked={isGable} onChange={(e) => setIsGable(e.target.checked)} />
-                  <span className="ml-2 text-sm text-slate-700">Include Gable Ends?</span>
-                </label>
+                ))}
+                {openings.length === 0 && (
+                  <p className="text-xs text-slate-400">No openings deducted.</p>
+                )}
               </div>
             )}
+
+            {/* Rim joist & crawlspace (priced per linear foot) */}
+            <div className="mt-6 pt-4 border-t border-slate-100">
+              <SpecialtySurfaceEditor surfaces={specialtySurfaces} onChange={setSpecialtySurfaces} showPricing={pricingMode === 'sqft'} />
+            </div>
           </div>
 
           {/* Foam Specs */}
@@ -747,37 +1330,110 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
             </h3>
             
             <div className="space-y-4">
-              {(activeTab === 'building' || activeTab === 'walls') && (
+              <div className="bg-slate-100 p-1 rounded-lg flex">
+                <button
+                  onClick={() => switchThicknessMode('inches')}
+                  className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${thicknessMode === 'inches' ? 'bg-white shadow-sm text-brand-600' : 'text-slate-500'}`}
+                >
+                  Thickness (in)
+                </button>
+                <button
+                  onClick={() => switchThicknessMode('r_value')}
+                  className={`flex-1 py-1.5 text-xs font-medium rounded-md transition-all ${thicknessMode === 'r_value' ? 'bg-white shadow-sm text-brand-600' : 'text-slate-500'}`}
+                >
+                  Target R-Value
+                </button>
+              </div>
+
+              {activeTab === 'building' && (
+                <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded">Foam type and thickness are set per section above.</p>
+              )}
+
+              {activeTab === 'walls' && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-b pb-4 border-slate-100">
                   <span className="md:col-span-2 font-medium text-sm text-slate-900 bg-slate-50 p-2 rounded">Walls</span>
                   <div>
                     <label className="block text-xs text-slate-500 mb-1">Type</label>
-                    <select className="w-full p-2 border rounded" value={wallFoamType} onChange={(e) => setWallFoamType(e.target.value as FoamType)}>
+                    <select
+                      className="w-full p-2 border rounded"
+                      value={wallLayers ? HYBRID : wallFoamType}
+                      onChange={(e) => {
+                        if (e.target.value === HYBRID) { setSurfaceStack('wall', DEFAULT_HYBRID_STACK); return; }
+                        setWallFoamType(e.target.value as FoamType);
+                        setWallLayers(undefined);
+                      }}
+                    >
                       <option>{FoamType.OPEN_CELL}</option>
                       <option>{FoamType.CLOSED_CELL}</option>
+                      <option value={HYBRID}>Hybrid (Layers)</option>
                     </select>
                   </div>
-                  <div>
-                    <label className="block text-xs text-slate-500 mb-1">Thickness (in)</label>
-                    <input type="number" step="0.5" className="w-full p-2 border rounded" value={wallThickness} onChange={(e) => setWallThickness(Number(e.target.value))} />
-                  </div>
+                  {thicknessMode === 'r_value' ? (
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Target R-Value</label>
+                      <input type="number" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={wallTargetR} onChange={(e) => setWallTargetR(Number(e.target.value))} />
+                      <span className="text-[10px] text-slate-400">= {calcData.wallThickness}" of foam</span>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Thickness (in)</label>
+                      <input type="number" step="0.5" className={`w-full p-2 border rounded ${wallLayers ? 'bg-slate-50 text-slate-500' : ''}`} value={wallThickness} disabled={Boolean(wallLayers)} onChange={(e) => setWallThickness(Number(e.target.value))} />
+                    </div>
+                  )}
+                  {wallLayers && (
+                    <div className="md:col-span-2">
+                      <label className="block text-xs text-slate-500 mb-1">Layers</label>
+                      <FoamLayerEditor
+                        layers={wallLayers}
+                        derivedLayers={thicknessMode === 'r_value' ? calcData.wallLayers : undefined}
+                        onChange={(layers) => setSurfaceStack('wall', layers)}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
-              {(activeTab === 'building' || activeTab === 'flat') && (
+              {activeTab === 'flat' && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <span className="md:col-span-2 font-medium text-sm text-slate-900 bg-slate-50 p-2 rounded">Roof / Ceiling</span>
                   <div>
                     <label className="block text-xs text-slate-500 mb-1">Type</label>
-                    <select className="w-full p-2 border rounded" value={roofFoamType} onChange={(e) => setRoofFoamType(e.target.value as FoamType)}>
+                    <select
+                      className="w-full p-2 border rounded"
+                      value={roofLayers ? HYBRID : roofFoamType}
+                      onChange={(e) => {
+                        if (e.target.value === HYBRID) { setSurfaceStack('roof', DEFAULT_HYBRID_STACK); return; }
+                        setRoofFoamType(e.target.value as FoamType);
+                        setRoofLayers(undefined);
+                      }}
+                    >
                       <option>{FoamType.OPEN_CELL}</option>
                       <option>{FoamType.CLOSED_CELL}</option>
+                      <option value={HYBRID}>Hybrid (Layers)</option>
                     </select>
                   </div>
-                  <div>
-                    <label className="block text-xs text-slate-500 mb-1">Thickness (in)</label>
-                    <input type="number" step="0.5" className="w-full p-2 border rounded" value={roofThickness} onChange={(e) => setRoofThickness(Number(e.target.value))} />
-                  </div>
+                  {thicknessMode === 'r_value' ? (
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Target R-Value</label>
+                      <input type="number" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={roofTargetR} onChange={(e) => setRoofTargetR(Number(e.target.value))} />
+                      <span className="text-[10px] text-slate-400">= {calcData.roofThickness}" of foam</span>
+                    </div>
+                  ) : (
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Thickness (in)</label>
+                      <input type="number" step="0.5" className={`w-full p-2 border rounded ${roofLayers ? 'bg-slate-50 text-slate-500' : ''}`} value={roofThickness} disabled={Boolean(roofLayers)} onChange={(e) => setRoofThickness(Number(e.target.value))} />
+                    </div>
+                  )}
+                  {roofLayers && (
+                    <div className="md:col-span-2">
+                      <label className="block text-xs text-slate-500 mb-1">Layers</label>
+                      <FoamLayerEditor
+                        layers={roofLayers}
+                        derivedLayers={thicknessMode === 'r_value' ? calcData.roofLayers : undefined}
+                        onChange={(layers) => setSurfaceStack('roof', layers)}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
               
@@ -788,6 +1444,67 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                  </div>
                  <input type="range" min="0" max="30" className="w-full accent-brand-600 h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer" value={wastePct} onChange={(e) => setWastePct(Number(e.target.value))} />
               </div>
+
+              <div className="border-t pt-4 border-slate-100 space-y-2">
+                <label className="text-xs uppercase text-slate-500 font-bold">Site Conditions (Yield)</label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <div>
+                    <label className="block text-[10px] text-slate-500 mb-1">Ambient Temp (°F)</label>
+                    <input type="number" className="w-full p-1.5 border rounded text-sm" placeholder="Not set" value={yieldConditions.ambientTempF ?? ''} onChange={(e) => updateYieldConditions({ ambientTempF: e.target.value === '' ? null : Number(e.target.value) })} />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] text-slate-500 mb-1">Humidity (%)</label>
+                    <input type="number" className="w-full p-1.5 border rounded text-sm" placeholder="Not set" value={yieldConditions.humidityPct ?? ''} onChange={(e) => updateYieldConditions({ humidityPct: e.target.value === '' ? null : Number(e.target.value) })} />
+                  </div>
+                  <div>
+                    <label className="block text-[10px] text-slate-500 mb-1">Substrate</label>
+                    <select className="w-full p-1.5 border rounded text-sm" value={yieldConditions.substrate} onChange={(e) => updateYieldConditions({ substrate: e.target.value as SubstrateType })}>
+                      {(Object.keys(SUBSTRATE_LABELS) as SubstrateType[]).map(s => <option key={s} value={s}>{SUBSTRATE_LABELS[s]}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-[10px] text-slate-500 mb-1">Rig</label>
+                    <select className="w-full p-1.5 border rounded text-sm" value={yieldConditions.rigId || ''} onChange={(e) => selectRig(e.target.value)}>
+                      <option value="">Any rig</option>
+                      {rigs.filter(r => r.status !== 'retired' || r.id === yieldConditions.rigId).map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                    </select>
+                  </div>
+                </div>
+                {results.yieldAdjustment.factor !== 1 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+                    Yield adjusted to {(results.yieldAdjustment.factor * 100).toFixed(1)}% of rated ({results.yieldAdjustment.reasons.join(', ')}) — sets increased to match.
+                  </p>
+                )}
+              </div>
+
+              {rValues.length > 0 && (
+                <div className="border-t pt-4 border-slate-100 space-y-1">
+                  <label className="text-xs uppercase text-slate-500 font-bold">Achieved R-Value</label>
+                  <ul className="text-xs text-slate-600 space-y-1">
+                    {describeRValues(rValues).map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              {applicationPlan.surfaces.length > 0 && (
+                <div className="border-t pt-4 border-slate-100 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className="text-xs uppercase text-slate-500 font-bold">Closed Cell Lifts</label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-slate-500">Max per pass (in)</span>
+                      <input type="number" step="0.25" min="0.5" className="w-20 p-1 border rounded text-sm" value={maxPassThickness} onChange={(e) => setMaxPassThickness(Number(e.target.value))} />
+                    </div>
+                  </div>
+                  <ul className="text-xs text-slate-600 space-y-1">
+                    {describeApplicationPlan(applicationPlan).map(line => <li key={line}>{line}</li>)}
+                  </ul>
+                  {applicationPlan.cureWaitHours > 0 && (
+                    <p className="text-xs text-slate-500 bg-slate-50 p-2 rounded">
+                      {applicationPlan.maxPasses} passes — allow ~{applicationPlan.cureWaitHours.toFixed(1)} hrs cure time between lifts.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -813,14 +1530,69 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                >
                  Price Per Sq. Ft.
                </button>
+               <button 
+                 onClick={() => setPricingMode('margin')}
+                 className={`flex-1 py-2 text-sm font-medium rounded-md transition-all ${pricingMode === 'margin' ? 'bg-white shadow-sm text-brand-600' : 'text-slate-500'}`}
+               >
+                 Margin / Markup
+               </button>
             </div>
 
-            <div className="grid grid-cols-2 gap-4 mb-4">
-              {pricingMode === 'cost_plus' ? (
-                <div>
-                  <label className="block text-xs text-slate-500 mb-1">Labor Hours</label>
-                  <input type="number" className="w-full p-2 border rounded" value={laborHours} onChange={(e) => setLaborHours(Number(e.target.value))} />
+            {pricingMode === 'margin' && (
+              <div className="grid grid-cols-2 gap-4 mb-4 pb-4 border-b border-slate-100">
+                <div className="col-span-2 flex gap-2">
+                  {(['margin', 'markup'] as MarginStrategy[]).map(strategy => (
+                    <button
+                      key={strategy}
+                      onClick={() => setMarginPricing(prev => ({ ...prev, strategy }))}
+                      className={`text-xs px-3 py-1 rounded border ${marginPricing.strategy === strategy ? 'border-brand-300 bg-brand-50 text-brand-700' : 'border-slate-200 text-slate-500'}`}
+                    >
+                      {strategy === 'margin' ? 'Target Gross Margin' : 'Markup Material & Labor'}
+                    </button>
+                  ))}
                 </div>
+                {marginPricing.strategy === 'margin' ? (
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Gross Margin (%)</label>
+                    <input type="number" step="0.5" max="99" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={marginPricing.targetMarginPct} onChange={(e) => setMarginPricing(prev => ({ ...prev, targetMarginPct: Number(e.target.value) }))} />
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Material Markup (%)</label>
+                      <input type="number" step="0.5" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={marginPricing.materialMarkupPct} onChange={(e) => setMarginPricing(prev => ({ ...prev, materialMarkupPct: Number(e.target.value) }))} />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-500 mb-1">Labor Markup (%)</label>
+                      <input type="number" step="0.5" className="w-full p-2 border rounded border-brand-200 bg-brand-50" value={marginPricing.laborMarkupPct} onChange={(e) => setMarginPricing(prev => ({ ...prev, laborMarkupPct: Number(e.target.value) }))} />
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-4 mb-4">
+              {pricingMode !== 'sqft' ? (
+                <>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Labor Hours</label>
+                    <input type="number" className={`w-full p-2 border rounded ${laborOverride !== null ? 'border-amber-300 bg-amber-50' : ''}`} value={laborHours} onChange={(e) => setLaborOverride(Number(e.target.value))} />
+                    <div className="mt-1 text-[10px] text-slate-400">
+                      Suggested {laborSuggestion.suggestedHours} hrs: {laborSuggestion.sprayHours.toFixed(1)} spray
+                      {laborSuggestion.cureWaitHours > 0 && ` + ${laborSuggestion.cureWaitHours.toFixed(1)} cure`}
+                      {laborSuggestion.setupHours > 0 && ` + ${laborSuggestion.setupHours} setup`} × {laborSuggestion.crewSize} crew
+                    </div>
+                    {laborOverride !== null && (
+                      <button onClick={() => setLaborOverride(null)} className="text-xs text-brand-600 hover:underline">
+                        Use suggested ({laborSuggestion.suggestedHours} hrs)
+                      </button>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-xs text-slate-500 mb-1">Crew Size</label>
+                    <input type="number" min="1" className="w-full p-2 border rounded" value={crewSize} onChange={(e) => setCrewSize(Number(e.target.value))} />
+                  </div>
+                </>
               ) : (
                 <>
                   {(activeTab !== 'flat') && (
@@ -922,10 +1694,22 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                 <span>Wall Area</span>
                 <span>{results.wallArea.toFixed(0)} sq ft</span>
               </div>
+              {results.openingDeduction > 0 && (
+                <div className="flex justify-between text-sm text-slate-400">
+                  <span>Openings Deducted</span>
+                  <span>-{results.openingDeduction.toFixed(0)} sq ft</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm text-slate-300">
                 <span>Roof Area</span>
                 <span>{results.roofArea.toFixed(0)} sq ft</span>
               </div>
+              {results.specialtyArea > 0 && (
+                <div className="flex justify-between text-sm text-slate-300">
+                  <span>Rim Joist / Crawlspace</span>
+                  <span>{results.specialtyArea.toFixed(0)} sq ft</span>
+                </div>
+              )}
               <div className="border-t border-slate-700 pt-2"></div>
                <div className="flex justify-between text-sm">
                 <span>Open Cell Sets</span>
@@ -935,20 +1719,26 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                 <span>Closed Cell Sets</span>
                 <span className="text-brand-400 font-mono">{results.setsClosed.toFixed(2)}</span>
               </div>
+              {results.yieldAdjustment.factor !== 1 && (
+                <div className="flex justify-between text-xs text-amber-400" title={results.yieldAdjustment.reasons.join(', ')}>
+                  <span>Yield Adjusted</span>
+                  <span className="font-mono">{(results.yieldAdjustment.factor * 100).toFixed(1)}%</span>
+                </div>
+              )}
             </div>
 
             {showPricing && (
               <div className="bg-slate-800 rounded-lg p-4 space-y-2 mb-6 animate-in fade-in zoom-in-95 duration-200 border border-slate-700">
                 
-                {pricingMode === 'cost_plus' ? (
+                {pricingMode !== 'sqft' ? (
                   <>
                     <div className="flex justify-between text-sm">
                       <span>Materials</span>
-                      <span>${results.materialCost.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
+                      <span>${results.materialPrice.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
                     </div>
                     <div className="flex justify-between text-sm">
                       <span>Labor</span>
-                      <span>${results.laborCost.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
+                      <span>${results.laborPrice.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
                     </div>
                   </>
                 ) : (
@@ -970,9 +1760,56 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
                   <span>Total</span>
                   <span>${results.total.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
                 </div>
+
+                {/* Internal profitability — not saved to line items or printed */}
+                <div className="grid grid-cols-4 gap-2 pt-3 mt-2 border-t border-slate-700 text-center">
+                  {[
+                    { label: 'Cost', value: `$${results.jobCost.toLocaleString(undefined, {maximumFractionDigits: 0})}` },
+                    { label: 'Price', value: `$${results.baseCost.toLocaleString(undefined, {maximumFractionDigits: 0})}` },
+                    { label: 'Profit', value: `$${results.profit.toLocaleString(undefined, {maximumFractionDigits: 0})}` },
+                    { label: 'Margin', value: `${results.marginPct.toFixed(1)}%` },
+                  ].map(stat => (
+                    <div key={stat.label}>
+                      <div className="text-[10px] uppercase text-slate-400">{stat.label}</div>
+                      <div className={`text-sm font-mono ${stat.label !== 'Cost' && results.profit < 0 ? 'text-red-400' : 'text-white'}`}>{stat.value}</div>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
+            {/* Good / Better / Best */}
+            <div className="bg-slate-800 rounded-lg p-4 mb-6 border border-slate-700 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs uppercase text-slate-400 font-bold">Options</span>
+                <button onClick={addOption} className="text-xs text-brand-400 hover:text-brand-300 flex items-center gap-1">
+                  <Plus className="w-3 h-3" /> {options.length === 0 ? 'Save as Option' : 'Add Option'}
+                </button>
+              </div>
+              {options.length === 0 && (
+                <p className="text-xs text-slate-500">Offer Good / Better / Best tiers on one estimate.</p>
+              )}
+              {options.map(option => {
+                const isActive = option.id === activeOptionId;
+                const optionTotal = isActive ? results.total : option.total;
+                return (
+                  <div key={option.id} className={`flex items-center gap-2 rounded p-2 border ${isActive ? 'border-brand-500 bg-slate-700' : 'border-slate-700'}`}>
+                    {isActive ? (
+                      <input className="flex-1 bg-transparent text-sm text-white border-b border-slate-500 focus:outline-none" value={option.name} onChange={(e) => renameOption(option.id, e.target.value)} />
+                    ) : (
+                      <button onClick={() => switchOption(option.id)} className="flex-1 text-left text-sm text-slate-300 hover:text-white">{option.name}</button>
+                    )}
+                    {showPricing && (
+                      <span className="text-xs font-mono text-slate-300">${optionTotal.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</span>
+                    )}
+                    <button onClick={() => removeOption(option.id)} className="text-slate-500 hover:text-red-400" title="Remove option">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+
             <div className="space-y-3">
               <button 
                 onClick={() => handleSave(isEditMode ? editEstimate!.status : JobStatus.DRAFT)}
@@ -980,6 +1817,12 @@ const Calculator: React.FC<CalculatorProps> = ({ settings, customers, inventory,
               >
                 <Save className="w-5 h-5" /> {isEditMode ? 'Save Changes' : 'Save Estimate'}
               </button>
+              <button
+                onClick={handleSaveTemplate}
+                className="w-full py-2 border border-slate-700 hover:bg-slate-800 rounded-lg text-sm text-slate-300 flex justify-center items-center gap-2"
+              >
+                <BookmarkPlus className="w-4 h-4" /> Save as Template
+              </button>
             </div>
           </div>
         </div>
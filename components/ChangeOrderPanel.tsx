@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { FilePlus, Plus, Trash2, Check, X, FileDown, Package } from 'lucide-react';
+import { ChangeOrder, Estimate, JobItem } from '../types';
+import { canChangeScope, changeOrderTotals, formatChangeOrderNumber, nextChangeOrderNumber } from '../services/changeOrders';
+
+interface ChangeOrderPanelProps {
+  estimate: Estimate;
+  customerName: string;
+  taxRate: number;
+  onAdd: (changeOrder: ChangeOrder) => void;
+  onSetStatus: (changeOrder: ChangeOrder, status: ChangeOrder['status'], approvedBy?: string) => void;
+  onDelete: (changeOrder: ChangeOrder) => void;
+  onGeneratePDF: (changeOrder: ChangeOrder) => void;
+}
+
+const blankItem = (): JobItem => ({ id: Date.now().toString(), description: '', quantity: 1, unit: 'ea', unitPrice: 0, total: 0 });
+
+const statusStyles: Record<ChangeOrder['status'], string> = {
+  pending: 'bg-amber-50 text-amber-700',
+  approved: 'bg-green-50 text-green-700',
+  declined: 'bg-slate-100 text-slate-500',
+};
+
+const money = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Field scope changes on a work order: write one up, get the customer's OK, print it */
+const ChangeOrderPanel: React.FC<ChangeOrderPanelProps> = ({ estimate, customerName, taxRate, onAdd, onSetStatus, onDelete, onGeneratePDF }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [description, setDescription] = useState('');
+  const [items, setItems] = useState<JobItem[]>([blankItem()]);
+  const [setsOpen, setSetsOpen] = useState(0);
+  const [setsClosed, setSetsClosed] = useState(0);
+
+  const changeOrders = estimate.changeOrders || [];
+  const editable = canChangeScope(estimate);
+  const draftTotals = changeOrderTotals(items, taxRate);
+
+  const updateItem = (id: string, field: keyof JobItem, value: any) => {
+    setItems(items.map(item => {
+      if (item.id !== id) return item;
+      const updated = { ...item, [field]: value };
+      updated.total = Number(updated.quantity) * Number(updated.unitPrice);
+      return updated;
+    }));
+  };
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setDescription('');
+    setItems([blankItem()]);
+    setSetsOpen(0);
+    setSetsClosed(0);
+  };
+
+  const handleSave = () => {
+    const lines = items.filter(item => item.description.trim() && item.total !== 0);
+    if (!description.trim() || lines.length === 0) {
+      alert('Describe the change and add at least one priced line.');
+      return;
+    }
+    onAdd({
+      id: Date.now().toString(),
+      number: nextChangeOrderNumber(estimate),
+      date: new Date().toISOString(),
+      description: description.trim(),
+      items: lines,
+      setsRequiredOpen: setsOpen,
+      setsRequiredClosed: setsClosed,
+      ...changeOrderTotals(lines, taxRate),
+      status: 'pending',
+    });
+    resetForm();
+  };
+
+  const handleApprove = (changeOrder: ChangeOrder) => {
+    const approvedBy = window.prompt(`Who approved ${formatChangeOrderNumber(estimate.number, changeOrder)}?`, customerName);
+    if (approvedBy === null) return;
+    onSetStatus(changeOrder, 'approved', approvedBy.trim());
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><FilePlus className="w-4 h-4" /> Change Orders</h3>
+        {editable && !isAdding && (
+          <button onClick={() => setIsAdding(true)} className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200 flex items-center gap-1">
+            <Plus className="w-3 h-3" /> New Change Order
+          </button>
+        )}
+      </div>
+
+      {changeOrders.length === 0 && !isAdding && (
+        <p className="text-sm text-slate-400">No change orders. Add one when the scope changes in the field.</p>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {changeOrders.map(co => (
+          <div key={co.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded">{formatChangeOrderNumber(estimate.number, co)}</span>
+                <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full capitalize ${statusStyles[co.status]}`}>{co.status}</span>
+                {co.inventoryDeducted && <Package className="w-3 h-3 text-green-600" />}
+              </div>
+              <p className="text-sm text-slate-800 mt-1 truncate">{co.description}</p>
+              <p className="text-xs text-slate-400">
+                {new Date(co.date).toLocaleDateString()} · {co.items.length} line(s)
+                {co.setsRequiredOpen > 0 && ` · +${co.setsRequiredOpen} OC sets`}
+                {co.setsRequiredClosed > 0 && ` · +${co.setsRequiredClosed} CC sets`}
+                {co.approvedBy && ` · approved by ${co.approvedBy}`}
+              </p>
+            </div>
+            <span className={`font-mono text-sm ${co.status === 'declined' ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{money(co.total)}</span>
+            <div className="flex gap-1">
+              {editable && co.status === 'pending' && (
+                <>
+                  <button onClick={() => handleApprove(co)} className="p-1.5 text-green-600 hover:bg-green-50 rounded" title="Customer approved">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onSetStatus(co, 'declined')} className="p-1.5 text-slate-400 hover:bg-slate-100 rounded" title="Customer declined">
+                    <X className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button onClick={() => onGeneratePDF(co)} className="p-1.5 text-purple-600 hover:bg-purple-50 rounded" title="Change order PDF">
+                <FileDown className="w-4 h-4" />
+              </button>
+              {co.status !== 'approved' && (
+                <button onClick={() => onDelete(co)} className="p-1.5 text-slate-400 hover:text-red-500 rounded" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isAdding && (
+        <div className="mt-4 p-4 bg-slate-50 rounded-lg border space-y-3">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 mb-1">What changed</label>
+            <input className="w-full p-2 border rounded text-sm" placeholder="e.g. Add garage ceiling, 3&quot; closed cell" value={description} onChange={(e) => setDescription(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <label className="block text-xs font-bold text-slate-500">Line items (negative price for a credit)</label>
+            {items.map(item => (
+              <div key={item.id} className="grid grid-cols-12 gap-2 items-center">
+                <input className="col-span-5 p-1.5 border rounded text-sm" placeholder="Description" value={item.description} onChange={(e) => updateItem(item.id, 'description', e.target.value)} />
+                <input type="number" className="col-span-2 p-1.5 border rounded text-sm" value={item.quantity} onChange={(e) => updateItem(item.id, 'quantity', Number(e.target.value))} />
+                <input className="col-span-1 p-1.5 border rounded text-sm" value={item.unit} onChange={(e) => updateItem(item.id, 'unit', e.target.value)} />
+                <input type="number" step="0.01" className="col-span-2 p-1.5 border rounded text-sm" value={item.unitPrice} onChange={(e) => updateItem(item.id, 'unitPrice', Number(e.target.value))} />
+                <span className="col-span-1 text-xs text-right font-mono">{money(item.total)}</span>
+                <button onClick={() => setItems(items.filter(i => i.id !== item.id))} className="col-span-1 p-1 text-slate-400 hover:text-red-500 justify-self-end" title="Remove line">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <button onClick={() => setItems([...items, blankItem()])} className="text-xs text-brand-600 hover:underline flex items-center gap-1">
+              <Plus className="w-3 h-3" /> Add Line
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Extra Open Cell Sets</label>
+              <input type="number" step="0.1" min="0" className="w-full p-1.5 border rounded text-sm" value={setsOpen} onChange={(e) => setSetsOpen(Math.max(0, Number(e.target.value)))} />
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Extra Closed Cell Sets</label>
+              <input type="number" step="0.1" min="0" className="w-full p-1.5 border rounded text-sm" value={setsClosed} onChange={(e) => setSetsClosed(Math.max(0, Number(e.target.value)))} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between pt-2 border-t border-slate-200">
+            <span className="text-sm text-slate-600">
+              Change: <span className="font-bold text-slate-900">{money(draftTotals.total)}</span> <span className="text-xs text-slate-400">incl. {money(draftTotals.tax)} tax</span>
+            </span>
+            <div className="flex gap-2">
+              <button onClick={resetForm} className="text-sm px-3 py-1.5 rounded border border-slate-200 text-slate-600 hover:bg-slate-100">Cancel</button>
+              <button onClick={handleSave} className="text-sm px-3 py-1.5 rounded bg-brand-600 text-white hover:bg-brand-700">Save Change Order</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeOrderPanel;
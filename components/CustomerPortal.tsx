@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, AlertTriangle, FileDown, Image as ImageIcon, PenLine } from 'lucide-react';
+import { Estimate, JobStatus, formatDocumentNumber, statusToDocumentType } from '../types';
+import { CustomerPortalData, SavedPDF, getCustomerPortal } from '../services/storage';
+import { contractTotal } from '../services/changeOrders';
+import { balanceDue } from '../services/payments';
+import { acceptanceUrl } from '../services/acceptance';
+import { portalBalance, portalPhotos, portalStatusLabel } from '../services/portal';
+import { PHOTO_CATEGORY_LABELS } from '../constants';
+
+interface CustomerPortalProps {
+  token: string;
+}
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const statusColors: Record<string, string> = {
+  [JobStatus.DRAFT]: 'bg-slate-100 text-slate-700',
+  [JobStatus.WORK_ORDER]: 'bg-orange-100 text-orange-700',
+  [JobStatus.INVOICED]: 'bg-blue-100 text-blue-700',
+  [JobStatus.PAID]: 'bg-green-100 text-green-700',
+  [JobStatus.ARCHIVED]: 'bg-slate-200 text-slate-500',
+};
+
+const DocumentLink: React.FC<{ pdf: SavedPDF }> = ({ pdf }) => (
+  <a
+    href={pdf.fileUrl}
+    target="_blank"
+    rel="noopener noreferrer"
+    className="flex items-center gap-2 text-sm text-brand-600 hover:bg-brand-50 px-3 py-2 rounded-lg border border-slate-200"
+  >
+    <FileDown className="w-4 h-4 shrink-0" />
+    <span className="font-mono">{pdf.documentNumber}</span>
+    <span className="text-xs text-slate-400 ml-auto">{new Date(pdf.createdAt).toLocaleDateString()}</span>
+  </a>
+);
+
+const JobCard: React.FC<{ estimate: Estimate; documents: SavedPDF[] }> = ({ estimate, documents }) => {
+  const photos = portalPhotos(estimate);
+  const balance = balanceDue(estimate);
+  const canSign = estimate.status === JobStatus.DRAFT && estimate.acceptanceToken;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <span className="font-mono text-xs text-slate-500">{formatDocumentNumber(estimate.number, statusToDocumentType(estimate.status))}</span>
+            <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${statusColors[estimate.status] || 'bg-slate-100 text-slate-700'}`}>
+              {portalStatusLabel(estimate.status)}
+            </span>
+          </div>
+          <h3 className="font-semibold text-slate-900">{estimate.jobName || 'Spray Foam Insulation'}</h3>
+          <p className="text-xs text-slate-400">{new Date(estimate.date).toLocaleDateString()}{estimate.jobAddress ? ` · ${estimate.jobAddress}` : ''}</p>
+        </div>
+        <div className="sm:text-right">
+          <p className="text-lg font-bold text-slate-900">{money(contractTotal(estimate))}</p>
+          {estimate.status === JobStatus.INVOICED && balance > 0 && (
+            <p className="text-sm font-semibold text-red-600">Balance due {money(balance)}</p>
+          )}
+        </div>
+      </div>
+
+      {canSign && (
+        <a
+          href={acceptanceUrl(estimate.acceptanceToken!, window.location.origin)}
+          className="inline-flex items-center gap-2 text-sm px-4 py-2 rounded-lg bg-brand-600 text-white hover:bg-brand-700"
+        >
+          <PenLine className="w-4 h-4" /> Review & Sign Estimate
+        </a>
+      )}
+
+      {documents.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {documents.map(pdf => <DocumentLink key={pdf.id} pdf={pdf} />)}
+        </div>
+      )}
+
+      {photos.length > 0 && (
+        <div>
+          <p className="text-xs font-bold text-slate-500 uppercase mb-2 flex items-center gap-1"><ImageIcon className="w-3 h-3" /> Before & After</p>
+          <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+            {photos.map((photo, i) => (
+              <a key={photo.url} href={photo.url} target="_blank" rel="noopener noreferrer" title={photo.caption || PHOTO_CATEGORY_LABELS[photo.category]}>
+                <img src={photo.thumbnailUrl} alt={photo.caption || `Job photo ${i + 1}`} loading="lazy" className="w-full aspect-square object-cover rounded-lg border border-slate-200 hover:opacity-90" />
+                {photo.caption && <p className="text-[10px] text-slate-500 mt-1 truncate">{photo.caption}</p>}
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Read-only portal a customer reaches from their magic link — jobs, documents, photos and balance */
+const CustomerPortal: React.FC<CustomerPortalProps> = ({ token }) => {
+  const [portal, setPortal] = useState<CustomerPortalData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    getCustomerPortal(token).then(data => {
+      setPortal(data);
+      setLoading(false);
+    });
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (!portal) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 max-w-md text-center">
+          <AlertTriangle className="w-10 h-10 text-amber-500 mx-auto mb-3" />
+          <h1 className="text-lg font-bold text-slate-900">This link is no longer valid</h1>
+          <p className="text-sm text-slate-500 mt-2">Please contact the company that sent it for a new link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const balance = portalBalance(portal.estimates);
+  // Statements and other documents that aren't tied to one job
+  const accountDocuments = portal.documents.filter(pdf => !pdf.estimateId);
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        {/* Company header */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex items-center gap-4">
+          {portal.company.logoUrl && <img src={portal.company.logoUrl} alt="" className="h-14 w-auto object-contain" />}
+          <div className="flex-1">
+            <h1 className="text-lg font-bold text-slate-900">{portal.company.companyName}</h1>
+            <p className="text-xs text-slate-500">{[portal.company.companyAddress, portal.company.companyPhone, portal.company.companyEmail].filter(Boolean).join(' · ')}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <p className="text-sm text-slate-500">Welcome back</p>
+            <p className="text-xl font-bold text-slate-900">{portal.customerName}</p>
+            <p className="text-xs text-slate-400 mt-1">{portal.estimates.length} {portal.estimates.length === 1 ? 'job' : 'jobs'} on file</p>
+          </div>
+          <div className={`rounded-xl shadow-sm p-6 ${balance > 0 ? 'bg-red-50 border border-red-200' : 'bg-green-50 border border-green-200'}`}>
+            <p className="text-sm text-slate-500">Outstanding Balance</p>
+            <p className={`text-2xl font-bold ${balance > 0 ? 'text-red-600' : 'text-green-700'}`}>{money(balance)}</p>
+            {balance > 0 && <p className="text-xs text-slate-500 mt-1">Please reference the invoice number with your payment.</p>}
+          </div>
+        </div>
+
+        {accountDocuments.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6">
+            <h2 className="font-semibold text-slate-800 mb-3">Statements</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {accountDocuments.map(pdf => <DocumentLink key={pdf.id} pdf={pdf} />)}
+            </div>
+          </div>
+        )}
+
+        {portal.estimates.length === 0 ? (
+          <p className="text-center text-slate-400 py-8">No jobs yet.</p>
+        ) : (
+          portal.estimates.map(est => (
+            <JobCard key={est.id} estimate={est} documents={portal.documents.filter(pdf => pdf.estimateId === est.id)} />
+          ))
+        )}
+
+        <p className="text-center text-xs text-slate-400">Questions? Contact {portal.company.companyName}{portal.company.companyPhone ? ` at ${portal.company.companyPhone}` : ''}.</p>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerPortal;
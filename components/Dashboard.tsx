@@ -2,6 +2,7 @@ import React, { useMemo } from 'react';
 import { Estimate, InventoryItem, JobStatus } from '../types';
 import { DollarSign, FileText, AlertTriangle, Activity, Package } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { contractTotal } from '../services/changeOrders';
 
 interface DashboardProps {
   estimates: Estimate[];
@@ -13,7 +14,7 @@ const Dashboard: React.FC<DashboardProps> = ({ estimates, inventory, onNavigate
   const stats = useMemo(() => {
     const pipeline = estimates
       .filter(e => e.status !== JobStatus.ARCHIVED && e.status !== JobStatus.PAID)
-      .reduce((acc, curr) => acc + curr.total, 0);
+      .reduce((acc, curr) => acc + contractTotal(curr), 0);
 
     const activeWorkOrders = estimates.filter(e => e.status === JobStatus.WORK_ORDER).length;
     const pendingInvoices = estimates.filter(e => e.status === JobStatus.INVOICED).length;
@@ -76,7 +77,7 @@ const Dashboard: React.FC<DashboardProps> = ({ estimates, inventory, onNavigate
           </div>
         </div>
 
-        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 cursor-pointer hover:border-blue-300 transition-colors" onClick={() => onNavigate('receivables')}>
           <div className="flex items-center justify-between">
             <div>
               <p className="text-sm font-medium text-slate-500">Pending Invoices</p>
@@ -0,0 +1,307 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, CheckCircle2, AlertTriangle, PenLine, Type, Eraser } from 'lucide-react';
+import { DocumentType, EstimateAcceptanceView, JobItem, JobStatus, SignatureMethod, formatDocumentNumber } from '../types';
+import { getEstimateForAcceptance, acceptEstimate } from '../services/storage';
+import { TERMS_MAP } from '../services/pdfService';
+import { describeAcceptance } from '../services/acceptance';
+
+interface EstimateAcceptanceProps {
+  token: string;
+}
+
+const money = (n: number) => `$${Number(n || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Exported signature size — wide enough to stay crisp over the PDF signature line
+const SIGNATURE_WIDTH = 600;
+const SIGNATURE_HEIGHT = 180;
+const TYPED_SIGNATURE_FONT = "italic 64px 'Brush Script MT', 'Segoe Script', cursive";
+
+/** Renders a typed name as a signature image */
+const typedSignatureDataUrl = (name: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#0f172a';
+  ctx.font = TYPED_SIGNATURE_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(name, SIGNATURE_WIDTH / 2, SIGNATURE_HEIGHT / 2, SIGNATURE_WIDTH - 40);
+  return canvas.toDataURL('image/png');
+};
+
+// --- Draw-with-finger/mouse signature pad ---
+const SignaturePad: React.FC<{ onChange: (dataUrl: string | null) => void }> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const hasInk = useRef(false);
+
+  useEffect(() => {
+    const ctx = canvasRef.current!.getContext('2d')!;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#0f172a';
+  }, []);
+
+  // Pointer position in canvas pixels (the canvas is scaled by CSS)
+  const pointFor = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * SIGNATURE_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * SIGNATURE_HEIGHT,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointFor(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    drawing.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointFor(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    hasInk.current = true;
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    if (hasInk.current) onChange(canvasRef.current!.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    hasInk.current = false;
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={SIGNATURE_WIDTH}
+        height={SIGNATURE_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full h-36 bg-white border-2 border-dashed border-slate-300 rounded-lg touch-none cursor-crosshair"
+      />
+      <div className="flex justify-between items-center mt-1">
+        <span className="text-xs text-slate-400">Sign above with your finger or mouse</span>
+        <button type="button" onClick={clear} className="text-xs text-slate-500 hover:text-slate-700 flex items-center gap-1">
+          <Eraser className="w-3 h-3" /> Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ItemsTable: React.FC<{ items: JobItem[] }> = ({ items }) => (
+  <table className="w-full text-sm">
+    <thead className="text-xs text-slate-500 border-b border-slate-200">
+      <tr>
+        <th className="py-2 text-left font-medium">Description</th>
+        <th className="py-2 text-right font-medium">Qty</th>
+        <th className="py-2 text-right font-medium">Amount</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-slate-100">
+      {items.map(item => (
+        <tr key={item.id}>
+          <td className="py-2 text-slate-700">{item.description}</td>
+          <td className="py-2 text-right text-slate-500 whitespace-nowrap">{item.quantity.toLocaleString()} {item.unit}</td>
+          <td className="py-2 text-right font-mono text-slate-900">{money(item.total)}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+/** Public page a customer reaches from a signature link — review the estimate and sign, no login */
+const EstimateAcceptance: React.FC<EstimateAcceptanceProps> = ({ token }) => {
+  const [view, setView] = useState<EstimateAcceptanceView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [optionId, setOptionId] = useState<string | undefined>(undefined);
+  const [method, setMethod] = useState<SignatureMethod>('drawn');
+  const [signerName, setSignerName] = useState('');
+  const [drawnSignature, setDrawnSignature] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getEstimateForAcceptance(token).then(data => {
+      setView(data);
+      setOptionId(data?.selectedOptionId || undefined);
+      setSignerName(data?.customerName || '');
+      setLoading(false);
+    });
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 p-4">
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-8 max-w-md text-center">
+          <AlertTriangle className="w-10 h-10 text-amber-500 mx-auto mb-3" />
+          <h1 className="text-lg font-bold text-slate-900">This link is no longer valid</h1>
+          <p className="text-sm text-slate-500 mt-2">It may have been replaced with a newer one. Please contact the company that sent it for a new link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const hasChoice = view.options.length > 0;
+  const chosen = view.options.find(o => o.id === optionId);
+  const pricing = chosen || view;
+  const estimateNumber = formatDocumentNumber(view.number, DocumentType.ESTIMATE);
+  const isOpen = view.status === JobStatus.DRAFT && !view.acceptance;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (hasChoice && !chosen) { setError('Please choose an option.'); return; }
+    if (!signerName.trim()) { setError('Please enter your name.'); return; }
+    const signature = method === 'typed' ? typedSignatureDataUrl(signerName.trim()) : drawnSignature;
+    if (!signature) { setError('Please sign in the box.'); return; }
+    if (!agreed) { setError('Please confirm you agree to the estimate and terms.'); return; }
+
+    setSubmitting(true);
+    try {
+      const acceptance = await acceptEstimate(token, signerName.trim(), signature, method, optionId);
+      setView({ ...view, acceptance, selectedOptionId: acceptance.optionId });
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Company header */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 flex items-center gap-4">
+          {view.company.logoUrl && <img src={view.company.logoUrl} alt="" className="h-14 w-auto object-contain" />}
+          <div className="flex-1">
+            <h1 className="text-lg font-bold text-slate-900">{view.company.companyName}</h1>
+            <p className="text-xs text-slate-500">{[view.company.companyAddress, view.company.companyPhone, view.company.companyEmail].filter(Boolean).join(' · ')}</p>
+          </div>
+          <div className="text-right">
+            <p className="text-xs text-slate-400 uppercase font-bold">Estimate</p>
+            <p className="font-mono text-sm text-slate-700">{estimateNumber}</p>
+          </div>
+        </div>
+
+        {/* Estimate */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+          <div>
+            <p className="text-sm text-slate-500">Prepared for {view.customerName}</p>
+            <h2 className="text-xl font-bold text-slate-900">{view.jobName || 'Spray Foam Insulation'}</h2>
+            <p className="text-xs text-slate-400">{new Date(view.date).toLocaleDateString()}{view.jobAddress ? ` · ${view.jobAddress}` : ''}</p>
+          </div>
+
+          {hasChoice && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {view.options.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  disabled={!isOpen}
+                  onClick={() => setOptionId(option.id)}
+                  className={`p-4 rounded-lg border-2 text-left transition-colors ${option.id === optionId ? 'border-brand-500 bg-brand-50' : 'border-slate-200 hover:border-slate-300'} disabled:cursor-default`}
+                >
+                  <p className="font-semibold text-slate-800">{option.name}</p>
+                  <p className="text-lg font-bold text-slate-900">{money(option.total)}</p>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {(!hasChoice || chosen) && <ItemsTable items={pricing.items} />}
+
+          <div className="border-t border-slate-200 pt-3 space-y-1 text-sm">
+            <div className="flex justify-between text-slate-500"><span>Subtotal</span><span className="font-mono">{money(pricing.subtotal)}</span></div>
+            <div className="flex justify-between text-slate-500"><span>Tax</span><span className="font-mono">{money(pricing.tax)}</span></div>
+            <div className="flex justify-between text-lg font-bold text-slate-900"><span>Total</span><span className="font-mono">{hasChoice && !chosen ? '—' : money(pricing.total)}</span></div>
+          </div>
+
+          {view.notes && <p className="text-sm text-slate-600 whitespace-pre-line bg-slate-50 rounded-lg p-3">{view.notes}</p>}
+          <p className="text-xs text-slate-400">{TERMS_MAP[DocumentType.ESTIMATE]}</p>
+        </div>
+
+        {/* Signature */}
+        {view.acceptance ? (
+          <div className="bg-white rounded-xl shadow-sm border border-green-200 p-6 text-center space-y-3">
+            <CheckCircle2 className="w-10 h-10 text-green-600 mx-auto" />
+            <h2 className="text-lg font-bold text-slate-900">Thank you — your estimate is accepted</h2>
+            <img src={view.acceptance.signatureDataUrl} alt="Your signature" className="h-20 mx-auto object-contain" />
+            <p className="text-xs text-slate-500">{describeAcceptance(view.acceptance)}</p>
+            <p className="text-sm text-slate-500">{view.company.companyName} will be in touch to schedule the work.</p>
+          </div>
+        ) : !isOpen ? (
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 text-center text-sm text-slate-500">
+            This estimate is no longer open for acceptance. Please contact {view.company.companyName} with any questions.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-4">
+            <h2 className="font-semibold text-slate-800">Accept this estimate</h2>
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-1">Full name</label>
+              <input className="w-full p-2 border rounded-lg text-sm" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+            </div>
+
+            <div className="flex gap-2">
+              <button type="button" onClick={() => setMethod('drawn')} className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm border ${method === 'drawn' ? 'bg-brand-50 border-brand-300 text-brand-700' : 'border-slate-200 text-slate-600'}`}>
+                <PenLine className="w-4 h-4" /> Draw
+              </button>
+              <button type="button" onClick={() => setMethod('typed')} className={`flex-1 flex items-center justify-center gap-2 py-2 rounded-lg text-sm border ${method === 'typed' ? 'bg-brand-50 border-brand-300 text-brand-700' : 'border-slate-200 text-slate-600'}`}>
+                <Type className="w-4 h-4" /> Type
+              </button>
+            </div>
+
+            {method === 'drawn' ? (
+              <SignaturePad onChange={setDrawnSignature} />
+            ) : (
+              <div className="h-36 bg-white border-2 border-dashed border-slate-300 rounded-lg flex items-center justify-center px-4 overflow-hidden">
+                <span className="text-slate-900 truncate" style={{ font: TYPED_SIGNATURE_FONT.replace('64px', '2.5rem') }}>{signerName.trim() || 'Your name'}</span>
+              </div>
+            )}
+
+            <label className="flex items-start gap-2 text-sm text-slate-600">
+              <input type="checkbox" className="mt-1" checked={agreed} onChange={(e) => setAgreed(e.target.checked)} />
+              <span>
+                I agree to {estimateNumber}{chosen ? ` (${chosen.name})` : ''} for {hasChoice && !chosen ? 'the option chosen above' : money(pricing.total)} and its terms, and that my electronic signature is as binding as one on paper.
+              </span>
+            </label>
+
+            {error && <p className="text-sm text-red-600 bg-red-50 rounded-lg p-2">{error}</p>}
+
+            <button type="submit" disabled={submitting} className="w-full py-3 rounded-lg bg-brand-600 text-white font-bold hover:bg-brand-700 disabled:opacity-50 flex items-center justify-center gap-2">
+              {submitting && <Loader2 className="w-4 h-4 animate-spin" />} Accept & Sign
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EstimateAcceptance;
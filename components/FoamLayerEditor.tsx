@@ -0,0 +1,60 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { FoamLayer, FoamType } from '../types';
+
+interface FoamLayerEditorProps {
+  layers: FoamLayer[];
+  onChange: (layers: FoamLayer[]) => void;
+  // R-value mode: the fill (last) layer is sized from the target, so show the derived stack read-only
+  derivedLayers?: FoamLayer[];
+}
+
+/** Ordered foam stack for one surface, sprayed top to bottom (e.g. closed cell flash, open cell fill) */
+const FoamLayerEditor: React.FC<FoamLayerEditorProps> = ({ layers, onChange, derivedLayers }) => {
+  const updateLayer = (index: number, field: keyof FoamLayer, value: any) => {
+    onChange(layers.map((l, i) => i === index ? { ...l, [field]: value } : l));
+  };
+
+  const addLayer = () => {
+    onChange([...layers, { foamType: FoamType.OPEN_CELL, thickness: 1 }]);
+  };
+
+  const removeLayer = (index: number) => {
+    onChange(layers.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {layers.map((layer, idx) => {
+        const isDerived = Boolean(derivedLayers) && idx === layers.length - 1;
+        return (
+          <div key={idx} className="flex items-center gap-2">
+            <span className="text-[10px] text-slate-400 w-4">{idx + 1}.</span>
+            <select className="flex-1 p-1.5 border rounded text-sm" value={layer.foamType} onChange={(e) => updateLayer(idx, 'foamType', e.target.value as FoamType)}>
+              <option>{FoamType.OPEN_CELL}</option>
+              <option>{FoamType.CLOSED_CELL}</option>
+            </select>
+            <input
+              type="number"
+              step="0.25"
+              className={`w-20 p-1.5 border rounded text-sm ${isDerived ? 'bg-slate-50 text-slate-500' : ''}`}
+              value={isDerived ? derivedLayers![idx]?.thickness ?? 0 : layer.thickness}
+              disabled={isDerived}
+              title={isDerived ? 'Sized from the target R-value' : undefined}
+              onChange={(e) => updateLayer(idx, 'thickness', Number(e.target.value))}
+            />
+            <span className="text-xs text-slate-400">in</span>
+            <button onClick={() => removeLayer(idx)} className="p-1 text-slate-400 hover:text-red-500" title="Remove layer">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+      <button onClick={addLayer} className="text-xs text-brand-600 hover:underline flex items-center gap-1">
+        <Plus className="w-3 h-3" /> Add Layer
+      </button>
+    </div>
+  );
+};
+
+export default FoamLayerEditor;
@@ -1,24 +1,32 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { X, FileDown, Plus, Trash2, Eye, Pencil, FileText, Save, Cloud, CheckCircle, ClipboardList, Receipt, FileCheck } from 'lucide-react';
+import { X, FileDown, Plus, Trash2, Eye, Pencil, FileText, Save, Cloud, CheckCircle, ClipboardList, Receipt, FileCheck, FilePlus, ScrollText, Camera, Loader2 } from 'lucide-react';
 import { Estimate, Customer, AppSettings, DocumentType, formatDocumentNumber } from '../types';
 import {
+  PDFAppendixPhoto,
   PDFDocumentData,
   PDFLineItem,
   buildPDFDocumentData,
+  buildStatementDocumentData,
   downloadPDF,
   generatePDFBlob,
   getPDFFilename,
   loadLogoAsDataUrl,
+  loadPhotoAsDataUrl,
   TERMS_MAP,
   DOC_TYPE_COLORS,
 } from '../services/pdfService';
 import { savePDFToSupabase } from '../services/storage';
+import { formatChangeOrderNumber } from '../services/changeOrders';
+import { defaultStatementRange } from '../services/statements';
+import { PAYMENT_TERMS_OPTIONS } from '../constants';
 
 interface PDFPreviewModalProps {
-  estimate: Estimate;
+  estimate?: Estimate; // Omitted for a customer statement
   customer: Customer | undefined;
+  statementEstimates?: Estimate[]; // Jobs a statement is drawn from (filtered to the customer)
   settings: AppSettings;
   initialDocumentType?: DocumentType; // Override auto-detected type
+  initialChangeOrderId?: string; // Change order to print when the type is CHANGE ORDER
   onClose: () => void;
   onSaved?: () => void;
 }
@@ -26,35 +34,73 @@ interface PDFPreviewModalProps {
 const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
   estimate,
   customer,
+  statementEstimates,
   settings,
   initialDocumentType,
+  initialChangeOrderId,
   onClose,
   onSaved,
 }) => {
   const [docData, setDocData] = useState<PDFDocumentData | null>(null);
-  const [activeTab, setActiveTab] = useState<'header' | 'customer' | 'items' | 'footer'>('items');
+  const [activeTab, setActiveTab] = useState<'header' | 'customer' | 'items' | 'photos' | 'footer'>('items');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [loadingPhotoUrls, setLoadingPhotoUrls] = useState<string[]>([]);
+  const [changeOrderId, setChangeOrderId] = useState<string | undefined>(initialChangeOrderId);
+  const changeOrders = estimate?.changeOrders || [];
+  const isStatement = !estimate;
+  const [statementRange, setStatementRange] = useState(() =>
+    defaultStatementRange(statementEstimates || [], customer?.id || '', new Date().toISOString().split('T')[0])
+  );
 
-  // Build the initial document data and load logo
+  // Build the initial document data and load logo and before/after photos
   useEffect(() => {
     const init = async () => {
-      const data = buildPDFDocumentData(estimate, customer, settings, initialDocumentType);
+      const data = estimate
+        ? buildPDFDocumentData(estimate, customer, settings, initialDocumentType, initialChangeOrderId)
+        : customer
+          ? buildStatementDocumentData(customer, statementEstimates || [], settings, statementRange.from, statementRange.to)
+          : null;
+      if (!data) return;
       // Load logo if available
       if (settings.logoUrl) {
         const logoData = await loadLogoAsDataUrl(settings.logoUrl);
         data.logoDataUrl = logoData;
       }
+      data.photoPairs = await Promise.all(data.photoPairs.map(async pair => ({
+        ...pair,
+        beforeImage: await loadPhotoAsDataUrl(pair.beforeUrl),
+        afterImage: await loadPhotoAsDataUrl(pair.afterUrl),
+      })));
       setDocData(data);
     };
     init();
-  }, [estimate, customer, settings, initialDocumentType]);
+  }, [estimate, customer, statementEstimates, statementRange, settings, initialDocumentType, initialChangeOrderId]);
 
   /** Switch the document type — updates title, number prefix, terms, and type-specific defaults */
-  const switchDocumentType = useCallback((newType: DocumentType) => {
+  const switchDocumentType = useCallback((newType: DocumentType, coId?: string) => {
     setDocData(prev => {
       if (!prev) return prev;
+      // Change orders carry their own lines, and the invoice adds the approved ones, so rebuild those
+      if (estimate && changeOrders.length > 0) {
+        const fresh = buildPDFDocumentData(estimate, customer, settings, newType, coId);
+        return {
+          ...prev,
+          documentType: newType,
+          documentTitle: newType,
+          documentNumber: fresh.documentNumber,
+          documentDate: fresh.documentDate,
+          termsAndConditions: fresh.termsAndConditions,
+          lineItems: fresh.lineItems,
+          subtotal: fresh.subtotal,
+          taxAmount: fresh.taxAmount,
+          total: fresh.total,
+          workScope: fresh.workScope,
+          changeOrderSummary: fresh.changeOrderSummary,
+          changeOrderApproval: fresh.changeOrderApproval,
+        };
+      }
       return {
         ...prev,
         documentType: newType,
@@ -63,7 +109,12 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
         termsAndConditions: TERMS_MAP[newType],
       };
     });
-  }, []);
+  }, [estimate, customer, settings, changeOrders.length]);
+
+  const selectChangeOrder = (id: string) => {
+    setChangeOrderId(id);
+    switchDocumentType(DocumentType.CHANGE_ORDER, id);
+  };
 
   const updateField = useCallback(
     (field: keyof PDFDocumentData, value: string) => {
@@ -90,6 +141,38 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
     []
   );
 
+  const updateOption = useCallback(
+    (index: number, field: 'name' | 'specification' | 'total', value: string) => {
+      setDocData((prev) => {
+        if (!prev) return prev;
+        const options = prev.options.map((o, i) => (i === index ? { ...o, [field]: value } : o));
+        return { ...prev, options };
+      });
+    },
+    []
+  );
+
+  const updateAppendixPhoto = useCallback((url: string, changes: Partial<PDFAppendixPhoto>) => {
+    setDocData((prev) => {
+      if (!prev) return prev;
+      const appendixPhotos = prev.appendixPhotos.map(p => (p.url === url ? { ...p, ...changes } : p));
+      return { ...prev, appendixPhotos };
+    });
+  }, []);
+
+  /** Pick or drop appendix photos; a photo's image is only loaded the first time it's picked */
+  const setAppendixIncluded = async (photos: PDFAppendixPhoto[], included: boolean) => {
+    photos.forEach(photo => updateAppendixPhoto(photo.url, { included }));
+    const toLoad = included ? photos.filter(p => !p.image && !loadingPhotoUrls.includes(p.url)) : [];
+    if (toLoad.length === 0) return;
+    setLoadingPhotoUrls(prev => [...prev, ...toLoad.map(p => p.url)]);
+    await Promise.all(toLoad.map(async photo => {
+      const image = await loadPhotoAsDataUrl(photo.url);
+      updateAppendixPhoto(photo.url, { image });
+      setLoadingPhotoUrls(prev => prev.filter(u => u !== photo.url));
+    }));
+  };
+
   const addLineItem = useCallback(() => {
     setDocData((prev) => {
       if (!prev) return prev;
@@ -131,6 +214,8 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
 
   const getFinalDocData = useCallback((): PDFDocumentData | null => {
     if (!docData) return null;
+    // Statement totals come from the job records, not editable line items
+    if (docData.documentType === DocumentType.STATEMENT) return docData;
     const subtotal = docData.lineItems.reduce((sum, item) => sum + (parseFloat(item.total) || 0), 0);
     const taxMatch = docData.taxLabel.match(/([\d.]+)%/);
     const taxRate = taxMatch ? parseFloat(taxMatch[1]) : 0;
@@ -154,11 +239,12 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
       const filename = getPDFFilename(finalData);
       const result = await savePDFToSupabase(
         blob,
-        estimate.id,
+        estimate?.id ?? null,
         finalData.documentTitle,
         finalData.documentNumber,
         finalData.customerName,
-        filename
+        filename,
+        customer?.id
       );
       if (result) {
         setSaveSuccess(true);
@@ -209,8 +295,17 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
     [DocumentType.ESTIMATE]: { bg: 'bg-blue-50', ring: 'ring-blue-400', text: 'text-blue-700', icon: <FileText className="w-4 h-4" />, label: 'Estimate' },
     [DocumentType.WORK_ORDER]: { bg: 'bg-amber-50', ring: 'ring-amber-400', text: 'text-amber-700', icon: <ClipboardList className="w-4 h-4" />, label: 'Work Order' },
     [DocumentType.INVOICE]: { bg: 'bg-green-50', ring: 'ring-green-400', text: 'text-green-700', icon: <Receipt className="w-4 h-4" />, label: 'Invoice' },
+    [DocumentType.CHANGE_ORDER]: { bg: 'bg-purple-50', ring: 'ring-purple-400', text: 'text-purple-700', icon: <FilePlus className="w-4 h-4" />, label: 'Change Order' },
+    [DocumentType.STATEMENT]: { bg: 'bg-slate-100', ring: 'ring-slate-400', text: 'text-slate-700', icon: <ScrollText className="w-4 h-4" />, label: 'Statement' },
   };
+  const documentTypes = isStatement
+    ? [DocumentType.STATEMENT]
+    : changeOrders.length > 0
+    ? [DocumentType.ESTIMATE, DocumentType.WORK_ORDER, DocumentType.INVOICE, DocumentType.CHANGE_ORDER]
+    : [DocumentType.ESTIMATE, DocumentType.WORK_ORDER, DocumentType.INVOICE];
   const currentTypeUI = docData ? typeUIConfig[docData.documentType] : typeUIConfig[DocumentType.ESTIMATE];
+  const includedPhotoCount = docData.appendixPhotos.filter(p => p.included).length;
+  const isLoadingPhotos = loadingPhotoUrls.length > 0;
 
   return (
     <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-2 sm:p-4">
@@ -234,14 +329,14 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
         {/* Document Type Selector — prominent badges */}
         <div className="px-6 py-3 border-b border-slate-200 bg-white shrink-0">
           <p className="text-xs font-medium text-slate-400 uppercase tracking-wider mb-2">Document Type</p>
-          <div className="flex gap-2">
-            {([DocumentType.ESTIMATE, DocumentType.WORK_ORDER, DocumentType.INVOICE] as const).map(dt => {
+          <div className="flex flex-wrap gap-2">
+            {documentTypes.map(dt => {
               const cfg = typeUIConfig[dt];
               const isActive = docData.documentType === dt;
               return (
                 <button
                   key={dt}
-                  onClick={() => switchDocumentType(dt)}
+                  onClick={() => switchDocumentType(dt, changeOrderId)}
                   className={`flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-semibold transition-all border-2 ${
                     isActive
                       ? `${cfg.bg} ${cfg.text} border-current ring-2 ${cfg.ring} shadow-sm`
@@ -254,26 +349,52 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
               );
             })}
           </div>
+          {isStatement && (
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>From</label>
+                <input type="date" className={inputClass} value={statementRange.from} onChange={(e) => e.target.value && setStatementRange(r => ({ ...r, from: e.target.value }))} />
+              </div>
+              <div>
+                <label className={labelClass}>To</label>
+                <input type="date" className={inputClass} value={statementRange.to} onChange={(e) => e.target.value && setStatementRange(r => ({ ...r, to: e.target.value }))} />
+              </div>
+            </div>
+          )}
+          {estimate && docData.documentType === DocumentType.CHANGE_ORDER && (
+            <select
+              className="mt-2 w-full p-2 border border-slate-200 rounded-lg text-sm"
+              value={changeOrderId ?? changeOrders[changeOrders.length - 1]?.id}
+              onChange={(e) => selectChangeOrder(e.target.value)}
+            >
+              {changeOrders.map(co => (
+                <option key={co.id} value={co.id}>{formatChangeOrderNumber(estimate.number, co)} — {co.description} ({co.status})</option>
+              ))}
+            </select>
+          )}
         </div>
 
         {/* Tab Navigation */}
         <div className="flex border-b border-slate-200 px-6 shrink-0 overflow-x-auto">
-          {(['header', 'customer', 'items', 'footer'] as const).map((tab) => (
-            <button
-              key={tab}
-              onClick={() => setActiveTab(tab)}
-              className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${
-                activeTab === tab
-                  ? 'border-brand-600 text-brand-600'
-                  : 'border-transparent text-slate-500 hover:text-slate-700'
-              }`}
-            >
-              {tab === 'header' && 'Document Info'}
-              {tab === 'customer' && 'Customer / Job'}
-              {tab === 'items' && 'Line Items'}
-              {tab === 'footer' && 'Notes & Terms'}
-            </button>
-          ))}
+          {(['header', 'customer', 'items', 'photos', 'footer'] as const)
+            .filter(tab => tab !== 'photos' || docData.appendixPhotos.length > 0)
+            .map((tab) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-3 text-sm font-medium border-b-2 transition-colors whitespace-nowrap ${
+                  activeTab === tab
+                    ? 'border-brand-600 text-brand-600'
+                    : 'border-transparent text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                {tab === 'header' && 'Document Info'}
+                {tab === 'customer' && 'Customer / Job'}
+                {tab === 'items' && (isStatement ? 'Activity' : 'Line Items')}
+                {tab === 'photos' && `Photos${includedPhotoCount ? ` (${includedPhotoCount})` : ''}`}
+                {tab === 'footer' && 'Notes & Terms'}
+              </button>
+            ))}
         </div>
 
         {/* Tab Content */}
@@ -312,6 +433,41 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                     <label className={labelClass}>Work Scope</label>
                     <textarea className={`${inputClass} min-h-[60px] resize-y`} value={docData.workScope} onChange={(e) => updateField('workScope', e.target.value)} placeholder="Describe the scope of work..." />
                   </div>
+                  <div className="sm:col-span-2">
+                    <label className={labelClass}>Areas in Scope (Room Takeoff)</label>
+                    <textarea className={`${inputClass} min-h-[60px] resize-y`} value={docData.roomBreakdown} onChange={(e) => updateField('roomBreakdown', e.target.value)} placeholder="Leave blank to hide" />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <label className={labelClass}>Application Plan (Closed Cell Lifts)</label>
+                    <textarea className={`${inputClass} min-h-[60px] resize-y`} value={docData.applicationPlan} onChange={(e) => updateField('applicationPlan', e.target.value)} placeholder="Leave blank to hide" />
+                  </div>
+                </div>
+              )}
+              {docData.acceptanceSignature && (docData.documentType === DocumentType.ESTIMATE || docData.documentType === DocumentType.WORK_ORDER) && (
+                <div>
+                  <label className={labelClass}>Customer E-Signature</label>
+                  <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                    <img src={docData.acceptanceSignature} alt="Customer signature" className="h-14 w-44 object-contain border border-slate-200 rounded bg-white" />
+                    <input className={inputClass} value={docData.acceptanceNote} onChange={(e) => updateField('acceptanceNote', e.target.value)} />
+                  </div>
+                </div>
+              )}
+              {docData.documentType === DocumentType.CHANGE_ORDER && (
+                <div className="space-y-4">
+                  <div>
+                    <label className={labelClass}>Change Summary</label>
+                    <textarea className={`${inputClass} min-h-[100px] resize-y`} value={docData.changeOrderSummary} onChange={(e) => updateField('changeOrderSummary', e.target.value)} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Customer Approval</label>
+                    <input className={inputClass} value={docData.changeOrderApproval} onChange={(e) => updateField('changeOrderApproval', e.target.value)} placeholder="Leave blank to print a signature line" />
+                  </div>
+                </div>
+              )}
+              {docData.documentType === DocumentType.STATEMENT && (
+                <div>
+                  <label className={labelClass}>Statement Period</label>
+                  <input className={inputClass} value={docData.statementPeriod} onChange={(e) => updateField('statementPeriod', e.target.value)} />
                 </div>
               )}
               {docData.documentType === DocumentType.INVOICE && (
@@ -323,13 +479,27 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                   <div>
                     <label className={labelClass}>Payment Terms</label>
                     <select className={inputClass} value={docData.paymentTerms} onChange={(e) => updateField('paymentTerms', e.target.value)}>
-                      <option value="Net 30">Net 30</option>
-                      <option value="Net 15">Net 15</option>
-                      <option value="Net 60">Net 60</option>
-                      <option value="Due on Receipt">Due on Receipt</option>
-                      <option value="50/50">50% Deposit / 50% on Completion</option>
+                      {PAYMENT_TERMS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
                     </select>
                   </div>
+                  {docData.photoPairs.length > 0 && (
+                    <div className="sm:col-span-2">
+                      <label className={labelClass}>Before & After Page</label>
+                      <div className="space-y-2">
+                        {docData.photoPairs.map(pair => (
+                          <div key={pair.afterUrl} className="flex items-center gap-2">
+                            {[pair.beforeImage, pair.afterImage].map((image, i) => image
+                              ? <img key={i} src={image} alt={i === 0 ? 'Before' : 'After'} className="h-12 w-16 object-cover rounded border border-slate-200" />
+                              : <div key={i} className="h-12 w-16 rounded border border-dashed border-slate-300" />
+                            )}
+                            <span className="text-xs text-slate-500 truncate">
+                              {pair.beforeImage && pair.afterImage ? (pair.afterCaption || pair.beforeCaption || 'Untitled pair') : 'Photo unavailable — left off the PDF'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -395,22 +565,110 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                 </div>
               </div>
 
-              <h4 className="font-medium text-slate-700 mt-4 pt-3 border-t border-slate-100">Job Site</h4>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div>
-                  <label className={labelClass}>Job Name</label>
-                  <input className={inputClass} value={docData.jobName} onChange={(e) => updateField('jobName', e.target.value)} />
+              {!isStatement && (
+                <>
+                  <h4 className="font-medium text-slate-700 mt-4 pt-3 border-t border-slate-100">Job Site</h4>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>Job Name</label>
+                      <input className={inputClass} value={docData.jobName} onChange={(e) => updateField('jobName', e.target.value)} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Job Address</label>
+                      <input className={inputClass} value={docData.jobAddress} onChange={(e) => updateField('jobAddress', e.target.value)} />
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* ── LINE ITEMS TAB ── */}
+          {activeTab === 'items' && docData.documentType === DocumentType.ESTIMATE && docData.options.length > 0 && (
+            <div className={`${sectionClass} mb-4`}>
+              <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                <Pencil className="w-4 h-4 text-brand-500" /> Options Comparison
+              </h3>
+              <p className="text-xs text-slate-500">The estimate PDF shows this table instead of the line items below.</p>
+              <div className="space-y-2">
+                {docData.options.map((option, idx) => (
+                  <div key={idx} className="grid grid-cols-12 gap-2 items-start bg-slate-50 rounded-lg p-2 border border-slate-100">
+                    <input className={`${inputClass} bg-white col-span-12 sm:col-span-3`} value={option.name} onChange={(e) => updateOption(idx, 'name', e.target.value)} />
+                    <textarea className={`${inputClass} bg-white col-span-12 sm:col-span-6 min-h-[40px] resize-y`} value={option.specification} onChange={(e) => updateOption(idx, 'specification', e.target.value)} />
+                    <input className={`${inputClass} bg-white text-right col-span-12 sm:col-span-3`} value={option.total} onChange={(e) => updateOption(idx, 'total', e.target.value)} />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {activeTab === 'items' && isStatement && (
+            <div className={sectionClass}>
+              <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                <ScrollText className="w-4 h-4 text-brand-500" /> Account Activity
+              </h3>
+              <p className="text-xs text-slate-500">Pulled from the customer's invoices and recorded payments. Change the period above to include more history.</p>
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Date</th>
+                      <th className="px-3 py-2 text-left font-medium">Reference</th>
+                      <th className="px-3 py-2 text-left font-medium">Description</th>
+                      <th className="px-3 py-2 text-right font-medium">Charges</th>
+                      <th className="px-3 py-2 text-right font-medium">Payments</th>
+                      <th className="px-3 py-2 text-right font-medium">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    <tr className="font-medium">
+                      <td className="px-3 py-2" colSpan={5}>Balance forward</td>
+                      <td className="px-3 py-2 text-right">${docData.openingBalance}</td>
+                    </tr>
+                    {docData.statementRows.map((row, idx) => (
+                      <tr key={idx}>
+                        <td className="px-3 py-2 text-slate-500 whitespace-nowrap">{row.date}</td>
+                        <td className="px-3 py-2 text-slate-500 font-mono text-xs">{row.reference}</td>
+                        <td className="px-3 py-2 text-slate-700">{row.description}</td>
+                        <td className="px-3 py-2 text-right">{row.charges && `$${row.charges}`}</td>
+                        <td className="px-3 py-2 text-right text-green-700">{row.payments && `-$${row.payments}`}</td>
+                        <td className="px-3 py-2 text-right font-medium">${row.balance}</td>
+                      </tr>
+                    ))}
+                    {docData.statementRows.length === 0 && (
+                      <tr><td className="px-3 py-4 text-center text-slate-400" colSpan={6}>No invoices or payments in this period.</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-5 gap-2 text-center">
+                {docData.aging.map(bucket => (
+                  <div key={bucket.label} className="bg-slate-50 rounded-lg p-2">
+                    <p className="text-[10px] uppercase font-bold text-slate-400">{bucket.label}</p>
+                    <p className="text-sm font-medium text-slate-700">${bucket.amount}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="mt-4 pt-4 border-t border-slate-200 space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Charges this period</span>
+                  <span className="text-slate-700 font-medium">${docData.subtotal}</span>
                 </div>
-                <div>
-                  <label className={labelClass}>Job Address</label>
-                  <input className={inputClass} value={docData.jobAddress} onChange={(e) => updateField('jobAddress', e.target.value)} />
+                <div className="flex justify-between text-sm">
+                  <span className="text-slate-500">Payments this period</span>
+                  <span className="text-slate-700 font-medium">-${docData.totalPayments}</span>
+                </div>
+                <div className="flex justify-between text-base font-bold pt-2 border-t border-slate-200">
+                  <span className="text-slate-900">Total Due</span>
+                  <span className="text-brand-700">${docData.total}</span>
                 </div>
               </div>
             </div>
           )}
 
-          {/* ── LINE ITEMS TAB ── */}
-          {activeTab === 'items' && (
+          {activeTab === 'items' && !isStatement && (
             <div className={sectionClass}>
               <div className="flex items-center justify-between">
                 <h3 className="font-semibold text-slate-800 flex items-center gap-2">
@@ -512,6 +770,70 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                   <span className="text-slate-900">Total</span>
                   <span className="text-brand-700">${docData.total}</span>
                 </div>
+                {docData.documentType === DocumentType.INVOICE && docData.payments.length > 0 && (
+                  <>
+                    {docData.payments.map((payment, idx) => (
+                      <div key={idx} className="flex justify-between text-sm">
+                        <span className="text-slate-500">Paid {payment.date} · {payment.description}</span>
+                        <span className="text-slate-700">-${payment.amount}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-base font-bold pt-2 border-t border-slate-200">
+                      <span className="text-slate-900">Amount Due</span>
+                      <span className="text-brand-700">
+                        ${Math.max(0, (parseFloat(docData.total) || 0) - docData.payments.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0)).toFixed(2)}
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* ── PHOTOS TAB ── */}
+          {activeTab === 'photos' && (
+            <div className={sectionClass}>
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+                  <Camera className="w-4 h-4 text-brand-500" /> Photo Appendix
+                </h3>
+                <div className="flex gap-3 text-xs">
+                  <button onClick={() => setAppendixIncluded(docData.appendixPhotos, true)} className="text-brand-600 hover:underline">Select all</button>
+                  <button onClick={() => setAppendixIncluded(docData.appendixPhotos, false)} className="text-slate-500 hover:underline">Clear</button>
+                </div>
+              </div>
+              <p className="text-xs text-slate-400">Selected photos print in a grid on pages after the document, with their captions.</p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {docData.appendixPhotos.map(photo => {
+                  const isLoading = loadingPhotoUrls.includes(photo.url);
+                  const failed = photo.included && !photo.image && !isLoading;
+                  return (
+                    <div key={photo.url} className={`rounded-lg border-2 overflow-hidden ${photo.included ? 'border-brand-500' : 'border-slate-200'}`}>
+                      <label className="block relative cursor-pointer">
+                        <img src={photo.thumbnailUrl} alt={photo.caption || 'Job photo'} className={`w-full aspect-[4/3] object-cover ${photo.included ? '' : 'opacity-60'}`} />
+                        <input
+                          type="checkbox"
+                          checked={photo.included}
+                          onChange={(e) => setAppendixIncluded([photo], e.target.checked)}
+                          className="absolute top-2 left-2 w-4 h-4"
+                        />
+                        {isLoading && <Loader2 className="absolute top-2 right-2 w-4 h-4 animate-spin text-white" />}
+                        {photo.label && (
+                          <span className="absolute bottom-1 left-1 text-[10px] font-bold text-white bg-black/50 px-1.5 py-0.5 rounded">{photo.label}</span>
+                        )}
+                      </label>
+                      <div className="p-1.5">
+                        <input
+                          className="w-full p-1 border border-slate-200 rounded text-xs"
+                          value={photo.caption}
+                          onChange={(e) => updateAppendixPhoto(photo.url, { caption: e.target.value })}
+                          placeholder="Caption"
+                        />
+                        {failed && <p className="text-[10px] text-red-500 mt-1">Couldn't load — left off the PDF</p>}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             </div>
           )}
@@ -533,6 +855,30 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
                 />
               </div>
 
+              {!isStatement && (
+                <>
+                  <div>
+                    <label className={labelClass}>Insulation R-Value</label>
+                    <textarea
+                      className={`${inputClass} min-h-[60px] resize-y`}
+                      value={docData.rValueNote}
+                      onChange={(e) => updateField('rValueNote', e.target.value)}
+                      placeholder="Leave blank to hide"
+                    />
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Area Deductions (Openings)</label>
+                    <textarea
+                      className={`${inputClass} min-h-[60px] resize-y`}
+                      value={docData.openingsNote}
+                      onChange={(e) => updateField('openingsNote', e.target.value)}
+                      placeholder="Leave blank to hide"
+                    />
+                  </div>
+                </>
+              )}
+
               <div>
                 <label className={labelClass}>Terms & Conditions</label>
                 <textarea
@@ -560,6 +906,8 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
           <p className="text-xs text-slate-400 text-center sm:text-left">
             {saveSuccess 
               ? '✓ PDF saved to cloud successfully!'
+              : isLoadingPhotos
+              ? 'Loading photos for the appendix...'
               : 'Save stores to Supabase. Export downloads the file locally.'}
           </p>
           <div className="flex gap-2 sm:gap-3 flex-wrap justify-center">
@@ -571,7 +919,7 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
             </button>
             <button
               onClick={handleSaveToSupabase}
-              disabled={isSaving || isGenerating}
+              disabled={isSaving || isGenerating || isLoadingPhotos}
               className={`flex items-center gap-2 px-5 py-2.5 text-sm font-bold rounded-lg shadow-lg transition-all disabled:opacity-50 ${
                 saveSuccess
                   ? 'bg-green-600 hover:bg-green-700 text-white'
@@ -588,10 +936,12 @@ const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({
             </button>
             <button
               onClick={handleDownload}
-              disabled={isGenerating || isSaving}
+              disabled={isGenerating || isSaving || isLoadingPhotos}
               className={`flex items-center gap-2 px-5 py-2.5 text-white text-sm font-bold rounded-lg shadow-lg transition-all disabled:opacity-50 ${
                 docData.documentType === DocumentType.ESTIMATE ? 'bg-blue-600 hover:bg-blue-700' :
                 docData.documentType === DocumentType.WORK_ORDER ? 'bg-amber-600 hover:bg-amber-700' :
+                docData.documentType === DocumentType.CHANGE_ORDER ? 'bg-purple-600 hover:bg-purple-700' :
+                docData.documentType === DocumentType.STATEMENT ? 'bg-slate-700 hover:bg-slate-800' :
                 'bg-green-600 hover:bg-green-700'
               }`}
             >
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { DollarSign, Plus, Trash2 } from 'lucide-react';
+import { Estimate, Payment, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../constants';
+import { contractTotal } from '../services/changeOrders';
+import { amountPaid, balanceDue } from '../services/payments';
+
+interface PaymentPanelProps {
+  estimate: Estimate;
+  onAdd: (payment: Payment) => void;
+  onDelete: (payment: Payment) => void;
+}
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const today = () => new Date().toISOString().split('T')[0];
+
+/** Deposits and progress payments against the job, with what's still owed */
+const PaymentPanel: React.FC<PaymentPanelProps> = ({ estimate, onAdd, onDelete }) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const [date, setDate] = useState(today());
+  const [amount, setAmount] = useState(0);
+  const [method, setMethod] = useState<PaymentMethod>('check');
+  const [reference, setReference] = useState('');
+
+  const payments = [...(estimate.payments || [])].sort((a, b) => a.date.localeCompare(b.date));
+  const balance = balanceDue(estimate);
+
+  const openForm = () => {
+    setDate(today());
+    setAmount(Math.max(0, balance));
+    setMethod('check');
+    setReference('');
+    setIsAdding(true);
+  };
+
+  const handleSave = () => {
+    if (!(amount > 0)) {
+      alert('Enter the amount received.');
+      return;
+    }
+    onAdd({
+      id: Date.now().toString(),
+      date,
+      amount: Math.round(amount * 100) / 100,
+      method,
+      reference: reference.trim() || undefined,
+      recordedAt: new Date().toISOString(),
+    });
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><DollarSign className="w-4 h-4" /> Payments</h3>
+        {!isAdding && balance > 0 && (
+          <button onClick={openForm} className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200 flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Record Payment
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+        <div className="bg-slate-50 rounded-lg p-3">
+          <p className="text-[10px] uppercase font-bold text-slate-400">Contract</p>
+          <p className="font-bold text-slate-800">{money(contractTotal(estimate))}</p>
+        </div>
+        <div className="bg-slate-50 rounded-lg p-3">
+          <p className="text-[10px] uppercase font-bold text-slate-400">Paid</p>
+          <p className="font-bold text-green-700">{money(amountPaid(estimate))}</p>
+        </div>
+        <div className={`rounded-lg p-3 ${balance > 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+          <p className="text-[10px] uppercase font-bold text-slate-400">Balance</p>
+          <p className={`font-bold ${balance > 0 ? 'text-red-600' : 'text-green-700'}`}>{money(Math.max(0, balance))}</p>
+        </div>
+      </div>
+
+      {payments.length === 0 && !isAdding && (
+        <p className="text-sm text-slate-400">No payments recorded. Deposits can be taken any time after the job is sold.</p>
+      )}
+
+      <div className="divide-y divide-slate-100">
+        {payments.map(payment => (
+          <div key={payment.id} className="py-2 flex items-center gap-3 text-sm">
+            <span className="text-slate-600 w-24">{new Date(payment.date + 'T00:00:00').toLocaleDateString()}</span>
+            <span className="flex-1 text-slate-700">
+              {PAYMENT_METHOD_LABELS[payment.method]}
+              {payment.reference && <span className="text-xs text-slate-400 ml-2">#{payment.reference}</span>}
+            </span>
+            <span className="font-mono font-medium text-slate-900">{money(payment.amount)}</span>
+            <button onClick={() => onDelete(payment)} className="p-1 text-slate-400 hover:text-red-500" title="Remove payment">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {isAdding && (
+        <div className="mt-4 p-4 bg-slate-50 rounded-lg border space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Date</label>
+              <input type="date" className="w-full p-1.5 border rounded text-sm" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Amount</label>
+              <input type="number" step="0.01" min="0" className="w-full p-1.5 border rounded text-sm" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Method</label>
+              <select className="w-full p-1.5 border rounded text-sm" value={method} onChange={(e) => setMethod(e.target.value as PaymentMethod)}>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(m => (
+                  <option key={m} value={m}>{PAYMENT_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Reference</label>
+              <input className="w-full p-1.5 border rounded text-sm" placeholder="Check # / txn id" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsAdding(false)} className="text-sm px-3 py-1.5 rounded border border-slate-200 text-slate-600 hover:bg-slate-100">Cancel</button>
+            <button onClick={handleSave} className="text-sm px-3 py-1.5 rounded bg-brand-600 text-white hover:bg-brand-700">Save Payment</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentPanel;
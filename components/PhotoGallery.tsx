@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Camera, Loader2, MapPin, Link2 } from 'lucide-react';
+import { Estimate, PhotoCategory } from '../types';
+import { PHOTO_CATEGORY_LABELS } from '../constants';
+import { JobPhoto, beforeAfterPairs, jobPhotos, pendingPhotoCount, updatePhotoMeta } from '../services/photos';
+import { uploadJobPhotoWithMeta } from '../services/imageService';
+import { useToast } from './Toast';
+
+interface PhotoGalleryProps {
+  estimate: Estimate;
+  onUpdate: (updated: Estimate, message: string) => void;
+}
+
+type GalleryFilter = PhotoCategory | 'all' | 'pairs';
+
+const CATEGORIES = Object.keys(PHOTO_CATEGORY_LABELS) as PhotoCategory[];
+
+const categoryColors: Record<PhotoCategory, string> = {
+  before: 'bg-slate-700',
+  in_progress: 'bg-amber-600',
+  after: 'bg-green-600',
+  damage: 'bg-red-600',
+  other: 'bg-slate-400',
+};
+
+const formatTakenAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const PhotoCard: React.FC<{
+  photo: JobPhoto;
+  beforePhotos: JobPhoto[];
+  onChange: (changes: Partial<JobPhoto>) => void;
+}> = ({ photo, beforePhotos, onChange }) => {
+  const [caption, setCaption] = useState(photo.caption || '');
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden bg-white">
+      <a href={photo.url} target="_blank" rel="noopener noreferrer" className="block relative">
+        <img src={photo.thumbnailUrl} alt={photo.caption || 'Job photo'} loading="lazy" className="w-full aspect-[4/3] object-cover hover:opacity-90" />
+        <span className={`absolute top-2 left-2 text-[10px] font-bold text-white px-2 py-0.5 rounded-full ${categoryColors[photo.category]}`}>
+          {PHOTO_CATEGORY_LABELS[photo.category]}
+        </span>
+      </a>
+      <div className="p-2 space-y-1.5">
+        <input
+          className="w-full p-1.5 border rounded text-xs"
+          placeholder="Add a caption"
+          value={caption}
+          onChange={(e) => setCaption(e.target.value)}
+          onBlur={() => caption.trim() !== (photo.caption || '') && onChange({ caption: caption.trim() || undefined })}
+        />
+        <select
+          className="w-full p-1.5 border rounded text-xs"
+          value={photo.category}
+          onChange={(e) => onChange({ category: e.target.value as PhotoCategory })}
+        >
+          {CATEGORIES.map(c => <option key={c} value={c}>{PHOTO_CATEGORY_LABELS[c]}</option>)}
+        </select>
+        {photo.category === 'after' && (
+          <select
+            className="w-full p-1.5 border rounded text-xs"
+            value={photo.pairedWith || ''}
+            onChange={(e) => onChange({ pairedWith: e.target.value || undefined })}
+            disabled={beforePhotos.length === 0}
+          >
+            <option value="">{beforePhotos.length === 0 ? 'No before photos to pair' : 'Pair with before photo…'}</option>
+            {beforePhotos.map((b, i) => <option key={b.url} value={b.url}>{b.caption || `Before #${i + 1}`}</option>)}
+          </select>
+        )}
+        <div className="text-[10px] text-slate-400 space-y-0.5">
+          {photo.takenAt && <p>Taken {formatTakenAt(photo.takenAt)}</p>}
+          {photo.location && (
+            <a
+              href={`https://maps.google.com/?q=${photo.location.lat},${photo.location.lng}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 hover:text-brand-600"
+            >
+              <MapPin className="w-3 h-3" /> {photo.location.lat.toFixed(5)}, {photo.location.lng.toFixed(5)}
+            </a>
+          )}
+          {photo.uploadedBy && <p>By {photo.uploadedBy}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/** Job photos by category, with before/after pairs for the invoice photo page */
+const PhotoGallery: React.FC<PhotoGalleryProps> = ({ estimate, onUpdate }) => {
+  const { showToast } = useToast();
+  const [filter, setFilter] = useState<GalleryFilter>('all');
+  const [uploadCategory, setUploadCategory] = useState<PhotoCategory>('after');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const photos = jobPhotos(estimate);
+  const pendingCount = pendingPhotoCount(estimate);
+  const pairs = beforeAfterPairs(estimate);
+  const beforePhotos = photos.filter(p => p.category === 'before');
+  const visible = filter === 'all' ? photos : photos.filter(p => p.category === filter);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > 20 * 1024 * 1024) {
+      showToast('Photo too large (max 20MB)', 'error');
+      return;
+    }
+    setIsUploading(true);
+    try {
+      const result = await uploadJobPhotoWithMeta(file, uploadCategory);
+      onUpdate({
+        ...estimate,
+        images: [...(estimate.images || []), result.url],
+        thumbnails: [...(estimate.thumbnails || []), result.thumbnailUrl],
+        photoMeta: [...(estimate.photoMeta || []), result.meta],
+      }, 'Photo added');
+    } catch (err: any) {
+      console.error('Photo upload error:', err);
+      showToast('Failed to upload photo: ' + (err.message || 'Unknown error'), 'error');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const chip = (id: GalleryFilter, label: string, count: number) => (
+    <button
+      key={id}
+      onClick={() => setFilter(id)}
+      className={`text-xs px-3 py-1 rounded-full border whitespace-nowrap ${filter === id ? 'bg-brand-600 text-white border-brand-600' : 'border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+    >
+      {label} <span className="opacity-70">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2">
+          <Camera className="w-4 h-4" /> Photos
+          {pendingCount > 0 && <span className="text-xs font-normal text-amber-700">{pendingCount} still uploading from the field</span>}
+        </h3>
+        <div className="flex items-center gap-2">
+          <select className="p-1.5 border rounded text-xs" value={uploadCategory} onChange={(e) => setUploadCategory(e.target.value as PhotoCategory)}>
+            {CATEGORIES.map(c => <option key={c} value={c}>{PHOTO_CATEGORY_LABELS[c]}</option>)}
+          </select>
+          <label className={`text-xs px-2 py-1.5 rounded border flex items-center gap-1 ${isUploading ? 'border-slate-200 text-slate-400 cursor-wait' : 'border-brand-200 text-brand-600 hover:bg-brand-50 cursor-pointer'}`}>
+            {isUploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Camera className="w-3 h-3" />}
+            {isUploading ? 'Uploading...' : 'Add Photo'}
+            <input type="file" accept="image/*" className="hidden" onChange={handleUpload} disabled={isUploading} />
+          </label>
+        </div>
+      </div>
+
+      {photos.length === 0 ? (
+        <p className="text-sm text-slate-400">No photos yet. Before, in-progress and after shots document the job for the customer.</p>
+      ) : (
+        <>
+          <div className="flex gap-2 overflow-x-auto pb-2 mb-3">
+            {chip('all', 'All', photos.length)}
+            {CATEGORIES.map(c => chip(c, PHOTO_CATEGORY_LABELS[c], photos.filter(p => p.category === c).length))}
+            {chip('pairs', 'Before & After', pairs.length)}
+          </div>
+
+          {filter === 'pairs' ? (
+            pairs.length === 0 ? (
+              <p className="text-sm text-slate-400">Mark photos Before and After, then pair each After shot with its Before. Pairs print on the invoice's photo page.</p>
+            ) : (
+              <div className="space-y-3">
+                {pairs.map(pair => (
+                  <div key={pair.after.url} className="grid grid-cols-2 gap-2 items-start">
+                    {[pair.before, pair.after].map(p => (
+                      <a key={p.url} href={p.url} target="_blank" rel="noopener noreferrer" className="block">
+                        <img src={p.thumbnailUrl} alt={p.caption || PHOTO_CATEGORY_LABELS[p.category]} loading="lazy" className="w-full aspect-[4/3] object-cover rounded-lg border border-slate-200" />
+                        <p className="text-xs text-slate-500 mt-1">
+                          <span className="font-semibold">{PHOTO_CATEGORY_LABELS[p.category]}</span>{p.caption ? ` — ${p.caption}` : ''}
+                        </p>
+                      </a>
+                    ))}
+                    <button
+                      onClick={() => onUpdate(updatePhotoMeta(estimate, pair.after.url, { pairedWith: undefined }), 'Photos unpaired')}
+                      className="col-span-2 text-xs text-slate-400 hover:text-red-600 flex items-center gap-1 justify-end"
+                    >
+                      <Link2 className="w-3 h-3" /> Unpair
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          ) : visible.length === 0 ? (
+            <p className="text-sm text-slate-400">No {PHOTO_CATEGORY_LABELS[filter as PhotoCategory].toLowerCase()} photos.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {visible.map(photo => (
+                <PhotoCard
+                  key={photo.url}
+                  photo={photo}
+                  beforePhotos={beforePhotos}
+                  onChange={(changes) => onUpdate(updatePhotoMeta(estimate, photo.url, changes), 'Photo updated')}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotoGallery;
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Download, FileDown, ChevronDown, ChevronRight } from 'lucide-react';
+import { AppSettings, Customer, Estimate } from '../types';
+import { AGING_BUCKETS, AgingBucket, agingReportToCsv, buildAgingReport } from '../services/receivables';
+
+interface ReceivablesProps {
+  estimates: Estimate[];
+  customers: Customer[];
+  settings: AppSettings;
+  onNavigate: (view: string, context?: { customerId?: string; jobId?: string }) => void;
+  onOpenStatement: (customerId: string) => void;
+}
+
+const money = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const bucketColors: Record<AgingBucket, string> = {
+  current: 'text-slate-700',
+  days_1_30: 'text-amber-600',
+  days_31_60: 'text-orange-600',
+  days_61_90: 'text-red-600',
+  days_90_plus: 'text-red-700',
+};
+
+/** AR aging: open invoices by how far past due they are, per customer */
+const Receivables: React.FC<ReceivablesProps> = ({ estimates, customers, settings, onNavigate, onOpenStatement }) => {
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const report = useMemo(() => buildAgingReport(estimates, customers, settings, asOf), [estimates, customers, settings, asOf]);
+
+  const handleExportCsv = () => {
+    const blob = new Blob([agingReportToCsv(report)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ar_aging_${asOf}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-300">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-900">Receivables</h2>
+          <p className="text-slate-500">Open invoices aged from their due date ({settings.defaultPaymentTerms} unless the invoice says otherwise).</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-slate-500">As of</label>
+          <input type="date" className="p-2 border rounded-lg text-sm" value={asOf} onChange={(e) => e.target.value && setAsOf(e.target.value)} />
+          <button
+            onClick={handleExportCsv}
+            disabled={report.invoices.length === 0}
+            className="flex items-center gap-2 px-4 py-2 border border-slate-300 rounded-lg text-sm hover:bg-slate-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> Export CSV
+          </button>
+        </div>
+      </div>
+
+      {/* Bucket totals */}
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket.id} className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+            <p className="text-xs font-medium text-slate-500">{bucket.label}</p>
+            <p className={`text-lg font-bold ${report.totals[bucket.id] > 0 ? bucketColors[bucket.id] : 'text-slate-300'}`}>{money(report.totals[bucket.id])}</p>
+          </div>
+        ))}
+        <div className="bg-slate-800 p-4 rounded-xl shadow-sm">
+          <p className="text-xs font-medium text-slate-300">Total Outstanding</p>
+          <p className="text-lg font-bold text-white">{money(report.totals.total)}</p>
+        </div>
+      </div>
+
+      {/* Per customer */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-x-auto">
+        {report.customers.length === 0 ? (
+          <p className="p-8 text-center text-slate-400">No open invoices. Everything invoiced has been paid.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium">Customer</th>
+                {AGING_BUCKETS.map(b => <th key={b.id} className="px-3 py-3 text-right font-medium whitespace-nowrap">{b.label}</th>)}
+                <th className="px-3 py-3 text-right font-medium">Total</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.customers.map(entry => {
+                const isExpanded = expandedId === entry.customerId;
+                return (
+                  <React.Fragment key={entry.customerId}>
+                    <tr className="hover:bg-slate-50">
+                      <td className="px-4 py-3">
+                        <button onClick={() => setExpandedId(isExpanded ? null : entry.customerId)} className="flex items-center gap-2 font-medium text-slate-800 text-left">
+                          {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                          {entry.customerName}
+                          <span className="text-xs font-normal text-slate-400">({entry.invoices.length})</span>
+                        </button>
+                      </td>
+                      {AGING_BUCKETS.map(b => (
+                        <td key={b.id} className={`px-3 py-3 text-right font-mono ${entry.totals[b.id] > 0 ? bucketColors[b.id] : 'text-slate-300'}`}>
+                          {entry.totals[b.id] > 0 ? money(entry.totals[b.id]) : '—'}
+                        </td>
+                      ))}
+                      <td className="px-3 py-3 text-right font-mono font-bold text-slate-900">{money(entry.totals.total)}</td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => onOpenStatement(entry.customerId)}
+                          className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200 inline-flex items-center gap-1 whitespace-nowrap"
+                        >
+                          <FileDown className="w-3 h-3" /> Statement
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && entry.invoices.map(invoice => (
+                      <tr key={invoice.estimate.id} className="bg-slate-50/50 text-xs">
+                        <td className="pl-10 pr-4 py-2">
+                          <button onClick={() => onNavigate('jobDetail', { jobId: invoice.estimate.id })} className="text-brand-600 hover:underline font-mono">{invoice.invoiceNumber}</button>
+                          <span className="text-slate-500 ml-2">{invoice.estimate.jobName}</span>
+                        </td>
+                        <td colSpan={AGING_BUCKETS.length} className="px-3 py-2 text-right text-slate-500">
+                          Invoiced {new Date(`${invoice.invoiceDate}T00:00:00`).toLocaleDateString()} · due {new Date(`${invoice.dueDate}T00:00:00`).toLocaleDateString()}
+                          {invoice.daysPastDue > 0 && <span className={`ml-2 font-medium ${bucketColors[invoice.bucket]}`}>{invoice.daysPastDue} days past due</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono text-slate-700">{money(invoice.balance)}</td>
+                        <td></td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Receivables;
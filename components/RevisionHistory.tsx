@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { History, RefreshCw, RotateCcw, ChevronDown, ChevronRight } from 'lucide-react';
+import { Estimate, EstimateRevision } from '../types';
+import { getRevisions } from '../services/storage';
+import { diffSnapshots, isSameSnapshot, pickRevisionSnapshot } from '../services/revisions';
+
+interface RevisionHistoryProps {
+  estimate: Estimate;
+  onRestore: (revision: EstimateRevision) => Promise<void>;
+}
+
+/** Every saved version of an estimate, what changed in each, and a way back to any of them */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ estimate, onRestore }) => {
+  const [revisions, setRevisions] = useState<EstimateRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    setRevisions(await getRevisions(estimate.id));
+    setLoading(false);
+  };
+
+  useEffect(() => { loadRevisions(); }, [estimate.id]);
+
+  const handleRestore = async (revision: EstimateRevision) => {
+    setRestoringId(revision.id);
+    await onRestore(revision);
+    setRestoringId(null);
+    loadRevisions();
+  };
+
+  const current = pickRevisionSnapshot(estimate);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><History className="w-4 h-4" /> Revision History</h3>
+        <button onClick={loadRevisions} className="p-1.5 text-slate-400 hover:text-brand-600 rounded" title="Refresh">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+      {!loading && revisions.length === 0 && (
+        <p className="text-sm text-slate-400">No revisions yet — one is recorded each time the estimate is saved.</p>
+      )}
+      <div className="divide-y divide-slate-100">
+        {revisions.map((revision, idx) => {
+          const previous = revisions[idx + 1];
+          const changes = previous ? diffSnapshots(previous.snapshot, revision.snapshot) : [];
+          const isCurrent = isSameSnapshot(revision.snapshot, current);
+          const isExpanded = expandedId === revision.id;
+          return (
+            <div key={revision.id} className="py-3">
+              <div className="flex items-center gap-3">
+                <button onClick={() => setExpandedId(isExpanded ? null : revision.id)} className="flex-1 flex items-center gap-2 text-left">
+                  {isExpanded ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                  <span className="font-mono text-xs bg-slate-100 text-slate-600 px-2 py-0.5 rounded">Rev {revision.revisionNumber}</span>
+                  <span className="text-sm text-slate-700">{new Date(revision.createdAt).toLocaleString()}</span>
+                  <span className="text-xs text-slate-400 truncate hidden sm:inline">{revision.changedByEmail}</span>
+                  {isCurrent && <span className="text-[10px] font-bold text-green-700 bg-green-50 px-2 py-0.5 rounded-full">Current</span>}
+                </button>
+                <span className="font-mono text-sm text-slate-700">${revision.snapshot.total.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
+                {!isCurrent && (
+                  <button
+                    onClick={() => handleRestore(revision)}
+                    disabled={restoringId !== null}
+                    className="text-xs text-brand-600 hover:bg-brand-50 px-2 py-1 rounded border border-brand-200 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Restore
+                  </button>
+                )}
+              </div>
+              {isExpanded && (
+                <div className="mt-3 ml-6">
+                  {!previous ? (
+                    <p className="text-xs text-slate-500">First saved version — {revision.snapshot.status}, {revision.snapshot.items.length} line item(s).</p>
+                  ) : changes.length === 0 ? (
+                    <p className="text-xs text-slate-500">No changes to the quote.</p>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-slate-400">
+                          <th className="font-medium pb-1">Field</th>
+                          <th className="font-medium pb-1">Rev {previous.revisionNumber}</th>
+                          <th className="font-medium pb-1">Rev {revision.revisionNumber}</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(change => (
+                          <tr key={change.label} className="align-top">
+                            <td className="py-1 pr-3 text-slate-600">{change.label}</td>
+                            <td className="py-1 pr-3 text-red-600 line-through decoration-red-300">{change.before}</td>
+                            <td className="py-1 text-green-700">{change.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
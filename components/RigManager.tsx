@@ -31,6 +31,7 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
   const [formModel, setFormModel] = useState('');
   const [formStatus, setFormStatus] = useState<RigStatus>('active');
   const [formNotes, setFormNotes] = useState('');
+  const [formYieldFactor, setFormYieldFactor] = useState('');
   const [saving, setSaving] = useState(false);
 
   const loadRigs = async () => {
@@ -45,7 +46,7 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
   const resetForm = () => {
     setFormName(''); setFormDescription(''); setFormVin('');
     setFormPlate(''); setFormYear(''); setFormMake('');
-    setFormModel(''); setFormStatus('active'); setFormNotes('');
+    setFormModel(''); setFormStatus('active'); setFormNotes(''); setFormYieldFactor('');
     setEditingId(null); setShowForm(false);
   };
 
@@ -59,6 +60,7 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
     setFormModel(rig.model || '');
     setFormStatus(rig.status);
     setFormNotes(rig.notes || '');
+    setFormYieldFactor(rig.yieldFactorPct != null ? rig.yieldFactorPct.toString() : '');
     setEditingId(rig.id);
     setShowForm(true);
   };
@@ -77,6 +79,7 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
       model: formModel.trim() || undefined,
       status: formStatus,
       notes: formNotes.trim() || undefined,
+      yieldFactorPct: parseFloat(formYieldFactor) || undefined,
     };
     await saveRig(rigData);
     await loadRigs();
@@ -199,6 +202,11 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
                   <option value="retired">Retired</option>
                 </select>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Yield Factor (% of rated set yield)</label>
+                <input type="number" step="1" value={formYieldFactor} onChange={e => setFormYieldFactor(e.target.value)}
+                  className="w-full border border-slate-200 rounded-lg px-3 py-2.5 text-sm focus:ring-2 focus:ring-brand-500 focus:border-brand-500" placeholder="100" />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Notes</label>
                 <textarea value={formNotes} onChange={e => setFormNotes(e.target.value)} rows={2}
@@ -259,6 +267,7 @@ const RigManager: React.FC<RigManagerProps> = ({ onRefresh }) => {
                       <p>{[rig.year, rig.make, rig.model].filter(Boolean).join(' ')}</p>
                     )}
                     {rig.licensePlate && <p className="font-mono text-xs text-slate-500">Plate: {rig.licensePlate}</p>}
+                    {rig.yieldFactorPct != null && rig.yieldFactorPct !== 100 && <p className="text-xs text-slate-500">Yield: {rig.yieldFactorPct}% of rated</p>}
                   </div>
                 </div>
               </div>
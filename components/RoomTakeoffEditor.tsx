@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { TakeoffPoint, TakeoffRoom } from '../types';
+import { formatVertices, parseVertices, roomArea, totalRoomArea } from '../services/takeoff';
+
+interface RoomTakeoffEditorProps {
+  rooms: TakeoffRoom[];
+  onChange: (rooms: TakeoffRoom[]) => void;
+}
+
+/** Scaled outline so the estimator can see the shape they typed in */
+const PolygonPreview: React.FC<{ vertices: TakeoffPoint[] }> = ({ vertices }) => {
+  if (vertices.length < 3) return <div className="w-20 h-20 border border-dashed rounded flex items-center justify-center text-[10px] text-slate-300">3+ points</div>;
+  const xs = vertices.map(p => p.x);
+  const ys = vertices.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY) || 1;
+  const points = vertices.map(p => `${((p.x - minX) / span) * 70 + 5},${((p.y - minY) / span) * 70 + 5}`).join(' ');
+  return (
+    <svg viewBox="0 0 80 80" className="w-20 h-20 border rounded bg-white">
+      <polygon points={points} className="fill-brand-100 stroke-brand-600" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+/** Vertex list is edited as text and only parsed on blur, so half-typed points aren't dropped */
+const VertexInput: React.FC<{ vertices: TakeoffPoint[]; onChange: (vertices: TakeoffPoint[]) => void }> = ({ vertices, onChange }) => {
+  const [text, setText] = useState(formatVertices(vertices));
+  return (
+    <textarea
+      rows={2}
+      className="w-full p-1.5 border rounded text-xs font-mono"
+      placeholder="0,0 20,0 20,12 0,12"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const parsed = parseVertices(text);
+        onChange(parsed);
+        setText(formatVertices(parsed));
+      }}
+    />
+  );
+};
+
+/** Room-by-room takeoff for flat and attic areas: rectangles or arbitrary outlines, summed */
+const RoomTakeoffEditor: React.FC<RoomTakeoffEditorProps> = ({ rooms, onChange }) => {
+  const updateRoom = (id: string, patch: Partial<TakeoffRoom>) => {
+    onChange(rooms.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const addRoom = (shape: TakeoffRoom['shape']) => {
+    onChange([...rooms, {
+      id: Date.now().toString(),
+      name: `Area ${rooms.length + 1}`,
+      shape,
+      length: 0,
+      width: 0,
+      vertices: [],
+    }]);
+  };
+
+  const removeRoom = (id: string) => {
+    onChange(rooms.filter(r => r.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {rooms.map(room => (
+        <div key={room.id} className="p-3 bg-slate-50 rounded-lg border space-y-2">
+          <div className="flex items-center gap-2">
+            <input className="flex-1 p-1.5 border rounded text-sm font-medium" value={room.name} onChange={(e) => updateRoom(room.id, { name: e.target.value })} />
+            <span className="text-xs font-bold text-slate-600 w-24 text-right">{Math.round(roomArea(room)).toLocaleString()} sq ft</span>
+            <button onClick={() => removeRoom(room.id)} className="p-1 text-slate-400 hover:text-red-500" title="Remove area">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          {room.shape === 'rect' ? (
+            <div className="flex items-center gap-2">
+              <input type="number" className="w-24 p-1.5 border rounded text-sm" value={room.length} onChange={(e) => updateRoom(room.id, { length: Number(e.target.value) })} />
+              <span className="text-xs text-slate-400">ft ×</span>
+              <input type="number" className="w-24 p-1.5 border rounded text-sm" value={room.width} onChange={(e) => updateRoom(room.id, { width: Number(e.target.value) })} />
+              <span className="text-xs text-slate-400">ft</span>
+            </div>
+          ) : (
+            <div className="flex gap-3 items-start">
+              <div className="flex-1">
+                <label className="block text-[10px] text-slate-500 mb-1">Corner points in feet (x,y), in order around the outline</label>
+                <VertexInput vertices={room.vertices} onChange={(vertices) => updateRoom(room.id, { vertices })} />
+              </div>
+              <PolygonPreview vertices={room.vertices} />
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <div className="flex gap-3">
+          <button onClick={() => addRoom('rect')} className="text-xs text-brand-600 hover:underline flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Rectangle
+          </button>
+          <button onClick={() => addRoom('polygon')} className="text-xs text-brand-600 hover:underline flex items-center gap-1">
+            <Plus className="w-3 h-3" /> Custom Outline
+          </button>
+        </div>
+        {rooms.length > 0 && (
+          <span className="text-xs font-bold text-slate-700">Total: {Math.round(totalRoomArea(rooms)).toLocaleString()} sq ft</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RoomTakeoffEditor;
@@ -1,5 +1,7 @@
 import React, { useState, useRef } from 'react';
-import { AppSettings } from '../types';
+import { AppSettings, SubstrateType, YieldAdjustments } from '../types';
+import { PAYMENT_TERMS_OPTIONS, SUBSTRATE_LABELS } from '../constants';
+import { formatEstimateNumber, numberingYear } from '../services/numbering';
 import { saveSettings, exportData, importData, clearData, logoutUser, uploadLogo } from '../services/storage';
 import { Save, Download, Upload, Trash2, LogOut, Laptop, ImagePlus, X } from 'lucide-react';
 import { useToast } from './Toast';
@@ -28,6 +30,14 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSave, installPrompt, on
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const updateYieldAdjustments = (patch: Partial<YieldAdjustments>) => {
+    setFormData(prev => ({ ...prev, yieldAdjustments: { ...prev.yieldAdjustments, ...patch } }));
+  };
+
+  const updateTemperatureBand = (index: number, field: 'minTempF' | 'factorPct', value: number) => {
+    updateYieldAdjustments({ temperatureBands: formData.yieldAdjustments.temperatureBands.map((b, i) => i === index ? { ...b, [field]: value } : b) });
+  };
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -187,6 +197,14 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSave, installPrompt, on
                 <label className="block text-sm text-slate-600 mb-1">Cost per Set ($)</label>
                 <input type="number" className="w-full p-2 border rounded" value={formData.openCellCost} onChange={e => handleChange('openCellCost', Number(e.target.value))} />
               </div>
+              <div>
+                <label className="block text-sm text-slate-600 mb-1">R-Value per Inch</label>
+                <input type="number" step="0.1" className="w-full p-2 border rounded" value={formData.openCellRPerInch} onChange={e => handleChange('openCellRPerInch', Number(e.target.value))} />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-600 mb-1">Production Rate (Bd Ft / hr per rig)</label>
+                <input type="number" className="w-full p-2 border rounded" value={formData.openCellProductionRate} onChange={e => handleChange('openCellProductionRate', Number(e.target.value))} />
+              </div>
             </div>
             <div className="space-y-4">
               <h4 className="font-medium text-blue-600">Closed Cell</h4>
@@ -198,6 +216,73 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSave, installPrompt, on
                 <label className="block text-sm text-slate-600 mb-1">Cost per Set ($)</label>
                 <input type="number" className="w-full p-2 border rounded" value={formData.closedCellCost} onChange={e => handleChange('closedCellCost', Number(e.target.value))} />
               </div>
+              <div>
+                <label className="block text-sm text-slate-600 mb-1">R-Value per Inch</label>
+                <input type="number" step="0.1" className="w-full p-2 border rounded" value={formData.closedCellRPerInch} onChange={e => handleChange('closedCellRPerInch', Number(e.target.value))} />
+              </div>
+              <div>
+                <label className="block text-sm text-slate-600 mb-1">Production Rate (Bd Ft / hr per rig)</label>
+                <input type="number" className="w-full p-2 border rounded" value={formData.closedCellProductionRate} onChange={e => handleChange('closedCellProductionRate', Number(e.target.value))} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-600 mb-1">Max per Lift (in)</label>
+                  <input type="number" step="0.25" className="w-full p-2 border rounded" value={formData.closedCellMaxPass} onChange={e => handleChange('closedCellMaxPass', Number(e.target.value))} />
+                </div>
+                <div>
+                  <label className="block text-sm text-slate-600 mb-1">Cure Between Lifts (min)</label>
+                  <input type="number" className="w-full p-2 border rounded" value={formData.closedCellCureMinutes} onChange={e => handleChange('closedCellCureMinutes', Number(e.target.value))} />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Yield Adjustments */}
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-800 mb-1 border-b pb-2">Yield Adjustments</h3>
+          <p className="text-xs text-slate-500 mb-4">Percent of rated set yield. The calculator multiplies the factors for a job's conditions and orders sets accordingly.</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <h4 className="font-medium text-slate-700">Ambient Temperature</h4>
+              {formData.yieldAdjustments.temperatureBands.map((band, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500 w-16">At/above</span>
+                  <input type="number" className="w-20 p-2 border rounded" value={band.minTempF} onChange={e => updateTemperatureBand(idx, 'minTempF', Number(e.target.value))} />
+                  <span className="text-slate-500">°F →</span>
+                  <input type="number" className="w-20 p-2 border rounded" value={band.factorPct} onChange={e => updateTemperatureBand(idx, 'factorPct', Number(e.target.value))} />
+                  <span className="text-slate-500">%</span>
+                  <button type="button" onClick={() => updateYieldAdjustments({ temperatureBands: formData.yieldAdjustments.temperatureBands.filter((_, i) => i !== idx) })} className="p-1 text-slate-400 hover:text-red-500">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button type="button" onClick={() => updateYieldAdjustments({ temperatureBands: [...formData.yieldAdjustments.temperatureBands, { minTempF: 0, factorPct: 100 }] })} className="text-xs text-brand-600 hover:underline">
+                + Add Band
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-medium text-slate-700 mb-2">Humidity</h4>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500">Above</span>
+                  <input type="number" className="w-20 p-2 border rounded" value={formData.yieldAdjustments.humidityThresholdPct} onChange={e => updateYieldAdjustments({ humidityThresholdPct: Number(e.target.value) })} />
+                  <span className="text-slate-500">% RH →</span>
+                  <input type="number" className="w-20 p-2 border rounded" value={formData.yieldAdjustments.highHumidityFactorPct} onChange={e => updateYieldAdjustments({ highHumidityFactorPct: Number(e.target.value) })} />
+                  <span className="text-slate-500">%</span>
+                </div>
+              </div>
+              <div>
+                <h4 className="font-medium text-slate-700 mb-2">Substrate</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(SUBSTRATE_LABELS) as SubstrateType[]).map(substrate => (
+                    <div key={substrate}>
+                      <label className="block text-sm text-slate-600 mb-1">{SUBSTRATE_LABELS[substrate]} (%)</label>
+                      <input type="number" className="w-full p-2 border rounded" value={formData.yieldAdjustments.substrateFactors[substrate]} onChange={e => updateYieldAdjustments({ substrateFactors: { ...formData.yieldAdjustments.substrateFactors, [substrate]: Number(e.target.value) } })} />
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
           </div>
         </div>
@@ -214,7 +299,57 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSave, installPrompt, on
                <label className="block text-sm font-medium text-slate-700 mb-1">Tax Rate (%)</label>
                <input type="number" step="0.1" className="w-full p-2 border rounded" value={formData.taxRate} onChange={e => handleChange('taxRate', Number(e.target.value))} />
             </div>
+            <div>
+               <label className="block text-sm font-medium text-slate-700 mb-1">Invoice Payment Terms</label>
+               <select className="w-full p-2 border rounded" value={formData.defaultPaymentTerms} onChange={e => handleChange('defaultPaymentTerms', e.target.value)}>
+                 {PAYMENT_TERMS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+               </select>
+            </div>
+            <div>
+               <label className="block text-sm font-medium text-slate-700 mb-1">Setup + Cleanup (hrs per job)</label>
+               <input type="number" step="0.5" className="w-full p-2 border rounded" value={formData.setupCleanupHours} onChange={e => handleChange('setupCleanupHours', Number(e.target.value))} />
+            </div>
+            <div>
+               <label className="block text-sm font-medium text-slate-700 mb-1">Default Crew Size</label>
+               <input type="number" min="1" className="w-full p-2 border rounded" value={formData.defaultCrewSize} onChange={e => handleChange('defaultCrewSize', Number(e.target.value))} />
+            </div>
+            <div>
+               <label className="block text-sm font-medium text-slate-700 mb-1">Target Gross Margin (%)</label>
+               <input type="number" step="0.5" className="w-full p-2 border rounded" value={formData.defaultMarginPct} onChange={e => handleChange('defaultMarginPct', Number(e.target.value))} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                 <label className="block text-sm font-medium text-slate-700 mb-1">Material Markup (%)</label>
+                 <input type="number" step="0.5" className="w-full p-2 border rounded" value={formData.defaultMaterialMarkupPct} onChange={e => handleChange('defaultMaterialMarkupPct', Number(e.target.value))} />
+              </div>
+              <div>
+                 <label className="block text-sm font-medium text-slate-700 mb-1">Labor Markup (%)</label>
+                 <input type="number" step="0.5" className="w-full p-2 border rounded" value={formData.defaultLaborMarkupPct} onChange={e => handleChange('defaultLaborMarkupPct', Number(e.target.value))} />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Numbering */}
+        <div className="bg-white p-6 rounded-xl border border-slate-200 shadow-sm">
+          <h3 className="text-lg font-semibold text-slate-800 mb-4 border-b pb-2">Estimate Numbering</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Prefix (optional)</label>
+              <input type="text" className="w-full p-2 border rounded" placeholder="e.g. RFE" value={formData.estimateNumberPrefix} onChange={e => handleChange('estimateNumberPrefix', e.target.value)} />
+            </div>
+            <div>
+              <label className="block text-sm text-slate-600 mb-1">Digits</label>
+              <input type="number" min="1" max="8" className="w-full p-2 border rounded" value={formData.estimateNumberPadding} onChange={e => handleChange('estimateNumberPadding', Number(e.target.value))} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-600 md:mt-6">
+              <input type="checkbox" checked={formData.estimateNumberYearlyReset} onChange={e => handleChange('estimateNumberYearlyReset', e.target.checked)} />
+              Restart numbering each year
+            </label>
           </div>
+          <p className="text-xs text-slate-500 mt-3">
+            Numbers look like <span className="font-mono">{formatEstimateNumber(1, numberingYear(formData), formData)}</span>; the work order and invoice reuse the same number.
+          </p>
         </div>
 
         <div className="flex justify-end">
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { FoamType, SpecialtySurface, SpecialtySurfaceKind } from '../types';
+import { SPECIALTY_SURFACE_PRESETS } from '../constants';
+import { specialtySurfaceArea } from '../services/estimateEngine';
+
+interface SpecialtySurfaceEditorProps {
+  surfaces: SpecialtySurface[];
+  onChange: (surfaces: SpecialtySurface[]) => void;
+  showPricing: boolean; // Linear-foot prices only apply in sq ft pricing mode; other modes bill the foam as material
+}
+
+/** Rim joists and crawlspaces — each with its own footage, foam spec and linear-foot price */
+const SpecialtySurfaceEditor: React.FC<SpecialtySurfaceEditorProps> = ({ surfaces, onChange, showPricing }) => {
+  const updateSurface = (id: string, field: keyof SpecialtySurface, value: any) => {
+    onChange(surfaces.map(s => s.id === id ? { ...s, [field]: value } : s));
+  };
+
+  const addSurface = (kind: SpecialtySurfaceKind) => {
+    onChange([...surfaces, { ...SPECIALTY_SURFACE_PRESETS[kind], id: Date.now().toString() }]);
+  };
+
+  const removeSurface = (id: string) => {
+    onChange(surfaces.filter(s => s.id !== id));
+  };
+
+  const numberField = (surface: SpecialtySurface, field: keyof SpecialtySurface, label: string, step = '1') => (
+    <div>
+      <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">{label}</label>
+      <input type="number" step={step} min="0" className="w-full p-1.5 border rounded text-sm" value={surface[field] as number} onChange={(e) => updateSurface(surface.id, field, Number(e.target.value))} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="block text-xs font-bold text-slate-500">Rim Joist & Crawlspace</label>
+        <div className="flex gap-2">
+          <button onClick={() => addSurface('rim_joist')} className="text-xs text-slate-600 hover:bg-slate-100 px-2 py-1 rounded border border-slate-200">
+            + Rim Joist
+          </button>
+          <button onClick={() => addSurface('crawlspace')} className="text-xs text-slate-600 hover:bg-slate-100 px-2 py-1 rounded border border-slate-200">
+            + Crawlspace
+          </button>
+        </div>
+      </div>
+      {!showPricing && surfaces.length > 0 && (
+        <p className="text-xs text-slate-400">
+          Linear-foot prices apply in Sq Ft pricing. In this mode, the foam for these surfaces is billed in the Spray Foam Material line and the time in Labor.
+        </p>
+      )}
+      {surfaces.map(surface => (
+        <div key={surface.id} className="p-3 bg-slate-50 rounded-lg border space-y-2">
+          <div className="flex items-center gap-2">
+            <input className="flex-1 p-1.5 border rounded text-sm font-medium" value={surface.label} onChange={(e) => updateSurface(surface.id, 'label', e.target.value)} />
+            <span className="text-xs font-bold text-slate-600 w-24 text-right">{Math.round(specialtySurfaceArea(surface)).toLocaleString()} sq ft</span>
+            <button onClick={() => removeSurface(surface.id)} className="p-1 text-slate-400 hover:text-red-500" title="Remove surface">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {surface.kind === 'rim_joist' ? (
+              <>
+                {numberField(surface, 'linearFeet', 'Linear Ft')}
+                {numberField(surface, 'joistDepth', 'Joist Depth (in)', '0.25')}
+              </>
+            ) : (
+              <>
+                {numberField(surface, 'linearFeet', 'Perimeter (ft)')}
+                {numberField(surface, 'wallHeight', 'Wall Height (ft)', '0.5')}
+                {numberField(surface, 'floorArea', 'Floor (sq ft, opt.)')}
+              </>
+            )}
+            <div>
+              <label className="block text-[10px] uppercase text-slate-500 font-bold mb-1">Foam</label>
+              <select className="w-full p-1.5 border rounded text-sm" value={surface.foamType} onChange={(e) => updateSurface(surface.id, 'foamType', e.target.value as FoamType)}>
+                <option>{FoamType.OPEN_CELL}</option>
+                <option>{FoamType.CLOSED_CELL}</option>
+              </select>
+            </div>
+            {numberField(surface, 'thickness', 'Thickness (in)', '0.25')}
+            {showPricing && numberField(surface, 'pricePerLinearFt', '$ / Linear Ft', '0.25')}
+            {showPricing && surface.kind === 'crawlspace' && surface.floorArea > 0 && numberField(surface, 'floorPricePerSqFt', 'Floor $ / Sq Ft', '0.05')}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SpecialtySurfaceEditor;
@@ -1,4 +1,4 @@
-import { AppSettings, InventoryItem } from "./types";
+import { AppSettings, FoamType, InventoryItem, PaymentMethod, PhotoCategory, SpecialtySurface, SpecialtySurfaceKind, SubstrateType, WallOpening } from "./types";
 
 export const DEFAULT_SETTINGS: AppSettings = {
   companyName: "RFE Foam Equipment",
@@ -9,8 +9,67 @@ export const DEFAULT_SETTINGS: AppSettings = {
   closedCellYield: 4000,
   openCellCost: 2000,
   closedCellCost: 2600,
+  openCellRPerInch: 3.7,
+  closedCellRPerInch: 6.5,
+  closedCellMaxPass: 2,
+  closedCellCureMinutes: 20,
+  openCellProductionRate: 1200,
+  closedCellProductionRate: 600,
+  setupCleanupHours: 2,
+  defaultCrewSize: 2,
   laborRate: 85,
-  taxRate: 7.5
+  defaultMarginPct: 35,
+  defaultMaterialMarkupPct: 30,
+  defaultLaborMarkupPct: 30,
+  taxRate: 7.5,
+  yieldAdjustments: {
+    temperatureBands: [
+      { minTempF: 70, factorPct: 100 },
+      { minTempF: 60, factorPct: 95 },
+      { minTempF: 50, factorPct: 88 },
+      { minTempF: 40, factorPct: 80 },
+      { minTempF: -100, factorPct: 70 },
+    ],
+    humidityThresholdPct: 80,
+    highHumidityFactorPct: 93,
+    substrateFactors: { wood: 100, metal: 95, concrete: 90, masonry: 88 },
+  },
+  estimateNumberPrefix: '',
+  estimateNumberPadding: 4,
+  estimateNumberYearlyReset: false,
+  defaultPaymentTerms: 'Net 30',
+};
+
+export const PAYMENT_TERMS_OPTIONS = [
+  { value: 'Net 30', label: 'Net 30' },
+  { value: 'Net 15', label: 'Net 15' },
+  { value: 'Net 60', label: 'Net 60' },
+  { value: 'Due on Receipt', label: 'Due on Receipt' },
+  { value: '50/50', label: '50% Deposit / 50% on Completion' },
+];
+
+export const SUBSTRATE_LABELS: Record<SubstrateType, string> = {
+  wood: 'Wood / OSB',
+  metal: 'Metal',
+  concrete: 'Concrete',
+  masonry: 'Block / Masonry',
+};
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  check: 'Check',
+  card: 'Card',
+  ach: 'ACH / Bank Transfer',
+  financing: 'Financing',
+  other: 'Other',
+};
+
+export const PHOTO_CATEGORY_LABELS: Record<PhotoCategory, string> = {
+  before: 'Before',
+  in_progress: 'In Progress',
+  after: 'After',
+  damage: 'Damage',
+  other: 'Other',
 };
 
 export const INITIAL_INVENTORY: InventoryItem[] = [
@@ -21,10 +80,33 @@ export const INITIAL_INVENTORY: InventoryItem[] = [
   { id: '5', name: 'Gun Cleaner', category: 'Supply', quantity: 15, unit: 'Cans', minLevel: 5 },
 ];
 
+// Standard opening sizes (ft) for wall area deductions
+export const OPENING_PRESETS: Omit<WallOpening, 'id' | 'count' | 'sectionId'>[] = [
+  { label: 'Window 3x4', width: 3, height: 4 },
+  { label: 'Window 3x5', width: 3, height: 5 },
+  { label: 'Entry Door', width: 3, height: 6.67 },
+  { label: 'Patio Door', width: 6, height: 6.67 },
+  { label: 'Garage Door 9x7', width: 9, height: 7 },
+  { label: 'Garage Door 16x7', width: 16, height: 7 },
+];
+
+// Starting specs for rim joist / crawlspace surfaces — the estimator fills in the footage
+export const SPECIALTY_SURFACE_PRESETS: Record<SpecialtySurfaceKind, Omit<SpecialtySurface, 'id'>> = {
+  rim_joist: {
+    kind: 'rim_joist', label: 'Rim Joist', linearFeet: 0, joistDepth: 9.25, wallHeight: 0, floorArea: 0,
+    foamType: FoamType.CLOSED_CELL, thickness: 2, pricePerLinearFt: 4, floorPricePerSqFt: 0,
+  },
+  crawlspace: {
+    kind: 'crawlspace', label: 'Crawlspace', linearFeet: 0, joistDepth: 0, wallHeight: 3, floorArea: 0,
+    foamType: FoamType.CLOSED_CELL, thickness: 2, pricePerLinearFt: 8, floorPricePerSqFt: 1.5,
+  },
+};
+
 export const NAV_ITEMS = [
   { id: 'dashboard', label: 'Dashboard', icon: 'LayoutDashboard' },
   { id: 'calculator', label: 'New Estimate', icon: 'Calculator' },
   { id: 'customers', label: 'Customers & Jobs', icon: 'Users' },
+  { id: 'receivables', label: 'Receivables', icon: 'Receipt' },
   { id: 'inventory', label: 'Inventory', icon: 'Package' },
   { id: 'employees', label: 'Employees', icon: 'HardHat' },
   { id: 'rigs', label: 'Spray Rigs', icon: 'Truck' },
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, EstimateAcceptance, JobStatus } from '../types';
+import { acceptanceUrl, createAcceptanceToken, currentAcceptance, hasSignedQuoteChanged, isAwaitingWorkOrder, parseAcceptanceToken } from './acceptance';
+import { makeEstimate } from './testFixtures';
+
+const TOKEN = 'a'.repeat(32);
+
+const acceptance = (token: string): EstimateAcceptance => ({
+  token, signerName: 'Pat Lee', signatureDataUrl: 'data:image/png;base64,AAAA', method: 'typed',
+  acceptedAt: '2026-04-02T15:30:00Z', ipAddress: '203.0.113.7',
+});
+
+const estimate = (status: JobStatus, acceptanceToken?: string, signed?: EstimateAcceptance): Estimate => makeEstimate({
+  date: '2026-04-01', status, acceptanceToken, acceptance: signed,
+});
+
+describe('acceptance', () => {
+  it('creates unguessable tokens that round-trip through the share link', () => {
+    const token = createAcceptanceToken();
+    expect(token).toMatch(/^[a-f0-9]{32}$/);
+    expect(createAcceptanceToken()).not.toBe(token);
+    const url = new URL(acceptanceUrl(token, 'https://app.example.com'));
+    expect(parseAcceptanceToken(url.search)).toBe(token);
+  });
+
+  it('ignores links without a well-formed token', () => {
+    expect(parseAcceptanceToken('')).toBeNull();
+    expect(parseAcceptanceToken('?invite=abc')).toBeNull();
+    expect(parseAcceptanceToken('?sign=short')).toBeNull();
+  });
+
+  it('only honours a signature made through the current link', () => {
+    expect(isAwaitingWorkOrder(estimate(JobStatus.DRAFT, TOKEN, acceptance(TOKEN)))).toBe(true);
+    expect(isAwaitingWorkOrder(estimate(JobStatus.WORK_ORDER, TOKEN, acceptance(TOKEN)))).toBe(false);
+    // Link was revoked or reissued after signing
+    expect(currentAcceptance(estimate(JobStatus.DRAFT, undefined, acceptance(TOKEN)))).toBeUndefined();
+    expect(currentAcceptance(estimate(JobStatus.DRAFT, 'b'.repeat(32), acceptance(TOKEN)))).toBeUndefined();
+  });
+
+  it('notices when a signed quote is repriced', () => {
+    const signed = estimate(JobStatus.DRAFT, TOKEN, acceptance(TOKEN));
+    expect(hasSignedQuoteChanged(signed, { ...signed, jobName: 'Attic and walls' })).toBe(false);
+    expect(hasSignedQuoteChanged(signed, { ...signed, subtotal: 3200, total: 3200 })).toBe(true);
+    expect(hasSignedQuoteChanged(signed, { ...signed, items: [{ id: 'i1', description: 'Haul-off', quantity: 1, unit: 'ea', unitPrice: 0, total: 0 }] })).toBe(true);
+    // Read back from jsonb with the keys in another order — still the same quote
+    const items = [{ id: 'i1', description: 'Haul-off', quantity: 1, unit: 'ea', unitPrice: 75, total: 75 }];
+    const reordered = [{ total: 75, unitPrice: 75, unit: 'ea', quantity: 1, description: 'Haul-off', id: 'i1' }];
+    expect(hasSignedQuoteChanged({ ...signed, items: reordered }, { ...signed, items })).toBe(false);
+    // Nothing signed through the current link, so nothing to invalidate
+    expect(hasSignedQuoteChanged(estimate(JobStatus.DRAFT, TOKEN), { ...signed, total: 1 })).toBe(false);
+  });
+});
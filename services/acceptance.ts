@@ -0,0 +1,47 @@
+import { Estimate, EstimateAcceptance, JobStatus } from '../types';
+import { canonical } from './revisions';
+
+// ============================================================
+// Online estimate acceptance — share links and captured signatures
+// ============================================================
+
+/** 32 hex characters — long enough that links can't be guessed */
+export const createAcceptanceToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/** Link the customer opens to review and sign, e.g. https://app.example.com/?sign=3f2a… */
+export const acceptanceUrl = (token: string, origin: string): string => `${origin}/?sign=${token}`;
+
+/** The token from the page's query string, or null when this isn't an acceptance link */
+export const parseAcceptanceToken = (search: string): string | null => {
+  const token = new URLSearchParams(search).get('sign');
+  return token && /^[a-f0-9]{32,}$/i.test(token) ? token : null;
+};
+
+/** The signature collected through the estimate's current link — signatures on a revoked link don't count */
+export const currentAcceptance = (estimate: Estimate): EstimateAcceptance | undefined =>
+  estimate.acceptance && estimate.acceptanceToken && estimate.acceptance.token === estimate.acceptanceToken
+    ? estimate.acceptance
+    : undefined;
+
+/** Signed online but not yet turned into a work order */
+export const isAwaitingWorkOrder = (estimate: Estimate): boolean =>
+  estimate.status === JobStatus.DRAFT && !!currentAcceptance(estimate);
+
+/** The customer signed a different price — totals, line items or options changed since the signature */
+export const hasSignedQuoteChanged = (signed: Estimate, edited: Estimate): boolean =>
+  !!currentAcceptance(signed) && (
+    signed.subtotal !== edited.subtotal ||
+    signed.tax !== edited.tax ||
+    signed.total !== edited.total ||
+    JSON.stringify(canonical(signed.items)) !== JSON.stringify(canonical(edited.items)) ||
+    JSON.stringify(canonical(signed.options || [])) !== JSON.stringify(canonical(edited.options || []))
+  );
+
+export const describeAcceptance = (acceptance: EstimateAcceptance): string => {
+  const when = new Date(acceptance.acceptedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  return `Accepted electronically by ${acceptance.signerName} on ${when}${acceptance.ipAddress ? ` from IP ${acceptance.ipAddress}` : ''}`;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { ChangeOrder, Estimate, JobStatus } from '../types';
+import { changeOrderTotals, contractTotal, formatChangeOrderNumber, nextChangeOrderNumber, setChangeOrderStatus } from './changeOrders';
+import { makeEstimate } from './testFixtures';
+
+const changeOrder = (number: number, total: number, status: ChangeOrder['status']): ChangeOrder => ({
+  id: `co${number}`, number, date: '2026-02-01', description: `Change ${number}`,
+  items: [{ id: '1', description: 'Garage ceiling', quantity: 1, unit: 'ea', unitPrice: total, total }],
+  setsRequiredOpen: 0, setsRequiredClosed: 0, subtotal: total, tax: 0, total, status,
+});
+
+const estimate = (changeOrders: ChangeOrder[]): Estimate => makeEstimate({
+  status: JobStatus.WORK_ORDER, subtotal: 5000, total: 5000, changeOrders,
+});
+
+describe('change orders', () => {
+  it('adds only approved change orders, credits included, to the contract total', () => {
+    const est = estimate([changeOrder(1, 1200, 'approved'), changeOrder(2, 800, 'pending'), changeOrder(3, 500, 'declined'), changeOrder(4, -300, 'approved')]);
+    expect(contractTotal(est)).toBe(5900);
+  });
+
+  it('numbers change orders off the estimate', () => {
+    const est = estimate([changeOrder(1, 100, 'approved'), changeOrder(3, 100, 'declined')]);
+    expect(nextChangeOrderNumber(est)).toBe(4);
+    expect(nextChangeOrderNumber(estimate([]))).toBe(1);
+    expect(formatChangeOrderNumber(est.number, { number: 2 })).toBe('CO-0042-2');
+  });
+
+  it('taxes the change and records who approved it', () => {
+    expect(changeOrderTotals([{ id: '1', description: 'x', quantity: 2, unit: 'ea', unitPrice: 50, total: 100 }], 8)).toEqual({ subtotal: 100, tax: 8, total: 108 });
+    const approved = setChangeOrderStatus(changeOrder(1, 100, 'pending'), 'approved', 'Pat Smith');
+    expect(approved.approvedBy).toBe('Pat Smith');
+    expect(approved.approvedAt).toBeTruthy();
+    expect(setChangeOrderStatus(approved, 'declined').approvedAt).toBeUndefined();
+  });
+});
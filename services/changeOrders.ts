@@ -0,0 +1,40 @@
+import { ChangeOrder, DocumentType, Estimate, JobItem, JobStatus, formatDocumentNumber } from '../types';
+
+// ============================================================
+// Change orders — scope changes on a sold job
+// ============================================================
+
+/** New change orders can only be written (and approved) while the job is a work order */
+export const canChangeScope = (estimate: Estimate): boolean => estimate.status === JobStatus.WORK_ORDER;
+
+export const nextChangeOrderNumber = (estimate: Estimate): number =>
+  Math.max(0, ...(estimate.changeOrders || []).map(co => co.number)) + 1;
+
+/** CO-0042-1, CO-0042-2... — shares the estimate's base number like WO-/INV- do */
+export const formatChangeOrderNumber = (estimateNumber: string, changeOrder: Pick<ChangeOrder, 'number'>): string =>
+  `${formatDocumentNumber(estimateNumber, DocumentType.CHANGE_ORDER)}-${changeOrder.number}`;
+
+export const changeOrderTotals = (items: JobItem[], taxRate: number): Pick<ChangeOrder, 'subtotal' | 'tax' | 'total'> => {
+  const subtotal = items.reduce((acc, item) => acc + item.total, 0);
+  const tax = subtotal * (taxRate / 100);
+  return { subtotal, tax, total: subtotal + tax };
+};
+
+export const approvedChangeOrders = (estimate: Estimate): ChangeOrder[] =>
+  (estimate.changeOrders || []).filter(co => co.status === 'approved');
+
+/** Net price of all approved change orders (credits included) */
+export const changeOrderDelta = (estimate: Estimate): number =>
+  approvedChangeOrders(estimate).reduce((acc, co) => acc + co.total, 0);
+
+/** What the customer owes: the original estimate plus every approved change */
+export const contractTotal = (estimate: Estimate): number => estimate.total + changeOrderDelta(estimate);
+
+/** Record the customer's answer. Declining keeps the change order on file for the paper trail. */
+export const setChangeOrderStatus = (
+  changeOrder: ChangeOrder,
+  status: ChangeOrder['status'],
+  approvedBy = ''
+): ChangeOrder => status === 'approved'
+  ? { ...changeOrder, status, approvedBy, approvedAt: new Date().toISOString() }
+  : { ...changeOrder, status, approvedBy: undefined, approvedAt: undefined };
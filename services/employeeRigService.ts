@@ -167,6 +167,7 @@ const mapRigFromDb = (row: any): Rig => ({
   model: row.model || undefined,
   status: row.status || 'active',
   notes: row.notes || undefined,
+  yieldFactorPct: row.yield_factor_pct != null ? Number(row.yield_factor_pct) : undefined,
   createdAt: row.created_at || new Date().toISOString(),
 });
 
@@ -196,6 +197,7 @@ export const saveRig = async (rig: Partial<Rig> & { name: string }): Promise<Rig
         model: rig.model || null,
         status: rig.status || 'active',
         notes: rig.notes || null,
+        yield_factor_pct: rig.yieldFactorPct ?? null,
       })
       .eq('id', rig.id)
       .select()
@@ -216,6 +218,7 @@ export const saveRig = async (rig: Partial<Rig> & { name: string }): Promise<Rig
       model: rig.model || null,
       status: rig.status || 'active',
       notes: rig.notes || null,
+      yield_factor_pct: rig.yieldFactorPct ?? null,
     })
     .select()
     .single();
@@ -0,0 +1,334 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, CalculationData, FoamType } from '../types';
+import { DEFAULT_SETTINGS, SPECIALTY_SURFACE_PRESETS } from '../constants';
+import { applyRValueTargets, calculateEstimate, calculateMaterials, calculateRValues, planApplication, PricingInputs, resolveCalcMode, specialtySurfaceArea, splitIntoLifts, suggestLaborHours, thicknessForRValue, yieldAdjustmentFor } from './estimateEngine';
+
+const settings: AppSettings = { ...DEFAULT_SETTINGS };
+
+const box = (overrides: Partial<CalculationData> = {}): CalculationData => ({
+  mode: 'building',
+  length: 40,
+  width: 30,
+  wallHeight: 10,
+  roofPitch: 0,
+  isGable: true,
+  wallFoamType: FoamType.OPEN_CELL,
+  wallThickness: 3.5,
+  roofFoamType: FoamType.OPEN_CELL,
+  roofThickness: 5.5,
+  wastePct: 0,
+  ...overrides,
+});
+
+const pricing = (overrides: Partial<PricingInputs> = {}): PricingInputs => ({
+  pricingMode: 'cost_plus',
+  pricePerSqFtWall: 0,
+  pricePerSqFtRoof: 0,
+  laborHours: 0,
+  tripCharge: 0,
+  miscItems: [],
+  ...overrides,
+});
+
+describe('calculateMaterials — building', () => {
+  it('computes a flat-roof box', () => {
+    const r = calculateMaterials(box(), settings);
+    expect(r.wallArea).toBe(1400);
+    expect(r.roofArea).toBe(1200);
+    expect(r.totalBFOpen).toBe(1400 * 3.5 + 1200 * 5.5);
+    expect(r.totalBFClosed).toBe(0);
+    expect(r.setsOpen).toBe(0.72);
+    expect(r.setsClosed).toBe(0);
+  });
+
+  it('applies pitch to the roof deck and adds gable ends', () => {
+    const r = calculateMaterials(box({ roofPitch: 12 }), settings);
+    expect(r.roofArea).toBeCloseTo(1200 * Math.SQRT2, 6);
+    // rise = 15 ft over a 30 ft span: two triangles of 0.5 * 30 * 15
+    expect(r.wallArea).toBeCloseTo(1400 + 450, 6);
+  });
+
+  it('omits gable ends when the legacy isGable flag is off (hip)', () => {
+    const r = calculateMaterials(box({ roofPitch: 12, isGable: false }), settings);
+    expect(r.wallArea).toBe(1400);
+    expect(r.roofArea).toBeCloseTo(1200 * Math.SQRT2, 6);
+  });
+
+  it('rolls up multiple sections into open and closed totals', () => {
+    const r = calculateMaterials(box({
+      sections: [
+        { id: 'a', name: 'House', length: 40, width: 30, wallHeight: 10, roofPitch: 0, isGable: false, wallFoamType: FoamType.OPEN_CELL, wallThickness: 3.5, roofFoamType: FoamType.OPEN_CELL, roofThickness: 5.5 },
+        { id: 'b', name: 'Garage', length: 20, width: 20, wallHeight: 9, roofPitch: 0, isGable: false, wallFoamType: FoamType.CLOSED_CELL, wallThickness: 2, roofFoamType: FoamType.CLOSED_CELL, roofThickness: 2 },
+      ],
+    }), settings);
+    expect(r.wallArea).toBe(1400 + 720);
+    expect(r.roofArea).toBe(1200 + 400);
+    expect(r.totalBFOpen).toBe(11500);
+    expect(r.totalBFClosed).toBe(720 * 2 + 400 * 2);
+    expect(r.setsClosed).toBe(0.56);
+  });
+
+  it('deducts openings from the wall area', () => {
+    const r = calculateMaterials(box({
+      openings: [{ id: 'w', label: 'Window', width: 3, height: 4, count: 5 }],
+    }), settings);
+    expect(r.openingDeduction).toBe(60);
+    expect(r.wallArea).toBe(1340);
+  });
+});
+
+describe('calculateMaterials — hybrid foam stacks', () => {
+  it('sends each layer to its own open / closed totals', () => {
+    const r = calculateMaterials(box({
+      mode: 'walls', length: 100, wallHeight: 8,
+      wallLayers: [{ foamType: FoamType.CLOSED_CELL, thickness: 1 }, { foamType: FoamType.OPEN_CELL, thickness: 4 }],
+    }), settings);
+    expect(r.totalBFClosed).toBe(800);
+    expect(r.totalBFOpen).toBe(3200);
+    expect(r.setsClosed).toBe(0.2);
+  });
+
+  it('sums R-value over the stack and sizes the fill layer to a target', () => {
+    const stack = [{ foamType: FoamType.CLOSED_CELL, thickness: 1 }, { foamType: FoamType.OPEN_CELL, thickness: 0 }];
+    const cd = applyRValueTargets(box({ mode: 'flat', length: 10, width: 10, thicknessMode: 'r_value', roofTargetR: 38, roofLayers: stack }), settings);
+    // 1" CC = R-6.5, so open cell has to make up R-31.5 -> 8.75"
+    expect(cd.roofLayers![1].thickness).toBe(8.75);
+    expect(cd.roofThickness).toBe(9.75);
+    const [rv] = calculateRValues(cd, settings);
+    expect(rv.rValue).toBeGreaterThanOrEqual(38);
+    expect(rv.layers).toHaveLength(2);
+  });
+
+  it('plans lifts on the closed cell layers only', () => {
+    const plan = planApplication(box({
+      mode: 'walls',
+      wallLayers: [{ foamType: FoamType.CLOSED_CELL, thickness: 3 }, { foamType: FoamType.OPEN_CELL, thickness: 3 }],
+    }), settings);
+    expect(plan.surfaces[0].thickness).toBe(3);
+    expect(plan.surfaces[0].lifts).toEqual([2, 1]);
+  });
+});
+
+describe('calculateMaterials — walls & flat', () => {
+  it('uses linear footage x wall height for walls only', () => {
+    const r = calculateMaterials(box({ mode: 'walls', length: 100, wallHeight: 8, width: 0, wallFoamType: FoamType.CLOSED_CELL, wallThickness: 2 }), settings);
+    expect(r.wallArea).toBe(800);
+    expect(r.roofArea).toBe(0);
+    expect(r.totalBFClosed).toBe(1600);
+    expect(r.setsClosed).toBe(0.4);
+  });
+
+  it('treats a flat area as roof/ceiling', () => {
+    const r = calculateMaterials(box({ mode: 'flat', length: 20, width: 30 }), settings);
+    expect(r.wallArea).toBe(0);
+    expect(r.roofArea).toBe(600);
+    expect(r.totalBFOpen).toBe(3300);
+  });
+
+  it('adds the waste factor to board feet', () => {
+    const r = calculateMaterials(box({ mode: 'flat', length: 20, width: 30, wastePct: 10 }), settings);
+    expect(r.totalBFOpen).toBeCloseTo(3630, 6);
+  });
+
+  it('sums a room-by-room takeoff instead of length x width', () => {
+    const rooms = [
+      { id: '1', name: 'Bay A', shape: 'rect' as const, length: 10, width: 12, vertices: [] },
+      // L-shaped attic: 20x10 with a 10x10 notch removed
+      { id: '2', name: 'Attic', shape: 'polygon' as const, length: 0, width: 0, vertices: [{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 10 }, { x: 10, y: 10 }, { x: 10, y: 20 }, { x: 0, y: 20 }] },
+    ];
+    const r = calculateMaterials(box({ mode: 'flat', length: 20, width: 30, rooms }), settings);
+    expect(r.roofArea).toBe(420);
+    expect(resolveCalcMode({ ...box(), mode: undefined, wallHeight: 0, width: 0, rooms })).toBe('flat');
+  });
+});
+
+describe('rim joist & crawlspace surfaces', () => {
+  const rim = { ...SPECIALTY_SURFACE_PRESETS.rim_joist, id: 'rim', linearFeet: 120, joistDepth: 9 };
+  const crawl = { ...SPECIALTY_SURFACE_PRESETS.crawlspace, id: 'crawl', linearFeet: 100, wallHeight: 3, floorArea: 200 };
+
+  it('sizes rim joists by depth and crawlspaces by perimeter x height plus floor', () => {
+    expect(specialtySurfaceArea(rim)).toBe(90);
+    expect(specialtySurfaceArea(crawl)).toBe(500);
+  });
+
+  it('adds their board feet on top of the main takeoff', () => {
+    const r = calculateMaterials(box({ mode: 'flat', length: 20, width: 30, specialtySurfaces: [rim, crawl] }), settings);
+    expect(r.roofArea).toBe(600);
+    expect(r.specialtyArea).toBe(590);
+    expect(r.totalBFOpen).toBe(3300);
+    expect(r.totalBFClosed).toBe(1180);
+  });
+
+  it('prices them per linear foot (plus crawlspace floor) in sq ft mode', () => {
+    const r = calculateEstimate(box({ mode: 'flat', length: 0, width: 0, specialtySurfaces: [rim, crawl] }), pricing({ pricingMode: 'sqft' }), settings);
+    expect(r.baseCost).toBe(120 * rim.pricePerLinearFt + 100 * crawl.pricePerLinearFt + 200 * crawl.floorPricePerSqFt);
+  });
+
+  it('bills their foam as material, not per linear foot, in cost plus mode', () => {
+    const r = calculateEstimate(box({ mode: 'flat', length: 0, width: 0, specialtySurfaces: [rim, crawl] }), pricing({ pricingMode: 'cost_plus' }), settings);
+    expect(r.materialCost).toBeGreaterThan(0);
+    expect(r.baseCost).toBeCloseTo(r.materialCost + r.laborCost);
+  });
+});
+
+describe('yield adjustments', () => {
+  const adjustments = settings.yieldAdjustments;
+
+  it('uses rated yield when no conditions are recorded', () => {
+    expect(yieldAdjustmentFor(undefined, adjustments)).toEqual({ factor: 1, reasons: [] });
+    expect(yieldAdjustmentFor({ ambientTempF: 75, humidityPct: 50, substrate: 'wood' }, adjustments).factor).toBe(1);
+  });
+
+  it('multiplies temperature, humidity, substrate and rig factors', () => {
+    const adj = yieldAdjustmentFor({ ambientTempF: 45, humidityPct: 85, substrate: 'concrete', rigName: 'Rig 2', rigYieldFactorPct: 95 }, adjustments);
+    expect(adj.factor).toBeCloseTo(0.8 * 0.93 * 0.9 * 0.95, 9);
+    expect(adj.reasons).toEqual(['45°F: 80%', '85% humidity: 93%', 'concrete substrate: 90%', 'Rig 2: 95%']);
+  });
+
+  it('falls back to the coldest band below the table', () => {
+    expect(yieldAdjustmentFor({ ambientTempF: -200, humidityPct: null, substrate: 'wood' }, adjustments).factor).toBe(0.7);
+  });
+
+  it('orders more sets when yield drops', () => {
+    const r = calculateMaterials(box({ mode: 'flat', length: 20, width: 30, yieldConditions: { ambientTempF: 45, humidityPct: null, substrate: 'wood' } }), settings);
+    expect(r.totalBFOpen).toBe(3300);
+    expect(r.setsOpen).toBeCloseTo(3300 / (settings.openCellYield * 0.8), 2);
+  });
+});
+
+describe('calculateEstimate — pricing', () => {
+  it('prices cost plus from sets, labor, extras and tax', () => {
+    const r = calculateEstimate(box({ mode: 'walls', length: 100, wallHeight: 8, wallFoamType: FoamType.CLOSED_CELL, wallThickness: 2 }), pricing({
+      laborHours: 10,
+      tripCharge: 150,
+      miscItems: [{ id: 'm', description: 'Tape', quantity: 2, unit: 'Each', unitPrice: 25, total: 50 }],
+    }), settings);
+    expect(r.materialCost).toBeCloseTo(0.4 * 2600, 6);
+    expect(r.laborCost).toBe(850);
+    expect(r.baseCost).toBeCloseTo(1040 + 850, 6);
+    expect(r.subtotal).toBeCloseTo(1890 + 150 + 50, 6);
+    expect(r.tax).toBeCloseTo(2090 * 0.075, 6);
+    expect(r.total).toBeCloseTo(2090 * 1.075, 6);
+  });
+
+  it('prices by square foot of wall and roof', () => {
+    const r = calculateEstimate(box(), pricing({ pricingMode: 'sqft', pricePerSqFtWall: 1.5, pricePerSqFtRoof: 2 }), settings);
+    expect(r.materialCost).toBe(0);
+    expect(r.laborCost).toBe(0);
+    expect(r.baseCost).toBe(1400 * 1.5 + 1200 * 2);
+    expect(r.total).toBeCloseTo(4500 * 1.075, 6);
+  });
+
+  it('applies no tax when the rate is zero', () => {
+    const r = calculateEstimate(box(), pricing({ pricingMode: 'sqft', pricePerSqFtWall: 1 }), { ...settings, taxRate: 0 });
+    expect(r.tax).toBe(0);
+    expect(r.total).toBe(1400);
+  });
+});
+
+describe('calculateEstimate — margin pricing', () => {
+  const closedWalls = box({ mode: 'walls', length: 100, wallHeight: 8, wallFoamType: FoamType.CLOSED_CELL, wallThickness: 2 });
+  const cost = 0.4 * 2600 + 10 * 85;
+
+  it('prices to a target gross margin', () => {
+    const r = calculateEstimate(closedWalls, pricing({
+      pricingMode: 'margin',
+      laborHours: 10,
+      margin: { strategy: 'margin', targetMarginPct: 40, materialMarkupPct: 0, laborMarkupPct: 0 },
+    }), settings);
+    expect(r.jobCost).toBeCloseTo(cost, 6);
+    expect(r.baseCost).toBeCloseTo(cost / 0.6, 6);
+    expect(r.marginPct).toBeCloseTo(40, 6);
+    expect(r.profit).toBeCloseTo(cost / 0.6 - cost, 6);
+  });
+
+  it('marks material and labor up separately', () => {
+    const r = calculateEstimate(closedWalls, pricing({
+      pricingMode: 'margin',
+      laborHours: 10,
+      margin: { strategy: 'markup', targetMarginPct: 0, materialMarkupPct: 50, laborMarkupPct: 20 },
+    }), settings);
+    expect(r.materialPrice).toBeCloseTo(1040 * 1.5, 6);
+    expect(r.laborPrice).toBeCloseTo(850 * 1.2, 6);
+    expect(r.baseCost).toBeCloseTo(1560 + 1020, 6);
+  });
+
+  it('reports zero profit for plain cost plus', () => {
+    const r = calculateEstimate(closedWalls, pricing({ laborHours: 10 }), settings);
+    expect(r.profit).toBeCloseTo(0, 6);
+    expect(r.marginPct).toBeCloseTo(0, 6);
+  });
+});
+
+describe('resolveCalcMode', () => {
+  it('infers the tab for estimates saved without a mode', () => {
+    expect(resolveCalcMode(box({ mode: undefined }))).toBe('building');
+    expect(resolveCalcMode(box({ mode: undefined, wallHeight: 0 }))).toBe('flat');
+    expect(resolveCalcMode(box({ mode: undefined, width: 0 }))).toBe('walls');
+  });
+});
+
+describe('planApplication — closed cell lifts', () => {
+  it('splits a thickness into lifts no deeper than the max pass', () => {
+    expect(splitIntoLifts(5, 2)).toEqual([2, 2, 1]);
+    expect(splitIntoLifts(2, 2)).toEqual([2]);
+    expect(splitIntoLifts(0, 2)).toEqual([]);
+  });
+
+  it('plans only closed cell surfaces and sizes the cure wait on the deepest one', () => {
+    const plan = planApplication(box({ roofFoamType: FoamType.CLOSED_CELL, roofThickness: 5 }), settings);
+    expect(plan.surfaces).toHaveLength(1);
+    expect(plan.surfaces[0].label).toBe('Roof');
+    expect(plan.maxPasses).toBe(3);
+    expect(plan.cureWaitHours).toBeCloseTo((2 * settings.closedCellCureMinutes) / 60, 6);
+  });
+
+  it('honors a per-estimate max pass override', () => {
+    const plan = planApplication(box({ mode: 'walls', wallFoamType: FoamType.CLOSED_CELL, wallThickness: 3, maxPassThickness: 1.5 }), settings);
+    expect(plan.surfaces[0].lifts).toEqual([1.5, 1.5]);
+    expect(plan.totalPasses).toBe(2);
+  });
+});
+
+describe('R-value targets', () => {
+  it('rounds the derived thickness up to the next quarter inch', () => {
+    expect(thicknessForRValue(13, FoamType.CLOSED_CELL, settings)).toBe(2);
+    expect(thicknessForRValue(21, FoamType.CLOSED_CELL, settings)).toBe(3.25);
+    expect(thicknessForRValue(38, FoamType.OPEN_CELL, settings)).toBe(10.5);
+  });
+
+  it('derives section thicknesses from targets in R-value mode only', () => {
+    const cd = box({
+      thicknessMode: 'r_value',
+      sections: [{ id: 'a', name: 'House', length: 40, width: 30, wallHeight: 10, roofPitch: 0, isGable: false, wallFoamType: FoamType.CLOSED_CELL, wallThickness: 1, wallTargetR: 13, roofFoamType: FoamType.OPEN_CELL, roofThickness: 1, roofTargetR: 38 }],
+    });
+    const applied = applyRValueTargets(cd, settings);
+    expect(applied.sections![0].wallThickness).toBe(2);
+    expect(applied.sections![0].roofThickness).toBe(10.5);
+    const inches = { ...cd, thicknessMode: 'inches' as const };
+    expect(applyRValueTargets(inches, settings)).toBe(inches);
+  });
+
+  it('reports the achieved R-value per surface', () => {
+    const r = calculateRValues(box({ mode: 'walls', wallFoamType: FoamType.CLOSED_CELL, wallThickness: 2 }), settings);
+    expect(r).toEqual([{ label: 'Walls', foamType: FoamType.CLOSED_CELL, thickness: 2, rValue: 13 }]);
+  });
+});
+
+describe('suggestLaborHours', () => {
+  it('adds spray time, cure wait and setup, then multiplies by the crew', () => {
+    const r = suggestLaborHours(
+      { totalBFOpen: settings.openCellProductionRate * 3, totalBFClosed: settings.closedCellProductionRate },
+      { cureWaitHours: 0.5 },
+      settings,
+      2
+    );
+    expect(r.sprayHours).toBe(4);
+    expect(r.suggestedHours).toBe((4 + 0.5 + settings.setupCleanupHours) * 2);
+  });
+
+  it('rounds up to the half hour and suggests nothing for an empty job', () => {
+    expect(suggestLaborHours({ totalBFOpen: settings.openCellProductionRate * 0.1, totalBFClosed: 0 }, { cureWaitHours: 0 }, { ...settings, setupCleanupHours: 0 }, 1).suggestedHours).toBe(0.5);
+    expect(suggestLaborHours({ totalBFOpen: 0, totalBFClosed: 0 }, { cureWaitHours: 1 }, settings, 2).suggestedHours).toBe(0);
+  });
+});
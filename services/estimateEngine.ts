@@ -0,0 +1,477 @@
+import { AppSettings, BuildingSection, CalculationData, CalculatorMode, FoamLayer, FoamType, JobItem, LaborEstimate, MarginPricing, PricingMode, SpecialtySurface, SurfaceRValue, YieldAdjustments, YieldConditions } from '../types';
+import { computeSectionGeometry, resolveRoofType } from './roofGeometry';
+import { totalRoomArea } from './takeoff';
+
+// ============================================================
+// Pure estimating engine — geometry, board feet, sets & pricing.
+// No React / Supabase here so anything can recompute an estimate.
+// ============================================================
+
+export interface PricingInputs {
+  pricingMode: PricingMode;
+  pricePerSqFtWall: number;
+  pricePerSqFtRoof: number;
+  laborHours: number;
+  tripCharge: number;
+  miscItems: JobItem[];
+  margin?: MarginPricing; // Required for 'margin' pricing mode
+}
+
+export interface MaterialResults {
+  wallArea: number; // Net of openings
+  roofArea: number;
+  openingDeduction: number;
+  specialtyArea: number; // Rim joist & crawlspace sq ft (not in wall/roof area)
+  totalBFOpen: number; // Includes waste
+  totalBFClosed: number;
+  setsOpen: number; // At the adjusted yield
+  setsClosed: number;
+  yieldAdjustment: YieldAdjustment;
+}
+
+export interface YieldAdjustment {
+  factor: number; // Multiplier on rated set yield (0.8 = 20% fewer board feet per set)
+  reasons: string[]; // Only the conditions that changed the yield, e.g. "45°F: 80%"
+}
+
+export interface EstimateResults extends MaterialResults {
+  baseCost: number; // Material + Labor OR SQFT Total
+  materialCost: number; // For internal tracking in Cost Plus / Margin
+  laborCost: number; // For internal tracking in Cost Plus / Margin
+  materialPrice: number; // What the customer pays for material (cost + markup)
+  laborPrice: number;
+  subtotal: number;
+  tax: number;
+  total: number;
+  // Internal only — never put these on a customer document
+  jobCost: number; // Material + labor at cost, whatever the pricing mode
+  profit: number; // baseCost - jobCost
+  marginPct: number; // profit / baseCost
+}
+
+/** Sell-price multipliers for material and labor under margin pricing */
+export const marginMultipliers = (margin: MarginPricing): { material: number; labor: number } => {
+  if (margin.strategy === 'markup') {
+    return { material: 1 + margin.materialMarkupPct / 100, labor: 1 + margin.laborMarkupPct / 100 };
+  }
+  // Gross margin: price = cost / (1 - margin). Capped below 100% so the price stays finite.
+  const m = Math.min(Math.max(margin.targetMarginPct, 0), 99) / 100;
+  return { material: 1 / (1 - m), labor: 1 / (1 - m) };
+};
+
+/** Older estimates didn't store the calculator tab — infer it from the dimensions */
+export const resolveCalcMode = (cd: CalculationData): CalculatorMode => {
+  if (cd.mode) return cd.mode;
+  if (cd.sections && cd.sections.length > 0) return 'building';
+  if (cd.rooms && cd.rooms.length > 0) return 'flat';
+  if (cd.wallHeight > 0 && cd.width > 0) return 'building';
+  if (cd.wallHeight === 0 && cd.width > 0) return 'flat';
+  return 'walls';
+};
+
+/** Legacy estimates only stored one box — convert it to a single section */
+export const sectionsFromCalcData = (cd: CalculationData): BuildingSection[] => {
+  if (cd.sections && cd.sections.length > 0) return cd.sections;
+  return [{
+    id: 'main',
+    name: 'Main Building',
+    length: cd.length || 0,
+    width: cd.width || 0,
+    wallHeight: cd.wallHeight || 8,
+    roofPitch: cd.roofPitch || 0,
+    isGable: cd.isGable ?? true,
+    roofType: resolveRoofType({ roofType: cd.roofType, isGable: cd.isGable ?? true }),
+    wallFoamType: cd.wallFoamType || FoamType.OPEN_CELL,
+    wallThickness: cd.wallThickness || 3.5,
+    roofFoamType: cd.roofFoamType || FoamType.OPEN_CELL,
+    roofThickness: cd.roofThickness || 5.5,
+  }];
+};
+
+/** A surface's foam stack — a plain single-foam spec is a one-layer stack */
+export const surfaceLayers = (foamType: FoamType, thickness: number, layers?: FoamLayer[]): FoamLayer[] =>
+  layers && layers.length > 0 ? layers : [{ foamType, thickness }];
+
+/** Single-foam fields that mirror a stack for older readers: first layer's type, total thickness */
+export const mirrorLayers = (layers: FoamLayer[]): { foamType: FoamType; thickness: number } => ({
+  foamType: layers[0]?.foamType || FoamType.OPEN_CELL,
+  thickness: layers.reduce((acc, l) => acc + l.thickness, 0),
+});
+
+// --- Yield adjustments ---
+
+/** Combined derating for the job's site conditions and rig — the factors multiply */
+export const yieldAdjustmentFor = (conditions: YieldConditions | undefined, adjustments: YieldAdjustments): YieldAdjustment => {
+  if (!conditions) return { factor: 1, reasons: [] };
+  const applied: { label: string; pct: number }[] = [];
+
+  if (conditions.ambientTempF != null) {
+    const bands = [...adjustments.temperatureBands].sort((a, b) => b.minTempF - a.minTempF);
+    // Colder than every band: use the coldest one
+    const band = bands.find(b => conditions.ambientTempF! >= b.minTempF) ?? bands[bands.length - 1];
+    if (band) applied.push({ label: `${conditions.ambientTempF}°F`, pct: band.factorPct });
+  }
+  if (conditions.humidityPct != null && conditions.humidityPct > adjustments.humidityThresholdPct) {
+    applied.push({ label: `${conditions.humidityPct}% humidity`, pct: adjustments.highHumidityFactorPct });
+  }
+  const substratePct = adjustments.substrateFactors[conditions.substrate];
+  if (substratePct != null) applied.push({ label: `${conditions.substrate} substrate`, pct: substratePct });
+  if (conditions.rigYieldFactorPct != null) applied.push({ label: conditions.rigName || 'Rig', pct: conditions.rigYieldFactorPct });
+
+  const effective = applied.filter(a => a.pct > 0 && a.pct !== 100);
+  return {
+    factor: effective.reduce((acc, a) => acc * (a.pct / 100), 1),
+    reasons: effective.map(a => `${a.label}: ${a.pct}%`),
+  };
+};
+
+// --- Rim joist & crawlspace ---
+
+/** Sprayed sq ft: rim joists are run x joist depth, crawlspaces are perimeter x wall height plus any floor */
+export const specialtySurfaceArea = (surface: SpecialtySurface): number => surface.kind === 'rim_joist'
+  ? surface.linearFeet * (surface.joistDepth / 12)
+  : surface.linearFeet * surface.wallHeight + surface.floorArea;
+
+/** Sq ft pricing for a specialty surface: by the linear foot, plus the crawlspace floor by the sq ft */
+export const specialtySurfacePrice = (surface: SpecialtySurface): number =>
+  surface.linearFeet * surface.pricePerLinearFt + (surface.kind === 'crawlspace' ? surface.floorArea * surface.floorPricePerSqFt : 0);
+
+/** Areas, board feet and sets for a calc snapshot */
+export const calculateMaterials = (cd: CalculationData, settings: AppSettings): MaterialResults => {
+  const mode = resolveCalcMode(cd);
+  const openings = cd.openings || [];
+  let wArea = 0;
+  let rArea = 0;
+  let openingDeduction = 0;
+  let bfOpen = 0;
+  let bfClosed = 0;
+
+  // Board feet (with waste) are bucketed by foam type for material ordering
+  const wasteMult = 1 + ((cd.wastePct || 0) / 100);
+  const addBoardFeet = (foamType: FoamType, boardFeet: number) => {
+    if (foamType === FoamType.OPEN_CELL) bfOpen += boardFeet * wasteMult; else bfClosed += boardFeet * wasteMult;
+  };
+  // Each layer of a hybrid stack goes to its own foam's totals
+  const sprayArea = (area: number, layers: FoamLayer[]) => {
+    layers.forEach(layer => addBoardFeet(layer.foamType, area * layer.thickness));
+  };
+
+  if (mode === 'building') {
+    const sections = sectionsFromCalcData(cd);
+
+    // Opening area (sq ft) for a section — openings without a valid section fall back to the first one
+    const openingAreaFor = (sectionId: string) => openings
+      .filter(o => (sections.some(s => s.id === o.sectionId) ? o.sectionId : sections[0]?.id) === sectionId)
+      .reduce((acc, o) => acc + o.width * o.height * o.count, 0);
+
+    // Each section is its own box model with its own foam spec
+    sections.forEach(section => {
+      const geometry = computeSectionGeometry(section);
+      let sectionWallArea = geometry.sideWallArea + geometry.endWallArea;
+
+      // Deduct openings (never more than the wall itself)
+      const sectionDeduction = Math.min(openingAreaFor(section.id), sectionWallArea);
+      sectionWallArea -= sectionDeduction;
+      openingDeduction += sectionDeduction;
+
+      wArea += sectionWallArea;
+      rArea += geometry.roofArea;
+      sprayArea(sectionWallArea, surfaceLayers(section.wallFoamType, section.wallThickness, section.wallLayers));
+      sprayArea(geometry.roofArea, surfaceLayers(section.roofFoamType, section.roofThickness, section.roofLayers));
+    });
+  } else if (mode === 'walls') {
+    wArea = cd.length * cd.wallHeight; // Here Length is linear footage
+    const openingArea = openings.reduce((acc, o) => acc + o.width * o.height * o.count, 0);
+    openingDeduction = Math.min(openingArea, wArea);
+    wArea -= openingDeduction;
+    sprayArea(wArea, surfaceLayers(cd.wallFoamType, cd.wallThickness, cd.wallLayers));
+  } else {
+    // Treat flat area as "Roof/Ceiling" logic; a room takeoff replaces the single box
+    rArea = cd.rooms && cd.rooms.length > 0 ? totalRoomArea(cd.rooms) : cd.length * cd.width;
+    sprayArea(rArea, surfaceLayers(cd.roofFoamType, cd.roofThickness, cd.roofLayers));
+  }
+
+  // Rim joists & crawlspaces ride along with whichever takeoff is active
+  let specialtyArea = 0;
+  (cd.specialtySurfaces || []).forEach(surface => {
+    const area = specialtySurfaceArea(surface);
+    specialtyArea += area;
+    sprayArea(area, [{ foamType: surface.foamType, thickness: surface.thickness }]);
+  });
+
+  // Cold, damp or hard-to-spray conditions mean fewer board feet per set, so more sets
+  const yieldAdjustment = yieldAdjustmentFor(cd.yieldConditions, settings.yieldAdjustments);
+
+  // Round sets to 2 decimal places to ensure clean outputs
+  const setsOpen = bfOpen > 0 ? Number((bfOpen / (settings.openCellYield * yieldAdjustment.factor)).toFixed(2)) : 0;
+  const setsClosed = bfClosed > 0 ? Number((bfClosed / (settings.closedCellYield * yieldAdjustment.factor)).toFixed(2)) : 0;
+
+  return {
+    wallArea: wArea,
+    roofArea: rArea,
+    openingDeduction,
+    specialtyArea,
+    totalBFOpen: bfOpen,
+    totalBFClosed: bfClosed,
+    setsOpen,
+    setsClosed,
+    yieldAdjustment,
+  };
+};
+
+/** Full estimate: materials plus pricing, extras and tax */
+export const calculateEstimate = (
+  cd: CalculationData,
+  pricing: PricingInputs,
+  settings: AppSettings
+): EstimateResults => {
+  const materials = calculateMaterials(cd, settings);
+
+  let basePrice = 0;
+  let matCost = 0;
+  let labCost = 0;
+  let matPrice = 0;
+  let labPrice = 0;
+
+  const costMaterial = (materials.setsOpen * settings.openCellCost) + (materials.setsClosed * settings.closedCellCost);
+  const costLabor = pricing.laborHours * settings.laborRate;
+
+  // Only sq ft pricing uses the specialty surfaces' linear-foot prices; cost plus and margin
+  // bill their foam through the material sets like any other surface
+  if (pricing.pricingMode === 'cost_plus') {
+    matCost = matPrice = costMaterial;
+    labCost = labPrice = costLabor;
+    basePrice = matCost + labCost;
+  } else if (pricing.pricingMode === 'margin') {
+    const mult = marginMultipliers(pricing.margin ?? { strategy: 'margin', targetMarginPct: 0, materialMarkupPct: 0, laborMarkupPct: 0 });
+    matCost = costMaterial;
+    labCost = costLabor;
+    matPrice = matCost * mult.material;
+    labPrice = labCost * mult.labor;
+    basePrice = matPrice + labPrice;
+  } else {
+    const wallPrice = materials.wallArea * pricing.pricePerSqFtWall;
+    const roofPrice = materials.roofArea * pricing.pricePerSqFtRoof;
+    const specialtyPrice = (cd.specialtySurfaces || []).reduce((acc, s) => acc + specialtySurfacePrice(s), 0);
+    basePrice = wallPrice + roofPrice + specialtyPrice;
+  }
+
+  const miscCost = pricing.miscItems.reduce((acc, item) => acc + item.total, 0);
+  const sub = basePrice + pricing.tripCharge + miscCost;
+  const tax = sub * (settings.taxRate / 100);
+
+  // Trip charge and misc items are passed through, so profit is measured on the base price
+  const jobCost = costMaterial + costLabor;
+  const profit = basePrice - jobCost;
+
+  return {
+    ...materials,
+    baseCost: basePrice,
+    materialCost: matCost,
+    laborCost: labCost,
+    materialPrice: matPrice,
+    laborPrice: labPrice,
+    jobCost,
+    profit,
+    marginPct: basePrice > 0 ? (profit / basePrice) * 100 : 0,
+    subtotal: sub,
+    tax,
+    total: sub + tax,
+  };
+};
+
+// --- Sprayed surfaces ---
+
+interface SprayedSurface {
+  label: string;
+  layers: FoamLayer[];
+}
+
+/** Every foam spec in the snapshot, labelled per section when there's more than one */
+const listSurfaces = (cd: CalculationData): SprayedSurface[] => {
+  const specialty = (cd.specialtySurfaces || []).map(s => ({ label: s.label, layers: [{ foamType: s.foamType, thickness: s.thickness }] }));
+  const mode = resolveCalcMode(cd);
+  if (mode === 'walls') return [{ label: 'Walls', layers: surfaceLayers(cd.wallFoamType, cd.wallThickness, cd.wallLayers) }, ...specialty];
+  if (mode === 'flat') return [{ label: 'Flat Area', layers: surfaceLayers(cd.roofFoamType, cd.roofThickness, cd.roofLayers) }, ...specialty];
+
+  const sections = sectionsFromCalcData(cd);
+  return [
+    ...sections.flatMap(section => {
+      const prefix = sections.length > 1 ? `${section.name} ` : '';
+      return [
+        { label: `${prefix}Walls`, layers: surfaceLayers(section.wallFoamType, section.wallThickness, section.wallLayers) },
+        { label: `${prefix}Roof`, layers: surfaceLayers(section.roofFoamType, section.roofThickness, section.roofLayers) },
+      ];
+    }),
+    ...specialty,
+  ];
+};
+
+// --- R-value targets ---
+
+export const rPerInchFor = (foamType: FoamType, settings: AppSettings): number =>
+  foamType === FoamType.CLOSED_CELL ? settings.closedCellRPerInch : settings.openCellRPerInch;
+
+/** Thickness needed to reach a target R-value, rounded up to the next 1/4" so the target is met */
+export const thicknessForRValue = (targetR: number, foamType: FoamType, settings: AppSettings): number => {
+  const rPerInch = rPerInchFor(foamType, settings);
+  if (targetR <= 0 || rPerInch <= 0) return 0;
+  return Math.ceil((targetR / rPerInch) * 4 - 1e-9) / 4;
+};
+
+/**
+ * Thickness (and stack) that meets a target R-value. On a hybrid stack the earlier layers are
+ * kept as entered and only the last (fill) layer is sized to make up the difference.
+ */
+const applyTargetToSurface = (
+  targetR: number | undefined,
+  foamType: FoamType,
+  thickness: number,
+  layers: FoamLayer[] | undefined,
+  settings: AppSettings
+): { thickness: number; layers?: FoamLayer[] } => {
+  if (targetR == null) return { thickness, layers };
+  if (!layers || layers.length === 0) return { thickness: thicknessForRValue(targetR, foamType, settings), layers };
+
+  const fixed = layers.slice(0, -1);
+  const fill = layers[layers.length - 1];
+  const fixedR = fixed.reduce((acc, l) => acc + l.thickness * rPerInchFor(l.foamType, settings), 0);
+  const sized = [...fixed, { ...fill, thickness: thicknessForRValue(Math.max(targetR - fixedR, 0), fill.foamType, settings) }];
+  return { thickness: mirrorLayers(sized).thickness, layers: sized };
+};
+
+/** In R-value mode, replace every thickness with the one derived from its target */
+export const applyRValueTargets = (cd: CalculationData, settings: AppSettings): CalculationData => {
+  if (cd.thicknessMode !== 'r_value') return cd;
+
+  const wall = applyTargetToSurface(cd.wallTargetR, cd.wallFoamType, cd.wallThickness, cd.wallLayers, settings);
+  const roof = applyTargetToSurface(cd.roofTargetR, cd.roofFoamType, cd.roofThickness, cd.roofLayers, settings);
+  return {
+    ...cd,
+    wallThickness: wall.thickness,
+    roofThickness: roof.thickness,
+    ...(wall.layers && { wallLayers: wall.layers }),
+    ...(roof.layers && { roofLayers: roof.layers }),
+    ...(cd.sections && {
+      sections: cd.sections.map(s => {
+        const sWall = applyTargetToSurface(s.wallTargetR, s.wallFoamType, s.wallThickness, s.wallLayers, settings);
+        const sRoof = applyTargetToSurface(s.roofTargetR, s.roofFoamType, s.roofThickness, s.roofLayers, settings);
+        return {
+          ...s,
+          wallThickness: sWall.thickness,
+          roofThickness: sRoof.thickness,
+          ...(sWall.layers && { wallLayers: sWall.layers }),
+          ...(sRoof.layers && { roofLayers: sRoof.layers }),
+        };
+      }),
+    }),
+  };
+};
+
+/** R-value each sprayed surface actually gets, summed over its layers */
+export const calculateRValues = (cd: CalculationData, settings: AppSettings): SurfaceRValue[] =>
+  listSurfaces(cd)
+    .map(s => {
+      const layers = s.layers.filter(l => l.thickness > 0);
+      const rValue = layers.reduce((acc, l) => acc + l.thickness * rPerInchFor(l.foamType, settings), 0);
+      return {
+        label: s.label,
+        foamType: layers[0]?.foamType || FoamType.OPEN_CELL,
+        thickness: mirrorLayers(layers).thickness,
+        ...(layers.length > 1 && { layers }),
+        rValue: Number(rValue.toFixed(1)),
+      };
+    })
+    .filter(s => s.thickness > 0);
+
+/** "1" Closed Cell + 4" Open Cell" */
+export const describeLayers = (layers: FoamLayer[]): string =>
+  layers.map(l => `${l.thickness}" ${l.foamType}`).join(' + ');
+
+/** One line per surface, e.g. "Walls: R-13 (2" Closed Cell)" */
+export const describeRValues = (rValues: SurfaceRValue[]): string[] =>
+  rValues.map(r => `${r.label}: R-${r.rValue} (${describeLayers(r.layers || [{ foamType: r.foamType, thickness: r.thickness }])})`);
+
+// --- Closed cell lift planning ---
+
+export interface SurfaceLiftPlan {
+  label: string;
+  thickness: number;
+  lifts: number[]; // Inches sprayed on each pass
+}
+
+export interface ApplicationPlan {
+  maxPassThickness: number;
+  surfaces: SurfaceLiftPlan[];
+  maxPasses: number; // Most passes needed on any one surface
+  totalPasses: number;
+  cureWaitHours: number; // Cool-down between lifts on the deepest surface
+}
+
+/** Break a thickness into equal-or-smaller lifts, e.g. 5" at 2" max -> [2, 2, 1] */
+export const splitIntoLifts = (thickness: number, maxPerPass: number): number[] => {
+  if (thickness <= 0) return [];
+  if (maxPerPass <= 0) return [thickness];
+  const lifts: number[] = [];
+  let remaining = thickness;
+  while (remaining > 1e-9) {
+    const pass = Math.min(maxPerPass, remaining);
+    lifts.push(Number(pass.toFixed(2)));
+    remaining -= pass;
+  }
+  return lifts;
+};
+
+/** Closed cell can't go on in one shot — plan the passes and cure time per surface */
+export const planApplication = (cd: CalculationData, settings: AppSettings): ApplicationPlan => {
+  const maxPassThickness = cd.maxPassThickness || settings.closedCellMaxPass;
+  // Only the closed cell part of a hybrid stack needs lifts
+  const surfaces: SurfaceLiftPlan[] = listSurfaces(cd)
+    .map(s => ({
+      label: s.label,
+      thickness: s.layers.filter(l => l.foamType === FoamType.CLOSED_CELL).reduce((acc, l) => acc + l.thickness, 0),
+    }))
+    .filter(s => s.thickness > 0)
+    .map(s => ({ ...s, lifts: splitIntoLifts(s.thickness, maxPassThickness) }));
+
+  const maxPasses = surfaces.reduce((acc, s) => Math.max(acc, s.lifts.length), 0);
+  const totalPasses = surfaces.reduce((acc, s) => acc + s.lifts.length, 0);
+  const cureWaitHours = maxPasses > 1 ? ((maxPasses - 1) * settings.closedCellCureMinutes) / 60 : 0;
+
+  return { maxPassThickness, surfaces, maxPasses, totalPasses, cureWaitHours };
+};
+
+/** One line per closed cell surface, e.g. "Walls: 5" in 3 lifts (2" + 2" + 1")" */
+export const describeApplicationPlan = (plan: ApplicationPlan): string[] =>
+  plan.surfaces.map(s =>
+    `${s.label}: ${s.thickness}" in ${s.lifts.length} lift${s.lifts.length === 1 ? '' : 's'} (${s.lifts.map(l => `${l}"`).join(' + ')})`
+  );
+
+// --- Labor suggestion ---
+
+/**
+ * Crew man-hours from production rates: rig time spraying each foam, waiting on closed cell
+ * lifts and setting up / cleaning up, times the crew on the rig. Rounded up to the half hour.
+ */
+export const suggestLaborHours = (
+  materials: Pick<MaterialResults, 'totalBFOpen' | 'totalBFClosed'>,
+  plan: Pick<ApplicationPlan, 'cureWaitHours'>,
+  settings: AppSettings,
+  crewSize: number
+): Omit<LaborEstimate, 'overrideHours'> => {
+  const rate = (boardFeet: number, bfPerHour: number) => (boardFeet > 0 && bfPerHour > 0 ? boardFeet / bfPerHour : 0);
+  const sprayHours = rate(materials.totalBFOpen, settings.openCellProductionRate) + rate(materials.totalBFClosed, settings.closedCellProductionRate);
+  const hasWork = sprayHours > 0;
+  const setupHours = hasWork ? settings.setupCleanupHours : 0;
+  const cureWaitHours = hasWork ? plan.cureWaitHours : 0;
+  const crew = Math.max(1, crewSize || 1);
+  const suggestedHours = Math.ceil((sprayHours + cureWaitHours + setupHours) * crew * 2) / 2;
+
+  return {
+    suggestedHours,
+    crewSize: crew,
+    sprayHours: Number(sprayHours.toFixed(2)),
+    cureWaitHours,
+    setupHours,
+  };
+};
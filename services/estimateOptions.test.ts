@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, EstimateOption, FoamType, JobStatus } from '../types';
+import { applyEstimateOption, defaultOptionName, optionToOpen, pickPricedSnapshot, updateOptionPricing } from './estimateOptions';
+
+const calcData = (wallThickness: number) => ({
+  mode: 'walls' as const, length: 100, width: 0, wallHeight: 8, roofPitch: 0, isGable: false,
+  wallFoamType: FoamType.OPEN_CELL, wallThickness, roofFoamType: FoamType.OPEN_CELL, roofThickness: 0, wastePct: 0,
+});
+
+const option = (id: string, name: string, total: number, setsOpen: number): EstimateOption => ({
+  id, name, calcData: calcData(setsOpen * 10), pricingMode: 'cost_plus',
+  totalBoardFeetOpen: setsOpen * 16000, totalBoardFeetClosed: 0, setsRequiredOpen: setsOpen, setsRequiredClosed: 0,
+  items: [{ id: '1', description: 'Spray Foam Material', quantity: 1, unit: 'Lot', unitPrice: total, total }],
+  subtotal: total, tax: 0, total,
+});
+
+const { id: _id, name: _name, ...draftPricing } = option('draft', 'Draft', 100, 0.1);
+
+const estimate: Estimate = {
+  ...draftPricing,
+  id: 'e1', number: 'EST-1', customerId: 'c1', date: '2026-01-01', status: JobStatus.DRAFT, jobName: 'Attic',
+  options: [option('a', 'Good', 1000, 0.5), option('b', 'Best', 3000, 1.5)],
+};
+
+describe('applyEstimateOption', () => {
+  it('copies the picked option onto the estimate so inventory uses its sets', () => {
+    const picked = applyEstimateOption(estimate, 'b');
+    expect(picked.selectedOptionId).toBe('b');
+    expect(picked.total).toBe(3000);
+    expect(picked.setsRequiredOpen).toBe(1.5);
+    expect(picked.items[0].total).toBe(3000);
+    expect(picked.options).toHaveLength(2);
+    expect(picked.jobName).toBe('Attic');
+  });
+
+  it('leaves the estimate alone for an unknown option', () => {
+    expect(applyEstimateOption(estimate, 'zzz')).toBe(estimate);
+  });
+});
+
+describe('re-saving from the calculator', () => {
+  // Open the estimate, rebuild the open option's snapshot unchanged, and save it back
+  const resave = (saved: Estimate): Estimate => {
+    const open = optionToOpen(saved)!;
+    const snapshot = pickPricedSnapshot(open);
+    const draft = { ...saved, ...snapshot, options: updateOptionPricing(saved.options!, open.id, snapshot) };
+    return saved.selectedOptionId ? applyEstimateOption(draft, saved.selectedOptionId) : draft;
+  };
+
+  it('leaves every option and the picked pricing unchanged', () => {
+    const picked = applyEstimateOption(estimate, 'b');
+    const resaved = resave(picked);
+    expect(resaved.options).toEqual(estimate.options);
+    expect(pickPricedSnapshot(resaved)).toEqual(pickPricedSnapshot(estimate.options![1]));
+  });
+
+  it('opens on the first option when none is picked, without copying the estimate\'s own pricing into it', () => {
+    expect(optionToOpen(estimate)?.id).toBe('a');
+    expect(resave(estimate).options).toEqual(estimate.options);
+  });
+});
+
+describe('defaultOptionName', () => {
+  it('names the first three tiers and numbers the rest', () => {
+    expect([0, 1, 2, 3].map(defaultOptionName)).toEqual(['Good', 'Better', 'Best', 'Option 4']);
+  });
+});
@@ -0,0 +1,51 @@
+import { Estimate, EstimateOption, PricedSnapshot } from '../types';
+
+// ============================================================
+// Good / Better / Best options on a single estimate
+// ============================================================
+
+/** Default names for the first three options */
+export const OPTION_TIER_NAMES = ['Good', 'Better', 'Best'];
+
+export const defaultOptionName = (index: number): string => OPTION_TIER_NAMES[index] || `Option ${index + 1}`;
+
+/** The priced fields of an estimate (or option), without identity or job info */
+export const pickPricedSnapshot = (source: PricedSnapshot): PricedSnapshot => ({
+  calcData: source.calcData,
+  pricingMode: source.pricingMode,
+  pricePerSqFtWall: source.pricePerSqFtWall,
+  pricePerSqFtRoof: source.pricePerSqFtRoof,
+  marginPricing: source.marginPricing,
+  jobCost: source.jobCost,
+  totalBoardFeetOpen: source.totalBoardFeetOpen,
+  totalBoardFeetClosed: source.totalBoardFeetClosed,
+  setsRequiredOpen: source.setsRequiredOpen,
+  setsRequiredClosed: source.setsRequiredClosed,
+  items: source.items,
+  subtotal: source.subtotal,
+  tax: source.tax,
+  total: source.total,
+});
+
+export const hasOptions = (estimate: Estimate): boolean => (estimate.options?.length || 0) > 0;
+
+export const getSelectedOption = (estimate: Estimate): EstimateOption | undefined =>
+  estimate.options?.find(o => o.id === estimate.selectedOptionId);
+
+/**
+ * Make the picked option the estimate's own pricing, so the work order, invoice and
+ * inventory deduction all run off it. The other options are kept for reference.
+ */
+export const applyEstimateOption = (estimate: Estimate, optionId: string): Estimate => {
+  const option = estimate.options?.find(o => o.id === optionId);
+  if (!option) return estimate;
+  return { ...estimate, ...pickPricedSnapshot(option), selectedOptionId: option.id };
+};
+
+/** The option the calculator opens an estimate on: the customer's pick, else the first */
+export const optionToOpen = (estimate: Estimate): EstimateOption | undefined =>
+  getSelectedOption(estimate) || estimate.options?.[0];
+
+/** Options with one of them refreshed from the calculator's snapshot */
+export const updateOptionPricing = (options: EstimateOption[], optionId: string | null, snapshot: PricedSnapshot): EstimateOption[] =>
+  options.map(o => o.id === optionId ? { ...o, ...snapshot } : o);
@@ -1,4 +1,6 @@
 import { supabase } from './supabaseClient';
+import { JobPhotoMeta, PhotoCategory } from '../types';
+import { buildPhotoMeta, currentPosition } from './photos';
 
 const BUCKET_NAME = 'job-photos';
 const MAX_WIDTH = 1200;
@@ -62,27 +64,34 @@ const createThumbnail = (file: File | Blob): Promise<Blob> => {
 };
 
 /**
- * Upload an image to Supabase Storage.
- * Returns the public URL of the uploaded image.
- * Also uploads a smaller thumbnail alongside.
+ * Compress a photo for upload, with its thumbnail.
+ * Done up front so queued photos wait in local storage at their final size.
  */
-export const uploadJobPhoto = async (
-  file: File,
-  userId: string
-): Promise<{ url: string; thumbnailUrl: string }> => {
-  // Compress the image before uploading
-  const compressed = await compressImage(file);
+export const compressJobPhoto = async (file: File | Blob): Promise<{ photo: Blob; thumbnail: Blob }> => {
+  const photo = await compressImage(file);
   const thumbnail = await createThumbnail(file);
+  return { photo, thumbnail };
+};
 
+/**
+ * Upload an already-compressed photo and its thumbnail.
+ * Returns the public URLs; falls back to the full image if the thumbnail fails.
+ */
+export const uploadCompressedPhoto = async (
+  photo: Blob,
+  thumbnail: Blob,
+  fileName: string,
+  userId: string
+): Promise<{ url: string; thumbnailUrl: string }> => {
   const timestamp = Date.now();
-  const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+  const safeName = fileName.replace(/[^a-zA-Z0-9._-]/g, '_');
   const path = `${userId}/${timestamp}_${safeName}`;
   const thumbPath = `${userId}/thumb_${timestamp}_${safeName}`;
 
   // Upload full image
   const { error: uploadError } = await supabase.storage
     .from(BUCKET_NAME)
-    .upload(path, compressed, {
+    .upload(path, photo, {
       contentType: 'image/jpeg',
       upsert: false,
     });
@@ -109,6 +118,48 @@ export const uploadJobPhoto = async (
   };
 };
 
+/**
+ * Upload an image to Supabase Storage.
+ * Returns the public URL of the uploaded image.
+ * Also uploads a smaller thumbnail alongside.
+ */
+export const uploadJobPhoto = async (
+  file: File,
+  userId: string
+): Promise<{ url: string; thumbnailUrl: string }> => {
+  // Compress the image before uploading
+  const { photo, thumbnail } = await compressJobPhoto(file);
+  return uploadCompressedPhoto(photo, thumbnail, file.name, userId);
+};
+
+/**
+ * The signed-in user photos are credited to. Works offline from the saved session.
+ */
+export const currentUploader = async (): Promise<{ userId: string; name?: string }> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) throw new Error('Not authenticated');
+  return {
+    userId: session.user.id,
+    name: session.user.user_metadata?.display_name || session.user.email || undefined,
+  };
+};
+
+/**
+ * Upload a job photo as the signed-in user and record its category, capture time,
+ * device GPS and uploader. Location is looked up while the upload runs.
+ */
+export const uploadJobPhotoWithMeta = async (
+  file: File,
+  category: PhotoCategory
+): Promise<{ url: string; thumbnailUrl: string; meta: JobPhotoMeta }> => {
+  const uploader = await currentUploader();
+  const [result, location] = await Promise.all([
+    uploadJobPhoto(file, uploader.userId),
+    currentPosition(),
+  ]);
+  return { ...result, meta: buildPhotoMeta(result.url, file, category, uploader.name, location) };
+};
+
 /**
  * Delete a photo from Supabase Storage by its public URL.
  */
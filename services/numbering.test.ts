@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { AppSettings, DocumentType, formatDocumentNumber } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { formatEstimateNumber, numberingYear } from './numbering';
+
+const settings = (overrides: Partial<AppSettings> = {}): AppSettings => ({ ...DEFAULT_SETTINGS, ...overrides });
+
+describe('estimate numbering', () => {
+  it('pads the sequence and adds the optional prefix and year', () => {
+    expect(formatEstimateNumber(42, 0, settings())).toBe('EST-0042');
+    expect(formatEstimateNumber(7, 2026, settings({ estimateNumberPrefix: 'RFE-', estimateNumberPadding: 3, estimateNumberYearlyReset: true }))).toBe('EST-RFE-2026-007');
+  });
+
+  it('only buckets by year when yearly reset is on', () => {
+    const date = new Date(2026, 5, 1);
+    expect(numberingYear(settings(), date)).toBe(0);
+    expect(numberingYear(settings({ estimateNumberYearlyReset: true }), date)).toBe(2026);
+  });
+
+  it('shares the base number across document types', () => {
+    const number = formatEstimateNumber(12, 2026, settings({ estimateNumberPrefix: 'RFE', estimateNumberYearlyReset: true }));
+    expect(formatDocumentNumber(number, DocumentType.WORK_ORDER)).toBe('WO-RFE-2026-0012');
+    expect(formatDocumentNumber(number, DocumentType.INVOICE)).toBe('INV-RFE-2026-0012');
+  });
+});
@@ -0,0 +1,19 @@
+import { AppSettings, DocumentType, formatDocumentNumber } from '../types';
+
+// ============================================================
+// Estimate numbers: EST-[prefix-][year-]0042
+// ============================================================
+
+/** Counter bucket for a date — 0 is the single running sequence when numbering never resets */
+export const numberingYear = (settings: AppSettings, date = new Date()): number =>
+  settings.estimateNumberYearlyReset ? date.getFullYear() : 0;
+
+/** The part shared by EST-/WO-/INV- (formatDocumentNumber swaps the leading type) */
+export const formatBaseNumber = (sequence: number, year: number, settings: AppSettings): string => {
+  const prefix = settings.estimateNumberPrefix.trim().replace(/-+$/, '');
+  const padded = String(sequence).padStart(Math.max(1, settings.estimateNumberPadding || 1), '0');
+  return [prefix, year > 0 ? String(year) : '', padded].filter(Boolean).join('-');
+};
+
+export const formatEstimateNumber = (sequence: number, year: number, settings: AppSettings): string =>
+  formatDocumentNumber(formatBaseNumber(sequence, year, settings), DocumentType.ESTIMATE);
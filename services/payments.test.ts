@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, JobStatus, Payment } from '../types';
+import { amountPaid, balanceDue, statusAfterPayments } from './payments';
+import { makeEstimate } from './testFixtures';
+
+const payment = (amount: number): Payment => ({
+  id: String(amount), date: '2026-03-01', amount, method: 'check', recordedAt: '2026-03-01T12:00:00Z',
+});
+
+const estimate = (status: JobStatus, payments?: Payment[]): Estimate => makeEstimate({
+  status,
+  changeOrders: [{
+    id: 'co1', number: 1, date: '2026-02-01', description: 'Garage ceiling', items: [],
+    setsRequiredOpen: 0, setsRequiredClosed: 0, subtotal: 500.1, tax: 0, total: 500.1, status: 'approved',
+  }],
+  payments,
+});
+
+describe('payments', () => {
+  it('owes the contract total, change orders included, less payments', () => {
+    const est = estimate(JobStatus.INVOICED, [payment(1000), payment(0.1)]);
+    expect(amountPaid(est)).toBe(1000.1);
+    expect(balanceDue(est)).toBe(2500);
+  });
+
+  it('moves an invoice to paid only once the balance is covered, and back when it is not', () => {
+    expect(statusAfterPayments(estimate(JobStatus.INVOICED, [payment(1500)]))).toBe(JobStatus.INVOICED);
+    expect(statusAfterPayments(estimate(JobStatus.INVOICED, [payment(1500), payment(2000.1)]))).toBe(JobStatus.PAID);
+    expect(statusAfterPayments(estimate(JobStatus.PAID, [payment(1500)]))).toBe(JobStatus.INVOICED);
+    // Deposits on a work order never close the job before it's invoiced
+    expect(statusAfterPayments(estimate(JobStatus.WORK_ORDER, [payment(5000)]))).toBe(JobStatus.WORK_ORDER);
+  });
+
+  it('treats jobs marked paid before payment tracking as settled', () => {
+    expect(balanceDue(estimate(JobStatus.PAID))).toBe(0);
+    expect(statusAfterPayments(estimate(JobStatus.PAID))).toBe(JobStatus.PAID);
+  });
+});
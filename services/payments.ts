@@ -0,0 +1,32 @@
+import { Estimate, JobStatus } from '../types';
+import { contractTotal } from './changeOrders';
+
+// ============================================================
+// Payments — deposits, progress payments and the balance due
+// ============================================================
+
+// Cents, so a balance of $0.004 left by rounding counts as paid
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+/** Jobs marked PAID before payments were tracked have none on file — treat those as settled */
+const isLegacyPaid = (estimate: Estimate): boolean =>
+  !estimate.payments?.length && (estimate.status === JobStatus.PAID || estimate.status === JobStatus.ARCHIVED);
+
+export const amountPaid = (estimate: Estimate): number =>
+  isLegacyPaid(estimate)
+    ? contractTotal(estimate)
+    : roundCents((estimate.payments || []).reduce((acc, p) => acc + p.amount, 0));
+
+export const balanceDue = (estimate: Estimate): number => roundCents(contractTotal(estimate) - amountPaid(estimate));
+
+export const isPaidInFull = (estimate: Estimate): boolean => balanceDue(estimate) <= 0;
+
+/**
+ * Where the job should sit after its payments changed: an invoice that's covered becomes PAID,
+ * and a PAID job that's short again (payment removed, change order added) goes back to INVOICED.
+ */
+export const statusAfterPayments = (estimate: Estimate): JobStatus => {
+  if (estimate.status === JobStatus.INVOICED && isPaidInFull(estimate)) return JobStatus.PAID;
+  if (estimate.status === JobStatus.PAID && !isPaidInFull(estimate)) return JobStatus.INVOICED;
+  return estimate.status;
+};
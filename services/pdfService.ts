@@ -1,5 +1,13 @@
 import jsPDF from 'jspdf';
-import { AppSettings, Estimate, Customer, JobStatus, DocumentType, statusToDocumentType, formatDocumentNumber } from '../types';
+import { AppSettings, ChangeOrder, Estimate, Customer, JobStatus, DocumentType, statusToDocumentType, formatDocumentNumber } from '../types';
+import { calculateRValues, describeApplicationPlan, describeRValues, planApplication } from './estimateEngine';
+import { describeRooms, totalRoomArea } from './takeoff';
+import { approvedChangeOrders, formatChangeOrderNumber } from './changeOrders';
+import { AGING_BUCKETS, buildAgingReport, emptyAgingTotals } from './receivables';
+import { buildCustomerStatement } from './statements';
+import { currentAcceptance, describeAcceptance } from './acceptance';
+import { beforeAfterPairs, jobPhotos } from './photos';
+import { PAYMENT_METHOD_LABELS, PHOTO_CATEGORY_LABELS } from '../constants';
 
 // ============================================================
 // Types for editable PDF sections
@@ -12,10 +20,55 @@ export interface PDFLineItem {
   total: string;
 }
 
+/** A payment already received, listed on the invoice above the amount due */
+export interface PDFPaymentRow {
+  date: string;
+  description: string; // e.g. "Check #1042"
+  amount: string;
+}
+
+/** One charge or payment on a customer statement */
+export interface PDFStatementRow {
+  date: string;
+  reference: string; // Invoice number
+  description: string;
+  charges: string; // Blank on payment rows
+  payments: string; // Blank on charge rows
+  balance: string; // Running balance
+}
+
+/** One Good/Better/Best row in the estimate's comparison table */
+export interface PDFOptionRow {
+  name: string;
+  specification: string;
+  total: string;
+  selected: boolean;
+}
+
+/** A before/after pair for the invoice's photo page; images are loaded as data URLs before drawing */
+export interface PDFPhotoPair {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeCaption: string;
+  afterCaption: string;
+  beforeImage: string | null;
+  afterImage: string | null;
+}
+
+/** A job photo the builder can add to the appendix; its image is loaded once it's picked */
+export interface PDFAppendixPhoto {
+  url: string;
+  thumbnailUrl: string;
+  label: string; // Photo category
+  caption: string;
+  included: boolean;
+  image: string | null;
+}
+
 export interface PDFDocumentData {
   // Header
   documentType: DocumentType; // Strongly typed enum
-  documentTitle: string; // Display string e.g. "ESTIMATE", "WORK ORDER", "INVOICE"
+  documentTitle: string; // Display string e.g. "ESTIMATE", "WORK ORDER", "INVOICE", "CHANGE ORDER", "STATEMENT"
   documentNumber: string;
   documentDate: string;
 
@@ -37,15 +90,19 @@ export interface PDFDocumentData {
   // Job info
   jobName: string;
   jobAddress: string;
+  openingsNote: string; // Wall area deducted for windows/doors, shown to the customer
+  rValueNote: string; // Achieved R-value per surface, printed on every document type
 
   // Line items
   lineItems: PDFLineItem[];
+  options: PDFOptionRow[]; // Estimate only: replaces the line items when present
 
   // Totals
   subtotal: string;
   taxLabel: string;
   taxAmount: string;
   total: string;
+  payments: PDFPaymentRow[]; // Invoice only: subtracted from the total for the amount due
 
   // Footer
   notes: string;
@@ -58,6 +115,19 @@ export interface PDFDocumentData {
   paymentTerms: string; // Invoice: net-30, etc.
   workScope: string; // Work Order: scope description
   scheduledDate: string; // Work Order: when work is scheduled
+  applicationPlan: string; // Work Order: closed cell lifts & cure time
+  roomBreakdown: string; // Work Order: room-by-room takeoff so the crew knows which spaces are in scope
+  changeOrderSummary: string; // Change Order: what changed and the revised contract total
+  changeOrderApproval: string; // Change Order: who approved it and when (blank prints a signature line)
+  statementPeriod: string; // Statement: date range covered
+  openingBalance: string; // Statement: balance carried in from before the period
+  statementRows: PDFStatementRow[]; // Statement: invoices and payments in the period
+  totalPayments: string; // Statement: payments received in the period
+  aging: { label: string; amount: string }[]; // Statement: what's still owed, Current through 90+
+  acceptanceSignature: string; // Estimate / Work Order: customer's e-signature PNG (blank prints a signature line)
+  acceptanceNote: string; // Estimate / Work Order: who signed, when and from where
+  photoPairs: PDFPhotoPair[]; // Invoice: before/after shots printed on their own page
+  appendixPhotos: PDFAppendixPhoto[]; // Per-job documents: photos offered for the appendix pages (none included by default)
 }
 
 // ============================================================
@@ -68,6 +138,8 @@ export const TERMS_MAP: Record<DocumentType, string> = {
   [DocumentType.ESTIMATE]: 'This estimate is valid for 30 days from the date above. Prices are subject to change after expiration. A signed acceptance is required to proceed.',
   [DocumentType.WORK_ORDER]: 'Work will be performed according to the specifications outlined above. Any changes to scope must be approved in writing and may affect pricing.',
   [DocumentType.INVOICE]: 'Payment is due within 30 days of invoice date. Late payments may be subject to a 1.5% monthly finance charge.',
+  [DocumentType.CHANGE_ORDER]: 'This change order amends the original agreement; all other terms remain unchanged. Work on the change begins once it is approved.',
+  [DocumentType.STATEMENT]: 'Please reference the invoice number with your payment. Contact us with any questions about this statement.',
 };
 
 /** Brand color per document type (for PDF header & badge) */
@@ -75,17 +147,134 @@ export const DOC_TYPE_COLORS: Record<DocumentType, { brand: [number, number, num
   [DocumentType.ESTIMATE]: { brand: [30, 64, 175], label: 'blue' },      // blue-800
   [DocumentType.WORK_ORDER]: { brand: [180, 83, 9], label: 'amber' },    // amber-700
   [DocumentType.INVOICE]: { brand: [22, 163, 74], label: 'green' },      // green-600
+  [DocumentType.CHANGE_ORDER]: { brand: [126, 34, 206], label: 'purple' }, // purple-700
+  [DocumentType.STATEMENT]: { brand: [51, 65, 85], label: 'slate' },     // slate-700
+};
+
+/** Crew-facing closed cell pass plan for the work order */
+const buildApplicationPlanNote = (estimate: Estimate, settings: AppSettings): string => {
+  if (!estimate.calcData) return '';
+  const plan = planApplication(estimate.calcData, settings);
+  if (plan.surfaces.length === 0) return '';
+  const lines = describeApplicationPlan(plan);
+  lines.push(`Max ${plan.maxPassThickness}" per pass.${plan.cureWaitHours > 0 ? ` Allow ${settings.closedCellCureMinutes} min cure between lifts (~${plan.cureWaitHours.toFixed(1)} hrs).` : ''}`);
+  return lines.join('\n');
+};
+
+/** Per-room areas from a flat-area takeoff, with the total the estimate was priced on */
+const buildRoomBreakdown = (estimate: Estimate): string => {
+  const rooms = estimate.calcData?.rooms;
+  if (!rooms?.length) return '';
+  return [...describeRooms(rooms), `Total: ${Math.round(totalRoomArea(rooms)).toLocaleString()} sq ft`].join('\n');
+};
+
+const signedMoney = (n: number) => `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`;
+
+/** Change order terms: the change itself, then how it moves the contract price */
+const buildChangeOrderSummary = (estimate: Estimate, changeOrder: ChangeOrder): string => {
+  const earlier = approvedChangeOrders(estimate)
+    .filter(co => co.number < changeOrder.number)
+    .reduce((acc, co) => acc + co.total, 0);
+  const lines = [
+    changeOrder.description,
+    '',
+    `Original contract: ${signedMoney(estimate.total)}`,
+  ];
+  if (earlier !== 0) lines.push(`Previously approved changes: ${signedMoney(earlier)}`);
+  lines.push(`This change order: ${signedMoney(changeOrder.total)}`);
+  lines.push(`Revised contract total: ${signedMoney(estimate.total + earlier + changeOrder.total)}`);
+  return lines.join('\n');
+};
+
+const buildChangeOrderApproval = (changeOrder: ChangeOrder): string =>
+  changeOrder.status === 'approved' && changeOrder.approvedAt
+    ? `Approved by ${changeOrder.approvedBy || 'customer'} on ${new Date(changeOrder.approvedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`
+    : '';
+
+/** Approved change orders as one line each, so the invoice bills the revised contract */
+const buildChangeOrderLines = (estimate: Estimate): PDFLineItem[] =>
+  approvedChangeOrders(estimate).map(co => ({
+    description: `${formatChangeOrderNumber(estimate.number, co)}: ${co.description}`,
+    quantity: '1',
+    unit: 'ea',
+    unitPrice: co.subtotal.toFixed(2),
+    total: co.subtotal.toFixed(2),
+  }));
+
+const buildPaymentRows = (estimate: Estimate): PDFPaymentRow[] =>
+  [...(estimate.payments || [])]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(p => ({
+      date: new Date(p.date + 'T00:00:00').toLocaleDateString('en-US'),
+      description: `${PAYMENT_METHOD_LABELS[p.method]}${p.reference ? ` #${p.reference}` : ''}`,
+      amount: p.amount.toFixed(2),
+    }));
+
+/** Achieved R-values — uses the saved snapshot, recomputing for estimates saved before it existed */
+const buildRValueNote = (estimate: Estimate, settings: AppSettings): string => {
+  // Until a tier is picked each option lists its own R-values in the comparison table
+  if (!estimate.calcData || (estimate.options?.length && !estimate.selectedOptionId)) return '';
+  const rValues = estimate.calcData.achievedRValues ?? calculateRValues(estimate.calcData, settings);
+  return describeRValues(rValues).join('\n');
 };
 
+/** Comparison rows for an estimate offering Good / Better / Best options */
+const buildOptionRows = (estimate: Estimate, settings: AppSettings): PDFOptionRow[] =>
+  (estimate.options || []).map(option => ({
+    name: option.name,
+    specification: describeRValues(option.calcData.achievedRValues ?? calculateRValues(option.calcData, settings)).join('\n'),
+    total: option.total.toFixed(2),
+    selected: option.id === estimate.selectedOptionId,
+  }));
+
+/** Customer-facing summary of the wall area removed for openings */
+const buildOpeningsNote = (estimate: Estimate): string => {
+  const deducted = estimate.calcData?.openingDeductionSqFt || 0;
+  if (deducted <= 0) return '';
+  const openings = estimate.calcData?.openings || [];
+  const breakdown = openings
+    .filter(o => o.count > 0 && o.width > 0 && o.height > 0)
+    .map(o => `${o.count} x ${o.label} (${o.width}' x ${o.height}')`)
+    .join(', ');
+  return `Wall area excludes ${Math.round(deducted).toLocaleString()} sq ft of openings${breakdown ? `: ${breakdown}` : ''}.`;
+};
+
+/** Paired before/after shots; the images themselves are loaded by the caller */
+const buildPhotoPairs = (estimate: Estimate): PDFPhotoPair[] =>
+  beforeAfterPairs(estimate).map(({ before, after }) => ({
+    beforeUrl: before.url,
+    afterUrl: after.url,
+    beforeCaption: before.caption || '',
+    afterCaption: after.caption || '',
+    beforeImage: null,
+    afterImage: null,
+  }));
+
+/** Every job photo, unselected, so the builder can choose what the appendix shows */
+const buildAppendixPhotos = (estimate: Estimate): PDFAppendixPhoto[] =>
+  jobPhotos(estimate).map(photo => ({
+    url: photo.url,
+    thumbnailUrl: photo.thumbnailUrl,
+    label: photo.category === 'other' ? '' : PHOTO_CATEGORY_LABELS[photo.category],
+    caption: photo.caption || '',
+    included: false,
+    image: null,
+  }));
+
 export const buildPDFDocumentData = (
   estimate: Estimate,
   customer: Customer | undefined,
   settings: AppSettings,
-  overrideType?: DocumentType
+  overrideType?: DocumentType,
+  changeOrderId?: string // Change order to print; defaults to the latest
 ): PDFDocumentData => {
   const docType = overrideType ?? statusToDocumentType(estimate.status);
+  const changeOrders = estimate.changeOrders || [];
+  const changeOrder = docType === DocumentType.CHANGE_ORDER
+    ? changeOrders.find(co => co.id === changeOrderId) ?? changeOrders[changeOrders.length - 1]
+    : undefined;
 
-  const lineItems: PDFLineItem[] = estimate.items.map(item => ({
+  const lineItems: PDFLineItem[] = (changeOrder ? changeOrder.items : estimate.items).map(item => ({
     description: item.description,
     quantity: String(item.quantity),
     unit: item.unit,
@@ -93,16 +282,40 @@ export const buildPDFDocumentData = (
     total: item.total.toFixed(2),
   }));
 
+  // Totals: a change order prices only itself; the invoice adds approved changes to the original
+  let subtotal = estimate.subtotal;
+  let tax = estimate.tax;
+  if (changeOrder) {
+    subtotal = changeOrder.subtotal;
+    tax = changeOrder.tax;
+  } else if (docType === DocumentType.INVOICE) {
+    lineItems.push(...buildChangeOrderLines(estimate));
+    approvedChangeOrders(estimate).forEach(co => {
+      subtotal += co.subtotal;
+      tax += co.tax;
+    });
+  }
+
+  const approvedScope = approvedChangeOrders(estimate)
+    .map(co => `${formatChangeOrderNumber(estimate.number, co)}: ${co.description}`);
+
+  const acceptance = currentAcceptance(estimate);
+
   // Compute a default "valid until" 30 days from estimate date
   const estDate = new Date(estimate.date);
   const validDate = new Date(estDate);
   validDate.setDate(validDate.getDate() + 30);
 
+  // A change order is dated when it was written, an invoice when the job was invoiced
+  let documentDate = estDate;
+  if (changeOrder) documentDate = new Date(changeOrder.date);
+  else if (docType === DocumentType.INVOICE && estimate.invoicedAt) documentDate = new Date(`${estimate.invoicedAt}T00:00:00`);
+
   return {
     documentType: docType,
     documentTitle: docType, // display label = enum value
-    documentNumber: formatDocumentNumber(estimate.number, docType),
-    documentDate: estDate.toLocaleDateString('en-US', {
+    documentNumber: changeOrder ? formatChangeOrderNumber(estimate.number, changeOrder) : formatDocumentNumber(estimate.number, docType),
+    documentDate: documentDate.toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'long',
       day: 'numeric',
@@ -122,20 +335,37 @@ export const buildPDFDocumentData = (
     customerEmail: customer?.email || '',
     jobName: estimate.jobName || 'Spray Foam Insulation',
     jobAddress: estimate.jobAddress || '',
+    openingsNote: buildOpeningsNote(estimate),
+    rValueNote: buildRValueNote(estimate, settings),
     lineItems,
-    subtotal: estimate.subtotal.toFixed(2),
+    options: buildOptionRows(estimate, settings),
+    subtotal: subtotal.toFixed(2),
     taxLabel: `Tax (${settings.taxRate}%)`,
-    taxAmount: estimate.tax.toFixed(2),
-    total: estimate.total.toFixed(2),
+    taxAmount: tax.toFixed(2),
+    total: (subtotal + tax).toFixed(2),
+    payments: buildPaymentRows(estimate),
     notes: estimate.notes || '',
     termsAndConditions: TERMS_MAP[docType],
     thankYouMessage: 'Thank you for your business!',
     // Type-specific defaults
     validUntil: validDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
     poNumber: '',
-    paymentTerms: 'Net 30',
-    workScope: `Spray foam insulation per specifications — ${estimate.jobName || 'See line items'}`,
+    paymentTerms: estimate.paymentTerms || settings.defaultPaymentTerms,
+    workScope: [`Spray foam insulation per specifications — ${estimate.jobName || 'See line items'}`, ...(approvedScope.length ? ['Approved changes:', ...approvedScope] : [])].join('\n'),
     scheduledDate: '',
+    applicationPlan: buildApplicationPlanNote(estimate, settings),
+    roomBreakdown: buildRoomBreakdown(estimate),
+    changeOrderSummary: changeOrder ? buildChangeOrderSummary(estimate, changeOrder) : '',
+    changeOrderApproval: changeOrder ? buildChangeOrderApproval(changeOrder) : '',
+    statementPeriod: '',
+    openingBalance: '0.00',
+    statementRows: [],
+    totalPayments: '0.00',
+    aging: [],
+    acceptanceSignature: acceptance?.signatureDataUrl || '',
+    acceptanceNote: acceptance ? describeAcceptance(acceptance) : '',
+    photoPairs: buildPhotoPairs(estimate),
+    appendixPhotos: buildAppendixPhotos(estimate),
   };
 };
 
@@ -143,6 +373,9 @@ export const buildPDFDocumentData = (
 // Generate the actual PDF from PDFDocumentData
 // ============================================================
 export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
+  // A statement spans many jobs and shares none of the per-job layout
+  if (data.documentType === DocumentType.STATEMENT) return generateStatementPDF(data);
+
   const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
   const pageWidth = doc.internal.pageSize.getWidth();
   const pageHeight = doc.internal.pageSize.getHeight();
@@ -283,98 +516,215 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
 
   y = Math.max(leftY, rightY) + 20;
 
-  // ── LINE ITEMS TABLE ─────────────────────────────────────
-  checkPageBreak(80);
+  // ── OPTIONS COMPARISON (Good / Better / Best) ───────────
+  // Replaces the line items on an estimate that offers several options
+  const showOptions = data.documentType === DocumentType.ESTIMATE && data.options.length > 0;
+  if (showOptions) {
+    checkPageBreak(80);
+    const colOption = margin;
+    const colSpec = margin + contentWidth * 0.22;
+    const colOptTotal = pageWidth - margin;
+
+    doc.setFillColor(...lightBg);
+    doc.rect(margin, y, contentWidth, 22, 'F');
+    doc.setDrawColor(...borderColor);
+    doc.rect(margin, y, contentWidth, 22, 'S');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...medText);
+    doc.text('OPTION', colOption + 8, y + 14);
+    doc.text('WHAT YOU GET', colSpec + 4, y + 14);
+    doc.text('TOTAL (INCL. TAX)', colOptTotal - 8, y + 14, { align: 'right' });
+    y += 22;
+
+    data.options.forEach(option => {
+      doc.setFontSize(9);
+      const specLines = doc.splitTextToSize(option.specification || '—', contentWidth * 0.55);
+      const rowH = Math.max(28, specLines.length * 11 + 14);
+      checkPageBreak(rowH + 10);
 
-  // Table header
-  const colDesc = margin;
-  const colQty = margin + contentWidth * 0.50;
-  const colUnit = margin + contentWidth * 0.60;
-  const colPrice = margin + contentWidth * 0.73;
-  const colTotal = margin + contentWidth * 0.87;
+      if (option.selected) {
+        doc.setFillColor(...lightBg);
+        doc.rect(margin, y, contentWidth, rowH, 'F');
+      }
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + rowH, pageWidth - margin, y + rowH);
 
-  doc.setFillColor(...lightBg);
-  doc.rect(margin, y, contentWidth, 22, 'F');
-  doc.setDrawColor(...borderColor);
-  doc.rect(margin, y, contentWidth, 22, 'S');
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...(option.selected ? brandColor : darkText));
+      doc.text(option.selected ? `${option.name} (Selected)` : option.name, colOption + 8, y + 16);
 
-  doc.setFontSize(8);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(...medText);
-  doc.text('DESCRIPTION', colDesc + 8, y + 14);
-  doc.text('QTY', colQty + 4, y + 14);
-  doc.text('UNIT', colUnit + 4, y + 14);
-  doc.text('PRICE', colPrice + 4, y + 14);
-  doc.text('TOTAL', colTotal + 4, y + 14);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text(specLines, colSpec + 4, y + 16);
 
-  y += 22;
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...darkText);
+      doc.text(`$${option.total}`, colOptTotal - 8, y + 16, { align: 'right' });
+      y += rowH;
+    });
 
-  // Table rows
-  doc.setFontSize(9);
-  data.lineItems.forEach((item, idx) => {
-    checkPageBreak(30);
-    const rowH = 24;
+    y += 12;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'italic');
+    doc.setTextColor(...medText);
+    doc.text('Please indicate your choice when accepting this estimate.', margin, y);
+    y += 24;
+  } else {
+    // ── LINE ITEMS TABLE ─────────────────────────────────────
+    checkPageBreak(80);
 
-    // Alternate row bg
-    if (idx % 2 === 0) {
-      doc.setFillColor(255, 255, 255);
-    } else {
-      doc.setFillColor(252, 252, 253);
-    }
-    doc.rect(margin, y, contentWidth, rowH, 'F');
+    // Table header
+    const colDesc = margin;
+    const colQty = margin + contentWidth * 0.50;
+    const colUnit = margin + contentWidth * 0.60;
+    const colPrice = margin + contentWidth * 0.73;
+    const colTotal = margin + contentWidth * 0.87;
+
+    doc.setFillColor(...lightBg);
+    doc.rect(margin, y, contentWidth, 22, 'F');
     doc.setDrawColor(...borderColor);
-    doc.line(margin, y + rowH, pageWidth - margin, y + rowH);
+    doc.rect(margin, y, contentWidth, 22, 'S');
+
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...medText);
+    doc.text('DESCRIPTION', colDesc + 8, y + 14);
+    doc.text('QTY', colQty + 4, y + 14);
+    doc.text('UNIT', colUnit + 4, y + 14);
+    doc.text('PRICE', colPrice + 4, y + 14);
+    doc.text('TOTAL', colTotal + 4, y + 14);
+
+    y += 22;
 
+    // Table rows
+    doc.setFontSize(9);
+    data.lineItems.forEach((item, idx) => {
+      checkPageBreak(30);
+      const rowH = 24;
+
+      // Alternate row bg
+      if (idx % 2 === 0) {
+        doc.setFillColor(255, 255, 255);
+      } else {
+        doc.setFillColor(252, 252, 253);
+      }
+      doc.rect(margin, y, contentWidth, rowH, 'F');
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + rowH, pageWidth - margin, y + rowH);
+
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...darkText);
+      // Truncate long descriptions
+      const maxDescWidth = colQty - colDesc - 16;
+      const descText = doc.splitTextToSize(item.description, maxDescWidth);
+      doc.text(descText[0] || '', colDesc + 8, y + 15);
+
+      doc.setTextColor(...medText);
+      doc.text(item.quantity, colQty + 4, y + 15);
+      doc.text(item.unit, colUnit + 4, y + 15);
+
+      doc.setTextColor(...darkText);
+      doc.text(`$${item.unitPrice}`, colPrice + 4, y + 15);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`$${item.total}`, colTotal + 4, y + 15);
+
+      y += rowH;
+    });
+
+    // ── TOTALS ───────────────────────────────────────────────
+    y += 10;
+    checkPageBreak(80);
+
+    const totalsX = margin + contentWidth * 0.60;
+    const totalsValueX = pageWidth - margin;
+
+    doc.setFontSize(9);
     doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    doc.text('Subtotal', totalsX, y + 14);
     doc.setTextColor(...darkText);
-    // Truncate long descriptions
-    const maxDescWidth = colQty - colDesc - 16;
-    const descText = doc.splitTextToSize(item.description, maxDescWidth);
-    doc.text(descText[0] || '', colDesc + 8, y + 15);
+    doc.text(`$${data.subtotal}`, totalsValueX, y + 14, { align: 'right' });
 
+    y += 20;
     doc.setTextColor(...medText);
-    doc.text(item.quantity, colQty + 4, y + 15);
-    doc.text(item.unit, colUnit + 4, y + 15);
-
+    doc.text(data.taxLabel, totalsX, y + 14);
     doc.setTextColor(...darkText);
-    doc.text(`$${item.unitPrice}`, colPrice + 4, y + 15);
-    doc.setFont('helvetica', 'bold');
-    doc.text(`$${item.total}`, colTotal + 4, y + 15);
+    doc.text(`$${data.taxAmount}`, totalsValueX, y + 14, { align: 'right' });
 
-    y += rowH;
-  });
-
-  // ── TOTALS ───────────────────────────────────────────────
-  y += 10;
-  checkPageBreak(80);
-
-  const totalsX = margin + contentWidth * 0.60;
-  const totalsValueX = pageWidth - margin;
+    y += 24;
+    // Total highlight box
+    doc.setFillColor(...brandColor);
+    doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'F');
+    doc.setFontSize(12);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(255, 255, 255);
+    doc.text('TOTAL', totalsX + 4, y + 20);
+    doc.text(`$${data.total}`, totalsValueX - 8, y + 20, { align: 'right' });
 
-  doc.setFontSize(9);
-  doc.setFont('helvetica', 'normal');
-  doc.setTextColor(...medText);
-  doc.text('Subtotal', totalsX, y + 14);
-  doc.setTextColor(...darkText);
-  doc.text(`$${data.subtotal}`, totalsValueX, y + 14, { align: 'right' });
+    // Payments received and what's left to pay
+    if (data.documentType === DocumentType.INVOICE && data.payments.length > 0) {
+      y += 36;
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      data.payments.forEach(payment => {
+        checkPageBreak(20);
+        doc.setTextColor(...medText);
+        const label = doc.splitTextToSize(`Paid ${payment.date} · ${payment.description}`, totalsValueX - totalsX - 70);
+        doc.text(label[0] || '', totalsX, y + 14);
+        doc.setTextColor(...darkText);
+        doc.text(`-$${payment.amount}`, totalsValueX, y + 14, { align: 'right' });
+        y += 16;
+      });
+      const paid = data.payments.reduce((sum, p) => sum + (parseFloat(p.amount) || 0), 0);
+      const due = Math.max(0, (parseFloat(data.total) || 0) - paid);
+      y += 8;
+      checkPageBreak(40);
+      doc.setDrawColor(...brandColor);
+      doc.setLineWidth(1.5);
+      doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'S');
+      doc.setLineWidth(1);
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...brandColor);
+      doc.text('AMOUNT DUE', totalsX + 4, y + 20);
+      doc.text(`$${due.toFixed(2)}`, totalsValueX - 8, y + 20, { align: 'right' });
+    }
 
-  y += 20;
-  doc.setTextColor(...medText);
-  doc.text(data.taxLabel, totalsX, y + 14);
-  doc.setTextColor(...darkText);
-  doc.text(`$${data.taxAmount}`, totalsValueX, y + 14, { align: 'right' });
+    y += 50;
+  }
 
-  y += 24;
-  // Total highlight box
-  doc.setFillColor(...brandColor);
-  doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'F');
-  doc.setFontSize(12);
-  doc.setFont('helvetica', 'bold');
-  doc.setTextColor(255, 255, 255);
-  doc.text('TOTAL', totalsX + 4, y + 20);
-  doc.text(`$${data.total}`, totalsValueX - 8, y + 20, { align: 'right' });
+  // ── INSULATION R-VALUE ───────────────────────────────────
+  if (data.rValueNote) {
+    checkPageBreak(50);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text('INSULATION R-VALUE', margin, y);
+    y += 12;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    const rValueLines = doc.splitTextToSize(data.rValueNote, contentWidth);
+    doc.text(rValueLines, margin, y);
+    y += rValueLines.length * 12 + 10;
+  }
 
-  y += 50;
+  // ── AREA DEDUCTIONS ──────────────────────────────────────
+  if (data.openingsNote) {
+    checkPageBreak(50);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text('AREA DEDUCTIONS', margin, y);
+    y += 12;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    const openingLines = doc.splitTextToSize(data.openingsNote, contentWidth);
+    doc.text(openingLines, margin, y);
+    y += openingLines.length * 12 + 10;
+  }
 
   // ── NOTES ────────────────────────────────────────────────
   if (data.notes) {
@@ -408,34 +758,55 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
     y += termLines.length * 10 + 16;
   }
 
-  // ── TYPE-SPECIFIC SECTIONS ───────────────────────────────
-  if (data.documentType === DocumentType.ESTIMATE && data.validUntil) {
-    checkPageBreak(60);
-    doc.setFontSize(8);
-    doc.setFont('helvetica', 'bold');
-    doc.setTextColor(...brandColor);
-    doc.text('ESTIMATE VALIDITY', margin, y);
-    y += 12;
-    doc.setFontSize(9);
+  // Customer's e-signature sitting on the signature line, with the acceptance record beneath
+  const drawSignedAcceptance = () => {
+    doc.addImage(data.acceptanceSignature, 'PNG', margin, y, 150, 45);
+    y += 47;
+    doc.setDrawColor(...borderColor);
+    doc.line(margin, y, margin + contentWidth * 0.45, y);
+    y += 10;
+    doc.setFontSize(7);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(...medText);
-    doc.text(`This estimate is valid until ${data.validUntil}.`, margin, y);
-    y += 20;
+    const noteLines = doc.splitTextToSize(data.acceptanceNote, contentWidth);
+    doc.text(noteLines, margin, y);
+    y += noteLines.length * 9 + 12;
+  };
+
+  // ── TYPE-SPECIFIC SECTIONS ───────────────────────────────
+  if (data.documentType === DocumentType.ESTIMATE && (data.validUntil || data.acceptanceSignature)) {
+    checkPageBreak(data.acceptanceSignature ? 110 : 60);
+    if (data.validUntil) {
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...brandColor);
+      doc.text('ESTIMATE VALIDITY', margin, y);
+      y += 12;
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text(`This estimate is valid until ${data.validUntil}.`, margin, y);
+      y += 20;
+    }
     // Signature / acceptance line
     doc.setFontSize(8);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(...brandColor);
     doc.text('ACCEPTANCE', margin, y);
     y += 14;
-    doc.setDrawColor(...borderColor);
-    doc.line(margin, y + 2, margin + contentWidth * 0.45, y + 2);
-    doc.line(margin + contentWidth * 0.55, y + 2, pageWidth - margin, y + 2);
-    doc.setFontSize(7);
-    doc.setFont('helvetica', 'normal');
-    doc.setTextColor(...medText);
-    doc.text('Signature', margin, y + 14);
-    doc.text('Date', margin + contentWidth * 0.55, y + 14);
-    y += 30;
+    if (data.acceptanceSignature) {
+      drawSignedAcceptance();
+    } else {
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + 2, margin + contentWidth * 0.45, y + 2);
+      doc.line(margin + contentWidth * 0.55, y + 2, pageWidth - margin, y + 2);
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text('Signature', margin, y + 14);
+      doc.text('Date', margin + contentWidth * 0.55, y + 14);
+      y += 30;
+    }
   }
 
   if (data.documentType === DocumentType.WORK_ORDER) {
@@ -457,22 +828,96 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
       doc.text(`Scheduled: ${data.scheduledDate}`, margin, y);
       y += 16;
     }
-    // Work authorization line
+    if (data.roomBreakdown) {
+      checkPageBreak(50);
+      y += 6;
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...brandColor);
+      doc.text('AREAS IN SCOPE', margin, y);
+      y += 12;
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      const roomLines = doc.splitTextToSize(data.roomBreakdown, contentWidth);
+      doc.text(roomLines, margin, y);
+      y += roomLines.length * 12 + 6;
+    }
+    if (data.applicationPlan) {
+      checkPageBreak(50);
+      y += 6;
+      doc.setFontSize(8);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...brandColor);
+      doc.text('APPLICATION PLAN', margin, y);
+      y += 12;
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      const planLines = doc.splitTextToSize(data.applicationPlan, contentWidth);
+      doc.text(planLines, margin, y);
+      y += planLines.length * 12 + 6;
+    }
+    // Work authorization — the customer's online signature when they accepted, otherwise a line to sign
     y += 6;
+    checkPageBreak(data.acceptanceSignature ? 90 : 50);
     doc.setFontSize(8);
     doc.setFont('helvetica', 'bold');
     doc.setTextColor(...brandColor);
-    doc.text('AUTHORIZATION', margin, y);
+    doc.text(data.acceptanceSignature ? 'CUSTOMER ACCEPTANCE' : 'AUTHORIZATION', margin, y);
     y += 14;
-    doc.setDrawColor(...borderColor);
-    doc.line(margin, y + 2, margin + contentWidth * 0.45, y + 2);
-    doc.line(margin + contentWidth * 0.55, y + 2, pageWidth - margin, y + 2);
-    doc.setFontSize(7);
+    if (data.acceptanceSignature) {
+      drawSignedAcceptance();
+    } else {
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + 2, margin + contentWidth * 0.45, y + 2);
+      doc.line(margin + contentWidth * 0.55, y + 2, pageWidth - margin, y + 2);
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text('Authorized By', margin, y + 14);
+      doc.text('Date', margin + contentWidth * 0.55, y + 14);
+      y += 30;
+    }
+  }
+
+  if (data.documentType === DocumentType.CHANGE_ORDER) {
+    checkPageBreak(60);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text('CHANGE SUMMARY', margin, y);
+    y += 12;
+    doc.setFontSize(9);
     doc.setFont('helvetica', 'normal');
     doc.setTextColor(...medText);
-    doc.text('Authorized By', margin, y + 14);
-    doc.text('Date', margin + contentWidth * 0.55, y + 14);
-    y += 30;
+    const summaryLines = doc.splitTextToSize(data.changeOrderSummary || 'Per line items above.', contentWidth);
+    doc.text(summaryLines, margin, y);
+    y += summaryLines.length * 12 + 12;
+    // Customer approval — printed once given, otherwise a line to sign
+    checkPageBreak(50);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text('CUSTOMER APPROVAL', margin, y);
+    y += 14;
+    if (data.changeOrderApproval) {
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...darkText);
+      doc.text(data.changeOrderApproval, margin, y);
+      y += 20;
+    } else {
+      doc.setDrawColor(...borderColor);
+      doc.line(margin, y + 2, margin + contentWidth * 0.45, y + 2);
+      doc.line(margin + contentWidth * 0.55, y + 2, pageWidth - margin, y + 2);
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text('Customer Signature', margin, y + 14);
+      doc.text('Date', margin + contentWidth * 0.55, y + 14);
+      y += 30;
+    }
   }
 
   if (data.documentType === DocumentType.INVOICE) {
@@ -506,6 +951,75 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
     y += 20;
   }
 
+  // ── PHOTO PAGES ──────────────────────────────────────────
+  // Photos go on their own pages, two to a row; ones whose images didn't load are left out
+  const photoGap = 16;
+  const cellWidth = (contentWidth - photoGap) / 2;
+  const cellHeight = cellWidth * 0.75;
+  const photoColumns = [margin, margin + cellWidth + photoGap];
+  // Fit each photo inside its cell without stretching it
+  const drawPhoto = (image: string, x: number) => {
+    const { width, height } = doc.getImageProperties(image);
+    const scale = Math.min(cellWidth / width, cellHeight / height);
+    const w = width * scale;
+    const h = height * scale;
+    doc.setFillColor(...lightBg);
+    doc.rect(x, y, cellWidth, cellHeight, 'F');
+    doc.addImage(image, 'JPEG', x + (cellWidth - w) / 2, y + (cellHeight - h) / 2, w, h);
+  };
+  const drawCaption = (label: string, caption: string, x: number) => {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...darkText);
+    doc.text(label, x, y);
+    if (caption) {
+      const labelWidth = label ? doc.getTextWidth(label) + 6 : 0;
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(...medText);
+      doc.text(doc.splitTextToSize(caption, cellWidth - labelWidth)[0], x + labelWidth, y);
+    }
+  };
+  const startPhotoPage = (title: string) => {
+    doc.addPage();
+    y = margin;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text(title, margin, y);
+    y += 16;
+  };
+
+  // Before & after — invoice only
+  const photoPairs = data.documentType === DocumentType.INVOICE
+    ? data.photoPairs.filter(pair => pair.beforeImage && pair.afterImage)
+    : [];
+  if (photoPairs.length > 0) {
+    startPhotoPage('BEFORE & AFTER');
+    photoPairs.forEach(pair => {
+      checkPageBreak(cellHeight + 30);
+      drawPhoto(pair.beforeImage!, photoColumns[0]);
+      drawPhoto(pair.afterImage!, photoColumns[1]);
+      y += cellHeight + 12;
+      drawCaption('BEFORE', pair.beforeCaption, photoColumns[0]);
+      drawCaption('AFTER', pair.afterCaption, photoColumns[1]);
+      y += 20;
+    });
+  }
+
+  // Appendix — whichever job photos were picked in the builder
+  const appendixPhotos = data.appendixPhotos.filter(photo => photo.included && photo.image);
+  if (appendixPhotos.length > 0) {
+    startPhotoPage('PHOTO APPENDIX');
+    for (let i = 0; i < appendixPhotos.length; i += 2) {
+      const row = appendixPhotos.slice(i, i + 2);
+      checkPageBreak(cellHeight + 30);
+      row.forEach((photo, col) => drawPhoto(photo.image!, photoColumns[col]));
+      y += cellHeight + 12;
+      row.forEach((photo, col) => drawCaption(photo.label.toUpperCase(), photo.caption, photoColumns[col]));
+      y += 20;
+    }
+  }
+
   // ── FOOTER BAR ───────────────────────────────────────────
   doc.setFillColor(...brandColor);
   doc.rect(0, pageHeight - 20, pageWidth, 20, 'F');
@@ -522,6 +1036,282 @@ export const generatePDFFromData = (data: PDFDocumentData): jsPDF => {
   return doc;
 };
 
+// ============================================================
+// Customer statement — a customer's invoices and payments over a period
+// ============================================================
+const formatStatementDate = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+/** Statement for every job billed to the customer, dated `to` and aged as of that day */
+export const buildStatementDocumentData = (
+  customer: Customer,
+  estimates: Estimate[],
+  settings: AppSettings,
+  from: string,
+  to: string
+): PDFDocumentData => {
+  const statement = buildCustomerStatement(estimates, customer.id, from, to);
+  const customerEstimates = estimates.filter(e => e.customerId === customer.id);
+  const aging = buildAgingReport(customerEstimates, [customer], settings, to).customers[0]?.totals ?? emptyAgingTotals();
+
+  return {
+    documentType: DocumentType.STATEMENT,
+    documentTitle: DocumentType.STATEMENT,
+    documentNumber: formatDocumentNumber(to.replace(/-/g, ''), DocumentType.STATEMENT),
+    documentDate: new Date(`${to}T00:00:00`).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    companyName: settings.companyName,
+    companyAddress: settings.companyAddress,
+    companyPhone: settings.companyPhone,
+    companyEmail: settings.companyEmail,
+    logoDataUrl: null,
+    customerName: customer.name,
+    customerCompany: customer.companyName || '',
+    customerAddress: customer.address || '',
+    customerCityStateZip: `${customer.city}, ${customer.state} ${customer.zip}`.trim(),
+    customerPhone: customer.phone || '',
+    customerEmail: customer.email || '',
+    jobName: '',
+    jobAddress: '',
+    openingsNote: '',
+    rValueNote: '',
+    lineItems: [],
+    options: [],
+    subtotal: statement.totalCharges.toFixed(2),
+    taxLabel: '',
+    taxAmount: '0.00',
+    total: statement.closingBalance.toFixed(2),
+    payments: [],
+    notes: '',
+    termsAndConditions: TERMS_MAP[DocumentType.STATEMENT],
+    thankYouMessage: 'Thank you for your business!',
+    validUntil: '',
+    poNumber: '',
+    paymentTerms: settings.defaultPaymentTerms,
+    workScope: '',
+    scheduledDate: '',
+    applicationPlan: '',
+    roomBreakdown: '',
+    changeOrderSummary: '',
+    changeOrderApproval: '',
+    statementPeriod: `${formatStatementDate(from)} – ${formatStatementDate(to)}`,
+    openingBalance: statement.openingBalance.toFixed(2),
+    statementRows: statement.lines.map(line => ({
+      date: formatStatementDate(line.date),
+      reference: line.reference,
+      description: line.description,
+      charges: line.charge ? line.charge.toFixed(2) : '',
+      payments: line.payment ? line.payment.toFixed(2) : '',
+      balance: line.balance.toFixed(2),
+    })),
+    totalPayments: statement.totalPayments.toFixed(2),
+    aging: AGING_BUCKETS.map(b => ({ label: b.label, amount: aging[b.id].toFixed(2) })),
+    acceptanceSignature: '',
+    acceptanceNote: '',
+    photoPairs: [],
+    appendixPhotos: [],
+  };
+};
+
+const generateStatementPDF = (data: PDFDocumentData): jsPDF => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 50;
+  const contentWidth = pageWidth - margin * 2;
+  const brandColor = DOC_TYPE_COLORS[DocumentType.STATEMENT].brand;
+  const darkText: [number, number, number] = [30, 41, 59];
+  const medText: [number, number, number] = [100, 116, 139];
+  const lightBg: [number, number, number] = [248, 250, 252];
+  const borderColor: [number, number, number] = [226, 232, 240];
+  let y = 30;
+
+  const checkPageBreak = (neededHeight: number) => {
+    if (y + neededHeight > pageHeight - 60) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  // ── HEADER ───────────────────────────────────────────────
+  doc.setFillColor(...brandColor);
+  doc.rect(0, 0, pageWidth, 6, 'F');
+  if (data.logoDataUrl) {
+    try {
+      doc.addImage(data.logoDataUrl, 'PNG', margin, y, 120, 50);
+      y += 60;
+    } catch {
+      y += 30;
+    }
+  } else {
+    doc.setFontSize(22);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...darkText);
+    doc.text(data.companyName, margin, y + 18);
+    y += 30;
+  }
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...medText);
+  doc.text([data.companyAddress, data.companyPhone, data.companyEmail].filter(Boolean).join('  |  '), margin, y);
+
+  const badgeWidth = 160;
+  const badgeX = pageWidth - margin - badgeWidth;
+  doc.setFillColor(...brandColor);
+  doc.roundedRect(badgeX, 30, badgeWidth, 36, 3, 3, 'F');
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(255, 255, 255);
+  doc.text(data.documentTitle, badgeX + badgeWidth / 2, 54, { align: 'center' });
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...medText);
+  doc.text(`#${data.documentNumber}`, badgeX + badgeWidth, 80, { align: 'right' });
+  doc.text(data.documentDate, badgeX + badgeWidth, 92, { align: 'right' });
+
+  y = Math.max(y, 92) + 20;
+  doc.setDrawColor(...borderColor);
+  doc.setLineWidth(1);
+  doc.line(margin, y, pageWidth - margin, y);
+  y += 20;
+
+  // ── CUSTOMER + PERIOD ────────────────────────────────────
+  const rightX = margin + contentWidth / 2 + 10;
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...brandColor);
+  doc.text('STATEMENT FOR', margin, y);
+  doc.text('STATEMENT PERIOD', rightX, y);
+  y += 14;
+  doc.setFontSize(10);
+  doc.setTextColor(...darkText);
+  doc.text(data.customerName, margin, y);
+  doc.setFont('helvetica', 'normal');
+  doc.text(data.statementPeriod, rightX, y);
+  y += 14;
+  doc.setFontSize(9);
+  doc.setTextColor(...medText);
+  [data.customerCompany, data.customerAddress, data.customerCityStateZip].filter(Boolean).forEach(line => {
+    doc.text(line, margin, y);
+    y += 12;
+  });
+  y += 14;
+
+  // ── ACTIVITY ─────────────────────────────────────────────
+  const colRef = margin + contentWidth * 0.16;
+  const colDesc = margin + contentWidth * 0.33;
+  const colCharges = margin + contentWidth * 0.72;
+  const colPayments = margin + contentWidth * 0.86;
+  const colBalance = pageWidth - margin - 8;
+  const tableHeader = () => {
+    doc.setFillColor(...lightBg);
+    doc.rect(margin, y, contentWidth, 22, 'F');
+    doc.setDrawColor(...borderColor);
+    doc.rect(margin, y, contentWidth, 22, 'S');
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...medText);
+    doc.text('DATE', margin + 8, y + 14);
+    doc.text('REFERENCE', colRef, y + 14);
+    doc.text('DESCRIPTION', colDesc, y + 14);
+    doc.text('CHARGES', colCharges, y + 14, { align: 'right' });
+    doc.text('PAYMENTS', colPayments, y + 14, { align: 'right' });
+    doc.text('BALANCE', colBalance, y + 14, { align: 'right' });
+    y += 22;
+  };
+  const row = (cells: { date: string; reference: string; description: string; charges: string; payments: string; balance: string }, bold = false) => {
+    if (y + 24 > pageHeight - 60) {
+      doc.addPage();
+      y = margin;
+      tableHeader();
+    }
+    doc.setFontSize(9);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setTextColor(...medText);
+    doc.text(cells.date, margin + 8, y + 15);
+    doc.text(cells.reference, colRef, y + 15);
+    doc.setTextColor(...darkText);
+    doc.text(doc.splitTextToSize(cells.description, colCharges - colDesc - 60)[0] || '', colDesc, y + 15);
+    if (cells.charges) doc.text(`$${cells.charges}`, colCharges, y + 15, { align: 'right' });
+    if (cells.payments) doc.text(`-$${cells.payments}`, colPayments, y + 15, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.text(`$${cells.balance}`, colBalance, y + 15, { align: 'right' });
+    doc.setDrawColor(...borderColor);
+    doc.line(margin, y + 24, pageWidth - margin, y + 24);
+    y += 24;
+  };
+  tableHeader();
+  row({ date: '', reference: '', description: 'Balance forward', charges: '', payments: '', balance: data.openingBalance }, true);
+  data.statementRows.forEach(r => row(r));
+  if (data.statementRows.length === 0) {
+    row({ date: '', reference: '', description: 'No activity in this period', charges: '', payments: '', balance: data.openingBalance });
+  }
+
+  // ── AGING SUMMARY + TOTAL ────────────────────────────────
+  checkPageBreak(110);
+  y += 20;
+  if (data.aging.length > 0) {
+    const bucketWidth = contentWidth / data.aging.length;
+    data.aging.forEach((bucket, i) => {
+      const x = margin + bucketWidth * i;
+      doc.setDrawColor(...borderColor);
+      doc.rect(x, y, bucketWidth, 36, 'S');
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'bold');
+      doc.setTextColor(...medText);
+      doc.text(bucket.label.toUpperCase(), x + bucketWidth / 2, y + 13, { align: 'center' });
+      doc.setFontSize(9);
+      doc.setTextColor(...darkText);
+      doc.text(`$${bucket.amount}`, x + bucketWidth / 2, y + 27, { align: 'center' });
+    });
+    y += 50;
+  }
+
+  const totalsX = margin + contentWidth * 0.60;
+  doc.setFillColor(...brandColor);
+  doc.roundedRect(totalsX - 8, y, pageWidth - margin - totalsX + 8, 30, 3, 3, 'F');
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(255, 255, 255);
+  doc.text('TOTAL DUE', totalsX + 4, y + 20);
+  doc.text(`$${data.total}`, pageWidth - margin - 8, y + 20, { align: 'right' });
+  y += 50;
+
+  // ── NOTES / TERMS ────────────────────────────────────────
+  ([['NOTES', data.notes], ['TERMS & CONDITIONS', data.termsAndConditions]] as const).forEach(([heading, text]) => {
+    if (!text) return;
+    checkPageBreak(60);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...brandColor);
+    doc.text(heading, margin, y);
+    y += 12;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...medText);
+    const lines = doc.splitTextToSize(text, contentWidth);
+    doc.text(lines, margin, y);
+    y += lines.length * 12 + 10;
+  });
+
+  if (data.thankYouMessage) {
+    checkPageBreak(40);
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'bolditalic');
+    doc.setTextColor(...brandColor);
+    doc.text(data.thankYouMessage, pageWidth / 2, y, { align: 'center' });
+  }
+
+  // ── FOOTER BAR ───────────────────────────────────────────
+  doc.setFillColor(...brandColor);
+  doc.rect(0, pageHeight - 20, pageWidth, 20, 'F');
+  doc.setFontSize(7);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(255, 255, 255);
+  doc.text(`${data.companyName}  •  ${data.companyPhone}  •  ${data.companyEmail}`, pageWidth / 2, pageHeight - 8, { align: 'center' });
+
+  return doc;
+};
+
 // ============================================================
 // Convenience: download PDF
 // ============================================================
@@ -544,21 +1334,22 @@ export const getPDFFilename = (data: PDFDocumentData): string => {
 };
 
 // ============================================================
-// Load logo from URL into a data URL (for embedding in PDF)
+// Load images from URLs into data URLs (for embedding in PDF)
 // ============================================================
-export const loadLogoAsDataUrl = (url: string): Promise<string | null> => {
+const loadImageAsDataUrl = (url: string, type: 'image/png' | 'image/jpeg', maxDimension?: number): Promise<string | null> => {
   return new Promise((resolve) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = () => {
       try {
+        const scale = maxDimension ? Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
         const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
         const ctx = canvas.getContext('2d');
         if (!ctx) { resolve(null); return; }
-        ctx.drawImage(img, 0, 0);
-        resolve(canvas.toDataURL('image/png'));
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL(type, 0.85));
       } catch {
         resolve(null);
       }
@@ -567,3 +1358,8 @@ export const loadLogoAsDataUrl = (url: string): Promise<string | null> => {
     img.src = url;
   });
 };
+
+export const loadLogoAsDataUrl = (url: string): Promise<string | null> => loadImageAsDataUrl(url, 'image/png');
+
+/** Job photos are scaled down so a page of them doesn't balloon the PDF */
+export const loadPhotoAsDataUrl = (url: string): Promise<string | null> => loadImageAsDataUrl(url, 'image/jpeg', 1200);
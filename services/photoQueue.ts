@@ -0,0 +1,255 @@
+import { JobPhotoMeta, PhotoCategory } from '../types';
+import { compressJobPhoto, currentUploader, deleteJobPhoto, uploadCompressedPhoto } from './imageService';
+import { buildPhotoMeta, currentPosition, queuedPhotoUrl } from './photos';
+import { findEstimateWithPhoto, replaceEstimatePhoto } from './storage';
+
+// ============================================================
+// Offline photo queue — photos wait in IndexedDB until they upload
+// ============================================================
+// Every site photo goes through here so a crew with no signal can keep shooting.
+// The estimate holds a placeholder URL until the upload lands, then it's patched.
+
+const DB_NAME = 'foam-crm-photo-queue';
+const STORE_NAME = 'photos';
+const RETRY_INTERVAL_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const UNCLAIMED_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface QueuedPhoto {
+  id: string;
+  estimateId: string | null; // Null until the estimate it was taken for is saved
+  fileName: string;
+  photo: Blob;
+  thumbnail: Blob;
+  uploaded?: { url: string; thumbnailUrl: string }; // Set once it's in storage
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+}
+
+type UploadedListener = (placeholder: string, uploaded: { url: string; thumbnailUrl: string }) => void;
+type PendingListener = (pending: number) => void;
+
+const uploadedListeners = new Set<UploadedListener>();
+const pendingListeners = new Set<PendingListener>();
+let isProcessing = false;
+let processAgain = false; // Something was queued or claimed mid-run
+
+// --- IndexedDB ---
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openQueue = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(err => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const getAllQueued = () => runRequest<QueuedPhoto[]>('readonly', store => store.getAll());
+const putQueued = (entry: QueuedPhoto) => runRequest('readwrite', store => store.put(entry));
+const removeQueued = (id: string) => runRequest('readwrite', store => store.delete(id));
+
+/** Read-modify-write in one transaction so a claim and an upload finishing together don't clobber each other */
+const updateQueued = async (id: string, changes: Partial<QueuedPhoto>): Promise<QueuedPhoto | undefined> => {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    const get = store.get(id);
+    get.onsuccess = () => {
+      if (!get.result) return resolve(undefined);
+      const updated: QueuedPhoto = { ...get.result, ...changes };
+      const put = store.put(updated);
+      put.onsuccess = () => resolve(updated);
+      put.onerror = () => reject(put.error);
+    };
+    get.onerror = () => reject(get.error);
+  });
+};
+
+/** Waits longer after each failure — 5s, 10s, 20s… up to 5 minutes */
+const retryDelay = (attempts: number) => Math.min(5000 * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+/** Photos still to upload, or uploaded but not yet on their saved estimate */
+const countPending = (entries: QueuedPhoto[]) => entries.filter(e => !e.uploaded || e.estimateId).length;
+
+const notifyPending = async () => {
+  if (pendingListeners.size === 0) return;
+  try {
+    const pending = countPending(await getAllQueued());
+    pendingListeners.forEach(listener => listener(pending));
+  } catch (err) {
+    console.error('Failed to read photo queue:', err);
+  }
+};
+
+// --- Public API ---
+
+/** False where IndexedDB isn't available (e.g. some private browsing modes) — upload directly instead */
+export const isPhotoQueueAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+/**
+ * Compress a photo and queue it for upload.
+ * The placeholder goes in the estimate's images and thumbnails until the upload lands;
+ * claim it once the estimate is saved. After a day, unless a saved estimate shows it, it's discarded.
+ */
+export const queueJobPhoto = async (
+  file: File,
+  category: PhotoCategory
+): Promise<{ placeholder: string; previewUrl: string; meta: JobPhotoMeta }> => {
+  const [{ photo, thumbnail }, uploader, location] = await Promise.all([
+    compressJobPhoto(file),
+    currentUploader(),
+    currentPosition(),
+  ]);
+  const id = crypto.randomUUID();
+  await putQueued({
+    id,
+    estimateId: null,
+    fileName: file.name,
+    photo,
+    thumbnail,
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: Date.now(),
+  });
+  const placeholder = queuedPhotoUrl(id);
+  notifyPending();
+  processPhotoQueue();
+  return {
+    placeholder,
+    previewUrl: URL.createObjectURL(thumbnail),
+    meta: buildPhotoMeta(placeholder, file, category, uploader.name, location),
+  };
+};
+
+/**
+ * Ties queued photos to the estimate they were saved on, so the upload can patch it.
+ * Claim every placeholder handed out for the estimate, including ones already swapped
+ * for their uploaded URLs — unclaimed uploads are deleted as abandoned.
+ */
+export const claimQueuedPhotos = async (placeholders: string[], estimateId: string): Promise<void> => {
+  if (placeholders.length === 0) return;
+  const entries = await getAllQueued();
+  await Promise.all(entries
+    .filter(entry => placeholders.includes(queuedPhotoUrl(entry.id)))
+    .map(entry => updateQueued(entry.id, { estimateId })));
+  processPhotoQueue();
+};
+
+/** Local previews for queued photos, by placeholder — callers revoke the object URLs */
+export const getQueuedPreviews = async (placeholders: string[]): Promise<Record<string, string>> => {
+  if (placeholders.length === 0 || !isPhotoQueueAvailable()) return {};
+  const entries = await getAllQueued();
+  const previews: Record<string, string> = {};
+  entries.forEach(entry => {
+    const placeholder = queuedPhotoUrl(entry.id);
+    if (placeholders.includes(placeholder)) previews[placeholder] = URL.createObjectURL(entry.thumbnail);
+  });
+  return previews;
+};
+
+export const onQueuedPhotoUploaded = (listener: UploadedListener): (() => void) => {
+  uploadedListeners.add(listener);
+  return () => { uploadedListeners.delete(listener); };
+};
+
+/** Called with the pending-upload count now and whenever it changes */
+export const onPhotoQueueChange = (listener: PendingListener): (() => void) => {
+  pendingListeners.add(listener);
+  notifyPending();
+  return () => { pendingListeners.delete(listener); };
+};
+
+/**
+ * Upload whatever is due. Failures back off and retry; `ignoreBackoff` retries
+ * everything now, e.g. when the device comes back online.
+ */
+export const processPhotoQueue = async (ignoreBackoff = false): Promise<void> => {
+  if (!isPhotoQueueAvailable() || !navigator.onLine) return;
+  if (isProcessing) {
+    processAgain = true;
+    return;
+  }
+  isProcessing = true;
+  processAgain = false;
+  try {
+    for (let entry of await getAllQueued()) {
+      if (!ignoreBackoff && entry.nextAttemptAt > Date.now()) continue;
+      const placeholder = queuedPhotoUrl(entry.id);
+      try {
+        if (!entry.uploaded) {
+          const { userId } = await currentUploader();
+          const uploaded = await uploadCompressedPhoto(entry.photo, entry.thumbnail, entry.fileName, userId);
+          const latest = await updateQueued(entry.id, { uploaded });
+          uploadedListeners.forEach(listener => listener(placeholder, uploaded));
+          if (!latest) continue;
+          entry = latest;
+        }
+        const uploaded = entry.uploaded!;
+
+        const expired = Date.now() - entry.createdAt > UNCLAIMED_TTL_MS;
+        // Saved without being claimed, e.g. the app closed straight after the save
+        const estimateId = entry.estimateId || (expired
+          ? await findEstimateWithPhoto(placeholder) || await findEstimateWithPhoto(uploaded.url)
+          : null);
+
+        if (estimateId) {
+          const result = await replaceEstimatePhoto(estimateId, placeholder, uploaded);
+          if (result === 'placeholder_missing' && !expired) {
+            // The save that adds it may not have landed yet — check again later
+            const attempts = entry.attempts + 1;
+            await updateQueued(entry.id, { attempts, nextAttemptAt: Date.now() + retryDelay(attempts) });
+            continue;
+          }
+          // The estimate was deleted, or the photo removed from it, while the photo waited
+          if (result !== 'replaced') await deleteJobPhoto(uploaded.url);
+          await removeQueued(entry.id);
+        } else if (expired) {
+          // Taken for an estimate that was never saved
+          await deleteJobPhoto(uploaded.url);
+          await removeQueued(entry.id);
+        }
+      } catch (err) {
+        console.error('Queued photo upload failed, will retry:', err);
+        const attempts = entry.attempts + 1;
+        await updateQueued(entry.id, { attempts, nextAttemptAt: Date.now() + retryDelay(attempts) }).catch(() => {});
+      }
+    }
+  } catch (err) {
+    console.error('Failed to process photo queue:', err);
+  } finally {
+    isProcessing = false;
+    notifyPending();
+  }
+  if (processAgain) processPhotoQueue(ignoreBackoff);
+};
+
+/** Keeps the queue moving while the app is open: on start, on reconnect and on a timer */
+export const startPhotoQueue = (): (() => void) => {
+  if (!isPhotoQueueAvailable()) return () => {};
+  const handleOnline = () => processPhotoQueue(true);
+  window.addEventListener('online', handleOnline);
+  const timer = window.setInterval(() => processPhotoQueue(), RETRY_INTERVAL_MS);
+  processPhotoQueue();
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.clearInterval(timer);
+  };
+};
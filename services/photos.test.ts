@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, JobPhotoMeta, JobStatus } from '../types';
+import { beforeAfterPairs, jobPhotos, pendingPhotoCount, prunePhotoMeta, queuedPhotoUrl, replaceQueuedPhoto, updatePhotoMeta } from './photos';
+import { makeEstimate } from './testFixtures';
+
+const estimate = (images: string[], photoMeta?: JobPhotoMeta[]): Estimate => makeEstimate({
+  date: '2026-04-01', status: JobStatus.INVOICED,
+  images,
+  thumbnails: images.map(url => `thumb_${url}`),
+  photoMeta,
+});
+
+describe('photos', () => {
+  it('merges details onto photos and treats older photos as uncategorized', () => {
+    const photos = jobPhotos(estimate(['a.jpg', 'b.jpg'], [{ url: 'b.jpg', category: 'damage', caption: 'Roof leak' }]));
+    expect(photos[0]).toEqual({ url: 'a.jpg', thumbnailUrl: 'thumb_a.jpg', category: 'other' });
+    expect(photos[1]).toMatchObject({ category: 'damage', caption: 'Roof leak', thumbnailUrl: 'thumb_b.jpg' });
+  });
+
+  it('pairs after shots with their before shot and unpairs when a category changes', () => {
+    let est = estimate(['before.jpg', 'after.jpg', 'legacy.jpg']);
+    est = updatePhotoMeta(est, 'before.jpg', { category: 'before' });
+    est = updatePhotoMeta(est, 'after.jpg', { category: 'after', pairedWith: 'before.jpg' });
+    expect(beforeAfterPairs(est).map(p => [p.before.url, p.after.url])).toEqual([['before.jpg', 'after.jpg']]);
+
+    est = updatePhotoMeta(est, 'before.jpg', { category: 'in_progress' });
+    expect(beforeAfterPairs(est)).toEqual([]);
+    expect(est.photoMeta!.find(m => m.url === 'after.jpg')!.pairedWith).toBeUndefined();
+  });
+
+  it('drops details and pairings for deleted photos', () => {
+    const meta: JobPhotoMeta[] = [
+      { url: 'before.jpg', category: 'before' },
+      { url: 'after.jpg', category: 'after', pairedWith: 'before.jpg' },
+    ];
+    expect(prunePhotoMeta(['after.jpg'], meta)).toEqual([{ url: 'after.jpg', category: 'after', pairedWith: undefined }]);
+  });
+
+  it('hides queued photos until their upload swaps in the real URLs', () => {
+    const placeholder = queuedPhotoUrl('1760000000000');
+    const est: Estimate = {
+      ...estimate(['a.jpg']),
+      images: ['a.jpg', placeholder],
+      thumbnails: ['thumb_a.jpg', placeholder],
+      photoMeta: [{ url: placeholder, category: 'before' }, { url: 'after.jpg', category: 'after', pairedWith: placeholder }],
+    };
+    expect(jobPhotos(est).map(p => p.url)).toEqual(['a.jpg']);
+    expect(pendingPhotoCount(est)).toBe(1);
+
+    const patched = replaceQueuedPhoto(est, placeholder, { url: 'b.jpg', thumbnailUrl: 'thumb_b.jpg' });
+    expect(patched.images).toEqual(['a.jpg', 'b.jpg']);
+    expect(patched.thumbnails).toEqual(['thumb_a.jpg', 'thumb_b.jpg']);
+    expect(patched.photoMeta).toEqual([{ url: 'b.jpg', category: 'before' }, { url: 'after.jpg', category: 'after', pairedWith: 'b.jpg' }]);
+    expect(pendingPhotoCount(patched)).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { Estimate, JobLocation, JobPhotoMeta, PhotoCategory } from '../types';
+
+// ============================================================
+// Job photos — categories, captions and before/after pairs
+// ============================================================
+
+/** A photo with its thumbnail and details; photos from before metadata existed come back as "other" */
+export interface JobPhoto extends JobPhotoMeta {
+  thumbnailUrl: string;
+}
+
+export interface PhotoPair {
+  before: JobPhoto;
+  after: JobPhoto;
+}
+
+/** Uploaded photos only — ones still waiting in a device's upload queue have nothing to show yet */
+export const jobPhotos = (estimate: Pick<Estimate, 'images' | 'thumbnails' | 'photoMeta'>): JobPhoto[] =>
+  (estimate.images || [])
+    .map((url, i) => ({
+      category: 'other' as PhotoCategory,
+      ...estimate.photoMeta?.find(m => m.url === url),
+      url,
+      thumbnailUrl: estimate.thumbnails?.[i] || url,
+    }))
+    .filter(photo => !isQueuedPhoto(photo.url));
+
+/** Details for a newly added photo; the file's timestamp is the best capture time we have after compression */
+export const buildPhotoMeta = (
+  url: string,
+  file: File,
+  category: PhotoCategory,
+  uploadedBy?: string,
+  location?: JobLocation
+): JobPhotoMeta => ({
+  url,
+  category,
+  takenAt: file.lastModified ? new Date(file.lastModified).toISOString() : undefined,
+  location,
+  uploadedBy,
+  uploadedAt: new Date().toISOString(),
+});
+
+/** The device's position, or undefined if it's unavailable or takes too long — never blocks an upload */
+export const currentPosition = (timeoutMs = 5000): Promise<JobLocation | undefined> =>
+  new Promise(resolve => {
+    if (!('geolocation' in navigator)) return resolve(undefined);
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({ lat: position.coords.latitude, lng: position.coords.longitude, accuracy: position.coords.accuracy }),
+      () => resolve(undefined),
+      { timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+
+export const updatePhotoMeta = (estimate: Estimate, url: string, changes: Partial<JobPhotoMeta>): Estimate => {
+  const existing = jobPhotos(estimate).find(p => p.url === url);
+  if (!existing) return estimate;
+  const { thumbnailUrl, ...meta } = existing;
+  const updated: JobPhotoMeta = { ...meta, ...changes, url };
+  // Only "after" shots carry a pairing
+  if (updated.category !== 'after') delete updated.pairedWith;
+  const others = (estimate.photoMeta || []).filter(m => m.url !== url);
+  // A photo that's no longer "before" can't stay paired to anything
+  const unpaired = updated.category === 'before'
+    ? others
+    : others.map(m => (m.pairedWith === url ? { ...m, pairedWith: undefined } : m));
+  return { ...estimate, photoMeta: [...unpaired, updated] };
+};
+
+/** Drops metadata for photos that are gone and pairings that point at them */
+export const prunePhotoMeta = (images: string[], photoMeta: JobPhotoMeta[] = []): JobPhotoMeta[] =>
+  photoMeta
+    .filter(m => images.includes(m.url))
+    .map(m => (m.pairedWith && !images.includes(m.pairedWith) ? { ...m, pairedWith: undefined } : m));
+
+/** Before/after shots of the same spot, in the order the after photos were taken */
+export const beforeAfterPairs = (estimate: Pick<Estimate, 'images' | 'thumbnails' | 'photoMeta'>): PhotoPair[] => {
+  const photos = jobPhotos(estimate);
+  return photos
+    .filter(p => p.category === 'after' && p.pairedWith)
+    .map(after => ({ after, before: photos.find(p => p.url === after.pairedWith && p.category === 'before') }))
+    .filter((pair): pair is PhotoPair => !!pair.before);
+};
+
+// ============================================================
+// Queued photos — placeholders for photos that haven't uploaded yet
+// ============================================================
+const QUEUED_PHOTO_PREFIX = 'queued-photo:';
+
+/** Stands in for the photo's URL in images, thumbnails and details until it uploads */
+export const queuedPhotoUrl = (queueId: string): string => `${QUEUED_PHOTO_PREFIX}${queueId}`;
+
+export const isQueuedPhoto = (url: string): boolean => url.startsWith(QUEUED_PHOTO_PREFIX);
+
+export const pendingPhotoCount = (estimate: Pick<Estimate, 'images'>): number =>
+  (estimate.images || []).filter(isQueuedPhoto).length;
+
+/** Points a photo's details, and any pairing to it, at a new URL */
+export const renamePhotoMeta = (photoMeta: JobPhotoMeta[], from: string, to: string): JobPhotoMeta[] =>
+  photoMeta.map(m => (m.url === from || m.pairedWith === from
+    ? { ...m, url: m.url === from ? to : m.url, pairedWith: m.pairedWith === from ? to : m.pairedWith }
+    : m));
+
+/** Swaps a queued photo's placeholder for its uploaded URLs */
+export const replaceQueuedPhoto = <T extends Pick<Estimate, 'images' | 'thumbnails' | 'photoMeta'>>(
+  photos: T,
+  placeholder: string,
+  uploaded: { url: string; thumbnailUrl: string }
+): T => ({
+  ...photos,
+  images: photos.images?.map(url => (url === placeholder ? uploaded.url : url)),
+  thumbnails: photos.thumbnails?.map(url => (url === placeholder ? uploaded.thumbnailUrl : url)),
+  photoMeta: photos.photoMeta && renamePhotoMeta(photos.photoMeta, placeholder, uploaded.url),
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, JobStatus, Payment } from '../types';
+import { createPortalToken, parsePortalToken, portalBalance, portalPhotos, portalStatusLabel, portalUrl } from './portal';
+import { makeEstimate } from './testFixtures';
+
+const payment = (amount: number): Payment => ({
+  id: String(amount), date: '2026-03-01', amount, method: 'check', recordedAt: '2026-03-01T12:00:00Z',
+});
+
+const estimate = (id: string, status: JobStatus, total: number, payments?: Payment[]): Estimate => makeEstimate({
+  id, number: `EST-${id}`, status, subtotal: total, total, payments,
+});
+
+describe('portal', () => {
+  it('round-trips the token through the portal link', () => {
+    const token = createPortalToken();
+    expect(parsePortalToken(new URL(portalUrl(token, 'https://app.example.com')).search)).toBe(token);
+    expect(parsePortalToken('?sign=' + token)).toBeNull();
+    expect(parsePortalToken('?portal=not-a-token')).toBeNull();
+  });
+
+  it('owes only what is left on open invoices', () => {
+    const balance = portalBalance([
+      estimate('1', JobStatus.INVOICED, 3000, [payment(1000.5)]),
+      estimate('2', JobStatus.INVOICED, 500),
+      // Deposits on work orders and unsold estimates aren't billed yet
+      estimate('3', JobStatus.WORK_ORDER, 2000, [payment(500)]),
+      estimate('4', JobStatus.DRAFT, 1200),
+      estimate('5', JobStatus.PAID, 800),
+    ]);
+    expect(balance).toBe(2499.5);
+  });
+
+  it('describes statuses in the customer\'s terms', () => {
+    expect(portalStatusLabel(JobStatus.DRAFT)).toBe('Estimate');
+    expect(portalStatusLabel(JobStatus.WORK_ORDER)).toBe('Scheduled');
+  });
+
+  it('shows the customer only before and after photos', () => {
+    const job = makeEstimate({
+      images: ['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg'],
+      photoMeta: [
+        { url: 'a.jpg', category: 'before' },
+        { url: 'b.jpg', category: 'damage' },
+        { url: 'c.jpg', category: 'after', caption: 'Attic done' },
+      ],
+    });
+    expect(portalPhotos(job).map(p => p.url)).toEqual(['a.jpg', 'c.jpg']);
+  });
+});
@@ -0,0 +1,44 @@
+import { Estimate, JobStatus, PhotoCategory } from '../types';
+import { createAcceptanceToken } from './acceptance';
+import { balanceDue } from './payments';
+import { JobPhoto, jobPhotos } from './photos';
+
+// ============================================================
+// Customer portal — read-only magic link per customer
+// ============================================================
+
+/** Same strength as signature links: 32 random hex characters */
+export const createPortalToken = createAcceptanceToken;
+
+/** Link the customer bookmarks, e.g. https://app.example.com/?portal=3f2a… */
+export const portalUrl = (token: string, origin: string): string => `${origin}/?portal=${token}`;
+
+/** The token from the page's query string, or null when this isn't a portal link */
+export const parsePortalToken = (search: string): string | null => {
+  const token = new URLSearchParams(search).get('portal');
+  return token && /^[a-f0-9]{32,}$/i.test(token) ? token : null;
+};
+
+/** What the customer still owes across every open invoice */
+export const portalBalance = (estimates: Estimate[]): number =>
+  Math.round(estimates
+    .filter(e => e.status === JobStatus.INVOICED)
+    .reduce((acc, e) => acc + Math.max(0, balanceDue(e)), 0) * 100) / 100;
+
+/** Customer-facing status — "Draft" means nothing to them */
+export const portalStatusLabel = (status: JobStatus): string => {
+  switch (status) {
+    case JobStatus.DRAFT: return 'Estimate';
+    case JobStatus.WORK_ORDER: return 'Scheduled';
+    case JobStatus.INVOICED: return 'Invoiced';
+    case JobStatus.PAID: return 'Paid';
+    case JobStatus.ARCHIVED: return 'Complete';
+    default: return status;
+  }
+};
+
+/** Customers see the before and after shots, not every site photo */
+export const PORTAL_PHOTO_CATEGORIES: PhotoCategory[] = ['before', 'after'];
+
+export const portalPhotos = (estimate: Estimate): JobPhoto[] =>
+  jobPhotos(estimate).filter(photo => PORTAL_PHOTO_CATEGORIES.includes(photo.category));
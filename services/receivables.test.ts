@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Customer, Estimate, JobStatus } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { agingReportToCsv, buildAgingReport, paymentTermsDays } from './receivables';
+import { makeEstimate } from './testFixtures';
+
+const customers: Customer[] = [
+  { id: 'c1', name: 'Smith, John', address: '', city: '', state: '', zip: '', email: '', phone: '', createdAt: '2026-01-01' },
+  { id: 'c2', name: 'Acme Builders', address: '', city: '', state: '', zip: '', email: '', phone: '', createdAt: '2026-01-01' },
+];
+
+const invoice = (id: string, customerId: string, invoicedAt: string, total: number, status = JobStatus.INVOICED): Estimate => makeEstimate({
+  id, number: `EST-${id}`, customerId, status, jobName: `Job ${id}`, invoicedAt, paymentTerms: 'Net 30',
+  subtotal: total, total,
+});
+
+describe('receivables', () => {
+  it('reads the day count from net terms and treats everything else as due on receipt', () => {
+    expect(paymentTermsDays('Net 30')).toBe(30);
+    expect(paymentTermsDays('net15')).toBe(15);
+    expect(paymentTermsDays('Due on Receipt')).toBe(0);
+    expect(paymentTermsDays(undefined)).toBe(0);
+  });
+
+  it('ages open invoices from their due date and totals them per customer', () => {
+    const report = buildAgingReport([
+      invoice('1', 'c1', '2026-05-01', 1000), // due 05-31, 30 days past on 06-30
+      invoice('2', 'c1', '2026-06-20', 500),  // not due yet
+      invoice('3', 'c2', '2026-02-01', 4000), // due 03-03, 119 days past
+      invoice('4', 'c2', '2026-01-01', 900, JobStatus.PAID),
+    ], customers, DEFAULT_SETTINGS, '2026-06-30');
+
+    expect(report.invoices.map(i => [i.estimate.id, i.bucket])).toEqual([
+      ['3', 'days_90_plus'], ['1', 'days_1_30'], ['2', 'current'],
+    ]);
+    expect(report.customers.map(c => c.customerId)).toEqual(['c2', 'c1']);
+    expect(report.customers[1].totals).toMatchObject({ current: 500, days_1_30: 1000, total: 1500 });
+    expect(report.totals.total).toBe(5500);
+  });
+
+  it('quotes CSV cells that contain commas', () => {
+    const csv = agingReportToCsv(buildAgingReport([invoice('1', 'c1', '2026-06-01', 250)], customers, DEFAULT_SETTINGS, '2026-06-10'));
+    const lines = csv.split('\n');
+    expect(lines[1]).toBe('"Smith, John",INV-1,Job 1,2026-06-01,2026-07-01,0,Current,250.00');
+    expect(lines[2]).toBe('Total,,,,,,,250.00');
+  });
+
+  it('keeps formula-like text from running in a spreadsheet', () => {
+    const named = customers.map(c => c.id === 'c1' ? { ...c, name: '=HYPERLINK("x")' } : c);
+    const job = { ...invoice('1', 'c1', '2026-06-01', 250), jobName: '@SUM(A1)' };
+    const csv = agingReportToCsv(buildAgingReport([job], named, DEFAULT_SETTINGS, '2026-06-10'));
+    expect(csv.split('\n')[1]).toBe(`"'=HYPERLINK(""x"")",INV-1,'@SUM(A1),2026-06-01,2026-07-01,0,Current,250.00`);
+  });
+});
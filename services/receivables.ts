@@ -0,0 +1,154 @@
+import { AppSettings, Customer, DocumentType, Estimate, JobStatus, formatDocumentNumber } from '../types';
+import { balanceDue } from './payments';
+
+// ============================================================
+// Accounts receivable — open invoices aged past their due date
+// ============================================================
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: { id: AgingBucket; label: string }[] = [
+  { id: 'current', label: 'Current' },
+  { id: 'days_1_30', label: '1–30 Days' },
+  { id: 'days_31_60', label: '31–60 Days' },
+  { id: 'days_61_90', label: '61–90 Days' },
+  { id: 'days_90_plus', label: '90+ Days' },
+];
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingInvoice {
+  estimate: Estimate;
+  invoiceNumber: string;
+  customerId: string;
+  customerName: string;
+  invoiceDate: string; // YYYY-MM-DD
+  dueDate: string;
+  daysPastDue: number; // 0 while not yet due
+  bucket: AgingBucket;
+  balance: number;
+}
+
+export interface CustomerAging {
+  customerId: string;
+  customerName: string;
+  invoices: AgingInvoice[];
+  totals: AgingTotals;
+}
+
+export interface AgingReport {
+  asOf: string;
+  invoices: AgingInvoice[];
+  customers: CustomerAging[]; // Largest balance first
+  totals: AgingTotals;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateOnly = (date: Date): string => date.toISOString().split('T')[0];
+
+// Date-only strings parsed at UTC midnight so day differences don't drift with time zones
+const parseDateOnly = (date: string): number => Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+
+/** "Net 30" → 30; "Due on Receipt" and deposit terms are due the day of the invoice */
+export const paymentTermsDays = (terms: string | undefined): number => {
+  const match = terms?.match(/net\s*(\d+)/i);
+  return match ? Number(match[1]) : 0;
+};
+
+/** When the job was invoiced; older invoices didn't record it, so fall back to the estimate date */
+export const invoiceDateOf = (estimate: Estimate): string => (estimate.invoicedAt || estimate.date).slice(0, 10);
+
+export const dueDateOf = (estimate: Estimate, settings: AppSettings): string => {
+  const days = paymentTermsDays(estimate.paymentTerms || settings.defaultPaymentTerms);
+  return toDateOnly(new Date(parseDateOnly(invoiceDateOf(estimate)) + days * DAY_MS));
+};
+
+export const agingBucketFor = (daysPastDue: number): AgingBucket => {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return 'days_1_30';
+  if (daysPastDue <= 60) return 'days_31_60';
+  if (daysPastDue <= 90) return 'days_61_90';
+  return 'days_90_plus';
+};
+
+export const emptyAgingTotals = (): AgingTotals => ({
+  current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0, total: 0,
+});
+
+const addToTotals = (totals: AgingTotals, invoice: AgingInvoice) => {
+  totals[invoice.bucket] += invoice.balance;
+  totals.total += invoice.balance;
+};
+
+/** Every invoiced job with money still owed, bucketed by how far past due it is on `asOf` */
+export const buildAgingReport = (
+  estimates: Estimate[],
+  customers: Customer[],
+  settings: AppSettings,
+  asOf: string = toDateOnly(new Date())
+): AgingReport => {
+  const asOfMs = parseDateOnly(asOf);
+  const invoices: AgingInvoice[] = estimates
+    .filter(e => e.status === JobStatus.INVOICED && balanceDue(e) > 0)
+    .map(e => {
+      const dueDate = dueDateOf(e, settings);
+      const daysPastDue = Math.max(0, Math.floor((asOfMs - parseDateOnly(dueDate)) / DAY_MS));
+      return {
+        estimate: e,
+        invoiceNumber: formatDocumentNumber(e.number, DocumentType.INVOICE),
+        customerId: e.customerId,
+        customerName: customers.find(c => c.id === e.customerId)?.name || 'Unknown Customer',
+        invoiceDate: invoiceDateOf(e),
+        dueDate,
+        daysPastDue,
+        bucket: agingBucketFor(daysPastDue),
+        balance: balanceDue(e),
+      };
+    })
+    .sort((a, b) => b.daysPastDue - a.daysPastDue);
+
+  const byCustomer = new Map<string, CustomerAging>();
+  const totals = emptyAgingTotals();
+  invoices.forEach(invoice => {
+    let entry = byCustomer.get(invoice.customerId);
+    if (!entry) {
+      entry = { customerId: invoice.customerId, customerName: invoice.customerName, invoices: [], totals: emptyAgingTotals() };
+      byCustomer.set(invoice.customerId, entry);
+    }
+    entry.invoices.push(invoice);
+    addToTotals(entry.totals, invoice);
+    addToTotals(totals, invoice);
+  });
+
+  return {
+    asOf,
+    invoices,
+    customers: Array.from(byCustomer.values()).sort((a, b) => b.totals.total - a.totals.total),
+    totals,
+  };
+};
+
+/** Text starting with = + - or @ would run as a formula in a spreadsheet, so it's kept as text; plain numbers pass through */
+const csvCell = (value: string | number): string => {
+  const raw = String(value);
+  const text = /^[=+\-@]/.test(raw) && !/^-?\d+(\.\d+)?$/.test(raw) ? `'${raw}` : raw;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per open invoice, ready for a spreadsheet or the bookkeeper */
+export const agingReportToCsv = (report: AgingReport): string => {
+  const header = ['Customer', 'Invoice', 'Job', 'Invoice Date', 'Due Date', 'Days Past Due', 'Bucket', 'Balance'];
+  const rows = report.invoices.map(i => [
+    i.customerName,
+    i.invoiceNumber,
+    i.estimate.jobName,
+    i.invoiceDate,
+    i.dueDate,
+    i.daysPastDue,
+    AGING_BUCKETS.find(b => b.id === i.bucket)!.label,
+    i.balance.toFixed(2),
+  ]);
+  const totalRow = ['Total', '', '', '', '', '', '', report.totals.total.toFixed(2)];
+  return [header, ...rows, totalRow].map(row => row.map(csvCell).join(',')).join('\n');
+};
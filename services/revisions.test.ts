@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, JobStatus } from '../types';
+import { applyRevision, diffSnapshots, isSameSnapshot, pickRevisionSnapshot } from './revisions';
+import { makeEstimate, testCalcData } from './testFixtures';
+
+const estimate = (total: number, overrides: Partial<Estimate> = {}): Estimate => makeEstimate({
+  number: 'EST-1',
+  calcData: { ...testCalcData, mode: 'flat' },
+  pricingMode: 'cost_plus',
+  totalBoardFeetOpen: 3300, setsRequiredOpen: 0.21,
+  items: [{ id: '1', description: 'Spray Foam Material', quantity: 1, unit: 'Lot', unitPrice: total, total }],
+  subtotal: total, total,
+  ...overrides,
+});
+
+describe('revisions', () => {
+  it('treats snapshots with reordered keys as the same', () => {
+    const snapshot = pickRevisionSnapshot(estimate(1000));
+    const reordered = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(snapshot).reverse())));
+    expect(isSameSnapshot(snapshot, reordered)).toBe(true);
+    expect(isSameSnapshot(snapshot, pickRevisionSnapshot(estimate(1200)))).toBe(false);
+  });
+
+  it('lists changed line items and totals', () => {
+    const before = pickRevisionSnapshot(estimate(1000));
+    const after = pickRevisionSnapshot(estimate(1200, {
+      items: [
+        { id: '1', description: 'Spray Foam Material', quantity: 1, unit: 'Lot', unitPrice: 1100, total: 1100 },
+        { id: '3', description: 'Trip Charge', quantity: 1, unit: 'Flat', unitPrice: 100, total: 100 },
+      ],
+    }));
+    const labels = diffSnapshots(before, after).map(c => c.label);
+    expect(labels).toEqual(['Spray Foam Material', 'Trip Charge', 'Subtotal', 'Total']);
+    expect(diffSnapshots(before, before)).toEqual([]);
+  });
+
+  it('restores the quote but keeps the job where it is', () => {
+    const old = pickRevisionSnapshot(estimate(1000));
+    const restored = applyRevision(estimate(1500, { status: JobStatus.WORK_ORDER, inventoryDeducted: true }), old);
+    expect(restored.total).toBe(1000);
+    expect(restored.status).toBe(JobStatus.WORK_ORDER);
+    expect(restored.inventoryDeducted).toBe(true);
+  });
+});
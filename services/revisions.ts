@@ -0,0 +1,90 @@
+import { Estimate, RevisionSnapshot } from '../types';
+import { describeRValues } from './estimateEngine';
+import { pickPricedSnapshot } from './estimateOptions';
+
+// ============================================================
+// Estimate revisions — snapshots, diffs and restore
+// ============================================================
+
+export interface RevisionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const pickRevisionSnapshot = (estimate: Estimate): RevisionSnapshot => ({
+  ...pickPricedSnapshot(estimate),
+  status: estimate.status,
+  jobName: estimate.jobName,
+  options: estimate.options,
+  selectedOptionId: estimate.selectedOptionId,
+  notes: estimate.notes,
+});
+
+// jsonb doesn't keep key order, so compare with sorted keys
+export const canonical = (value: any): any => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => {
+      if (value[key] !== undefined) acc[key] = canonical(value[key]);
+      return acc;
+    }, {} as Record<string, any>);
+  }
+  return value;
+};
+
+/** Saves that only flip bookkeeping flags (inventory, photos) don't need a new revision */
+export const isSameSnapshot = (a: RevisionSnapshot, b: RevisionSnapshot): boolean =>
+  JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+const money = (n: number | undefined) => `$${(n || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Human-readable field changes from one revision to the next */
+export const diffSnapshots = (before: RevisionSnapshot, after: RevisionSnapshot): RevisionChange[] => {
+  const changes: RevisionChange[] = [];
+  const compare = (label: string, a: string, b: string) => {
+    if (a !== b) changes.push({ label, before: a, after: b });
+  };
+
+  compare('Status', before.status, after.status);
+  compare('Job Name', before.jobName || '—', after.jobName || '—');
+  // Spec as saved with each revision (older saves have no R-value snapshot)
+  const spec = (s: RevisionSnapshot) => describeRValues(s.calcData?.achievedRValues || []).join('; ') || '—';
+  compare('Foam Spec', spec(before), spec(after));
+  compare('Pricing Mode', before.pricingMode || 'cost_plus', after.pricingMode || 'cost_plus');
+  compare('Open Cell Sets', before.setsRequiredOpen.toFixed(2), after.setsRequiredOpen.toFixed(2));
+  compare('Closed Cell Sets', before.setsRequiredClosed.toFixed(2), after.setsRequiredClosed.toFixed(2));
+
+  // Line items are matched by description; quantity or price changes show as one row
+  const itemText = (i: { quantity: number; unit: string; total: number }) => `${i.quantity} ${i.unit} = ${money(i.total)}`;
+  const beforeItems = new Map(before.items.map(i => [i.description, i]));
+  const afterItems = new Map(after.items.map(i => [i.description, i]));
+  after.items.forEach(item => {
+    const prev = beforeItems.get(item.description);
+    compare(item.description, prev ? itemText(prev) : '—', itemText(item));
+  });
+  before.items.forEach(item => {
+    if (!afterItems.has(item.description)) compare(item.description, itemText(item), 'Removed');
+  });
+
+  const optionNames = (s: RevisionSnapshot) => (s.options || []).map(o => o.id === s.selectedOptionId ? `${o.name} (chosen)` : o.name).join(', ') || '—';
+  compare('Options', optionNames(before), optionNames(after));
+  compare('Notes', before.notes || '—', after.notes || '—');
+  compare('Subtotal', money(before.subtotal), money(after.subtotal));
+  compare('Tax', money(before.tax), money(after.tax));
+  compare('Total', money(before.total), money(after.total));
+  return changes;
+};
+
+/**
+ * Put a revision's quote back on the estimate. Status and inventory stay where the job is now —
+ * restoring an old quote shouldn't un-sell a job or double-deduct material.
+ */
+export const applyRevision = (estimate: Estimate, snapshot: RevisionSnapshot): Estimate => ({
+  ...estimate,
+  ...pickPricedSnapshot(snapshot),
+  jobName: snapshot.jobName,
+  options: snapshot.options,
+  selectedOptionId: snapshot.selectedOptionId,
+  notes: snapshot.notes,
+});
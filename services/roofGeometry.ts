@@ -0,0 +1,77 @@
+import { BuildingSection, RoofType } from '../types';
+
+export const ROOF_TYPE_LABELS: Record<RoofType, string> = {
+  gable: 'Gable',
+  hip: 'Hip',
+  shed: 'Shed (Single Slope)',
+  cathedral: 'Cathedral Ceiling',
+  flat: 'Flat',
+};
+
+export interface SectionGeometry {
+  sideWallArea: number; // Perimeter walls up to wall height
+  endWallArea: number; // Gable triangles, shed end walls & dormer walls
+  roofArea: number; // Sloped deck / ceiling area
+}
+
+/** Multiplier from plan area to sloped area for a rise of `pitch` per 12 */
+export const pitchFactor = (pitch: number): number => Math.sqrt(Math.pow(12, 2) + Math.pow(pitch, 2)) / 12;
+
+/** Sections saved before roof types existed only know whether they had gable ends */
+export const resolveRoofType = (section: Pick<BuildingSection, 'roofType' | 'isGable'>): RoofType => {
+  if (section.roofType) return section.roofType;
+  return section.isGable ? 'gable' : 'hip';
+};
+
+/** Gable and cathedral roofs have triangular end walls */
+export const roofTypeHasGableEnds = (roofType: RoofType): boolean => roofType === 'gable' || roofType === 'cathedral';
+
+/**
+ * Wall, end-wall and roof-deck area for one building section.
+ * Ridge runs along the length; the roof spans the width.
+ */
+export const computeSectionGeometry = (section: BuildingSection): SectionGeometry => {
+  const { length, width, wallHeight } = section;
+  const roofType = resolveRoofType(section);
+  const pitch = roofType === 'flat' ? 0 : section.roofPitch;
+  const factor = pitchFactor(pitch);
+
+  const sideWallArea = (length + width) * 2 * wallHeight;
+  let endWallArea = 0;
+  let roofArea = length * width * factor;
+
+  switch (roofType) {
+    case 'gable':
+    case 'cathedral': {
+      // Cathedral ceilings follow the rafters, so the sprayed area matches a gable deck
+      const rise = (pitch / 12) * (width / 2);
+      endWallArea = 0.5 * width * rise * 2;
+      break;
+    }
+    case 'shed': {
+      // Single slope across the full width: two triangular ends plus the raised high wall
+      const rise = (pitch / 12) * width;
+      endWallArea = 0.5 * width * rise * 2 + length * rise;
+      break;
+    }
+    case 'hip':
+    case 'flat':
+      // Hip planes all share the same pitch, so the deck is plan area x pitch factor with no end walls
+      break;
+  }
+
+  // Dormers: front wall + two triangular cheeks; a near-flat dormer roof replaces the sloped deck it sits in
+  const dormerCount = section.dormerCount || 0;
+  const dormerWidth = section.dormerWidth || 0;
+  const dormerHeight = section.dormerHeight || 0;
+  if (dormerCount > 0 && dormerWidth > 0 && dormerHeight > 0 && pitch > 0 && roofType !== 'flat') {
+    const maxDepth = roofType === 'shed' ? width : width / 2;
+    const depth = Math.min(dormerHeight / (pitch / 12), maxDepth);
+    const frontWall = dormerWidth * dormerHeight;
+    const cheekWalls = 0.5 * depth * dormerHeight * 2;
+    endWallArea += (frontWall + cheekWalls) * dormerCount;
+    roofArea += (dormerWidth * depth - dormerWidth * depth * factor) * dormerCount;
+  }
+
+  return { sideWallArea, endWallArea, roofArea };
+};
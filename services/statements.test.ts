@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Estimate, JobStatus, Payment } from '../types';
+import { buildCustomerStatement, defaultStatementRange } from './statements';
+import { makeEstimate } from './testFixtures';
+
+const payment = (date: string, amount: number): Payment => ({
+  id: `${date}-${amount}`, date, amount, method: 'check', reference: '1042', recordedAt: `${date}T12:00:00Z`,
+});
+
+const job = (id: string, status: JobStatus, invoicedAt: string | undefined, total: number, payments?: Payment[]): Estimate => makeEstimate({
+  id, number: `EST-${id}`, status, jobName: `Job ${id}`, invoicedAt, subtotal: total, total, payments,
+});
+
+describe('statements', () => {
+  const jobs = [
+    job('1', JobStatus.PAID, '2026-02-10', 2000, [payment('2026-02-20', 500), payment('2026-04-05', 1500)]),
+    job('2', JobStatus.INVOICED, '2026-04-01', 3000, [payment('2026-04-01', 1000)]),
+    job('3', JobStatus.WORK_ORDER, undefined, 9000, [payment('2026-04-02', 2500)]), // Deposit only, not billed yet
+  ];
+
+  it('carries a balance forward and runs it through the period', () => {
+    const statement = buildCustomerStatement(jobs, 'c1', '2026-04-01', '2026-04-30');
+    expect(statement.openingBalance).toBe(1500);
+    expect(statement.lines.map(l => [l.reference, l.charge, l.payment, l.balance])).toEqual([
+      ['INV-2', 3000, 0, 4500],
+      ['INV-2', 0, 1000, 3500],
+      ['INV-1', 0, 1500, 2000],
+    ]);
+    expect(statement.totalCharges).toBe(3000);
+    expect(statement.totalPayments).toBe(2500);
+    expect(statement.closingBalance).toBe(2000);
+  });
+
+  it('settles jobs marked paid before payments were tracked on their invoice date', () => {
+    const statement = buildCustomerStatement([job('4', JobStatus.PAID, '2026-03-01', 800)], 'c1', '2026-03-01', '2026-03-31');
+    expect(statement.lines.map(l => l.balance)).toEqual([800, 0]);
+  });
+
+  it('reaches back to the oldest open invoice by default', () => {
+    const old = job('5', JobStatus.INVOICED, '2025-11-15', 400);
+    expect(defaultStatementRange([...jobs, old], 'c1', '2026-04-30')).toEqual({ from: '2025-11-15', to: '2026-04-30' });
+    expect(defaultStatementRange(jobs, 'c1', '2026-04-30')).toEqual({ from: '2026-01-30', to: '2026-04-30' });
+  });
+});
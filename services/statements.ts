@@ -0,0 +1,111 @@
+import { DocumentType, Estimate, JobStatus, formatDocumentNumber } from '../types';
+import { PAYMENT_METHOD_LABELS } from '../constants';
+import { contractTotal } from './changeOrders';
+import { amountPaid, balanceDue } from './payments';
+import { invoiceDateOf } from './receivables';
+
+// ============================================================
+// Customer statements — invoices and payments over a period
+// ============================================================
+
+export interface StatementLine {
+  date: string; // YYYY-MM-DD
+  estimateId: string;
+  reference: string; // Invoice number the charge or payment belongs to
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number; // Running balance after this line
+}
+
+export interface CustomerStatement {
+  from: string;
+  to: string;
+  openingBalance: number; // Everything billed less everything paid before `from`
+  lines: StatementLine[];
+  totalCharges: number;
+  totalPayments: number;
+  closingBalance: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+/** Jobs that have been billed — archived jobs count only if they were invoiced first */
+export const isInvoiced = (estimate: Estimate): boolean =>
+  estimate.status === JobStatus.INVOICED || estimate.status === JobStatus.PAID || !!estimate.invoicedAt;
+
+/** The invoice charge, then each payment against it */
+const activityFor = (estimate: Estimate): Omit<StatementLine, 'balance'>[] => {
+  const reference = formatDocumentNumber(estimate.number, DocumentType.INVOICE);
+  const invoiceDate = invoiceDateOf(estimate);
+  const lines: Omit<StatementLine, 'balance'>[] = [{
+    date: invoiceDate,
+    estimateId: estimate.id,
+    reference,
+    description: estimate.jobName || 'Spray Foam Insulation',
+    charge: contractTotal(estimate),
+    payment: 0,
+  }];
+  if (estimate.payments?.length) {
+    estimate.payments.forEach(p => lines.push({
+      date: p.date,
+      estimateId: estimate.id,
+      reference,
+      description: `Payment — ${PAYMENT_METHOD_LABELS[p.method]}${p.reference ? ` #${p.reference}` : ''}`,
+      charge: 0,
+      payment: p.amount,
+    }));
+  } else if (amountPaid(estimate) > 0) {
+    // Marked paid before payments were tracked, so there's no date on file — settle it on the invoice
+    lines.push({ date: invoiceDate, estimateId: estimate.id, reference, description: 'Payment received', charge: 0, payment: amountPaid(estimate) });
+  }
+  return lines;
+};
+
+/** Every invoice and payment for the customer between `from` and `to` (inclusive), with running balance */
+export const buildCustomerStatement = (
+  estimates: Estimate[],
+  customerId: string,
+  from: string,
+  to: string
+): CustomerStatement => {
+  const activity = estimates
+    .filter(e => e.customerId === customerId && isInvoiced(e))
+    .flatMap(activityFor)
+    // Charges before payments on the same day so the running balance never dips below zero for a same-day payment
+    .sort((a, b) => a.date.localeCompare(b.date) || b.charge - a.charge);
+
+  const openingBalance = roundCents(activity
+    .filter(line => line.date < from)
+    .reduce((acc, line) => acc + line.charge - line.payment, 0));
+
+  let balance = openingBalance;
+  const lines = activity
+    .filter(line => line.date >= from && line.date <= to)
+    .map(line => {
+      balance = roundCents(balance + line.charge - line.payment);
+      return { ...line, balance };
+    });
+
+  return {
+    from,
+    to,
+    openingBalance,
+    lines,
+    totalCharges: roundCents(lines.reduce((acc, l) => acc + l.charge, 0)),
+    totalPayments: roundCents(lines.reduce((acc, l) => acc + l.payment, 0)),
+    closingBalance: balance,
+  };
+};
+
+/** Last 90 days, stretched back far enough to include the customer's oldest open invoice */
+export const defaultStatementRange = (estimates: Estimate[], customerId: string, asOf: string): { from: string; to: string } => {
+  const ninetyDaysBack = new Date(Date.parse(`${asOf}T00:00:00Z`) - 90 * DAY_MS).toISOString().split('T')[0];
+  const openDates = estimates
+    .filter(e => e.customerId === customerId && e.status === JobStatus.INVOICED && balanceDue(e) > 0)
+    .map(invoiceDateOf);
+  const from = [ninetyDaysBack, ...openDates].reduce((a, b) => (b < a ? b : a));
+  return { from, to: asOf };
+};
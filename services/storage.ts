@@ -1,6 +1,9 @@
-import { Customer, Estimate, InventoryItem, AppSettings, User } from "../types";
+import { Customer, Estimate, EstimateAcceptance, EstimateAcceptanceView, EstimateRevision, EstimateTemplate, InventoryItem, AppSettings, QueuedPhotoPatch, SignatureMethod, User } from "../types";
 import { DEFAULT_SETTINGS, INITIAL_INVENTORY } from "../constants";
-import { supabase } from "./supabaseClient";
+import { supabase, createPortalClient } from "./supabaseClient";
+import { isSameSnapshot, pickRevisionSnapshot } from "./revisions";
+import { formatEstimateNumber, numberingYear } from "./numbering";
+import { replaceQueuedPhoto } from "./photos";
 
 // --- Helper: get current user id ---
 const getUserId = async (): Promise<string> => {
@@ -40,6 +43,7 @@ const mapCustomerFromDb = (row: any): Customer => ({
   state: row.state || '',
   zip: row.zip || '',
   notes: row.notes || undefined,
+  portalToken: row.portal_token || undefined,
   createdAt: row.created_at || new Date().toISOString(),
 });
 
@@ -105,6 +109,15 @@ export const deleteCustomer = async (id: string): Promise<void> => {
   if (error) console.error('deleteCustomer error:', error);
 };
 
+/** Issue (or with null, revoke) the customer's portal link; a new token retires the old link */
+export const setCustomerPortalToken = async (customerId: string, token: string | null): Promise<void> => {
+  const { error } = await supabase.from('customers').update({ portal_token: token }).eq('id', customerId);
+  if (error) {
+    console.error('setCustomerPortalToken error:', error);
+    throw new Error(error.message);
+  }
+};
+
 // =============================================
 // --- Estimates (Supabase) ---
 // =============================================
@@ -119,10 +132,13 @@ const mapEstimateFromDb = (row: any): Estimate => ({
   location: row.location || undefined,
   images: row.images || undefined,
   thumbnails: row.thumbnails || undefined,
+  photoMeta: row.photo_meta || undefined,
   calcData: row.calc_data || { length: 0, width: 0, wallHeight: 0, roofPitch: 0, isGable: false, wallFoamType: 'Open Cell', wallThickness: 0, roofFoamType: 'Open Cell', roofThickness: 0, wastePct: 0 },
   pricingMode: row.pricing_mode || undefined,
   pricePerSqFtWall: row.price_per_sqft_wall != null ? Number(row.price_per_sqft_wall) : undefined,
   pricePerSqFtRoof: row.price_per_sqft_roof != null ? Number(row.price_per_sqft_roof) : undefined,
+  marginPricing: row.margin_pricing || undefined,
+  jobCost: row.job_cost != null ? Number(row.job_cost) : undefined,
   totalBoardFeetOpen: Number(row.total_board_feet_open) || 0,
   totalBoardFeetClosed: Number(row.total_board_feet_closed) || 0,
   setsRequiredOpen: Number(row.sets_required_open) || 0,
@@ -132,6 +148,14 @@ const mapEstimateFromDb = (row: any): Estimate => ({
   subtotal: Number(row.subtotal) || 0,
   tax: Number(row.tax) || 0,
   total: Number(row.total) || 0,
+  options: row.options || undefined,
+  selectedOptionId: row.selected_option_id || undefined,
+  changeOrders: row.change_orders || undefined,
+  payments: row.payments || undefined,
+  invoicedAt: row.invoiced_at || undefined,
+  paymentTerms: row.payment_terms || undefined,
+  acceptanceToken: row.acceptance_token || undefined,
+  acceptance: row.acceptance || undefined,
   notes: row.notes || undefined,
 });
 
@@ -146,10 +170,13 @@ const estimateToDb = (estimate: Estimate, userId: string) => ({
   location: estimate.location || null,
   images: estimate.images || null,
   thumbnails: estimate.thumbnails || null,
+  photo_meta: estimate.photoMeta || null,
   calc_data: estimate.calcData,
   pricing_mode: estimate.pricingMode || null,
   price_per_sqft_wall: estimate.pricePerSqFtWall ?? null,
   price_per_sqft_roof: estimate.pricePerSqFtRoof ?? null,
+  margin_pricing: estimate.marginPricing || null,
+  job_cost: estimate.jobCost ?? null,
   total_board_feet_open: estimate.totalBoardFeetOpen,
   total_board_feet_closed: estimate.totalBoardFeetClosed,
   sets_required_open: estimate.setsRequiredOpen,
@@ -159,6 +186,14 @@ const estimateToDb = (estimate: Estimate, userId: string) => ({
   subtotal: estimate.subtotal,
   tax: estimate.tax,
   total: estimate.total,
+  options: estimate.options || null,
+  selected_option_id: estimate.selectedOptionId || null,
+  change_orders: estimate.changeOrders || null,
+  payments: estimate.payments || null,
+  invoiced_at: estimate.invoicedAt || null,
+  payment_terms: estimate.paymentTerms || null,
+  acceptance_token: estimate.acceptanceToken || null,
+  // acceptance is never written from here — only accept_estimate() records a signature
   notes: estimate.notes || null,
 });
 
@@ -185,7 +220,11 @@ export const saveEstimate = async (estimate: Estimate): Promise<Estimate> => {
       .eq('id', estimate.id)
       .select()
       .single();
-    if (!error && data) return mapEstimateFromDb(data);
+    if (!error && data) {
+      const saved = mapEstimateFromDb(data);
+      await recordRevision(saved, userId);
+      return saved;
+    }
   }
 
   // Insert new
@@ -195,7 +234,63 @@ export const saveEstimate = async (estimate: Estimate): Promise<Estimate> => {
     .select()
     .single();
   if (error) { console.error('saveEstimate error:', error); return estimate; }
-  return mapEstimateFromDb(data);
+  const saved = mapEstimateFromDb(data);
+  await recordRevision(saved, userId);
+  return saved;
+};
+
+// --- Revisions: every save that changes the quote gets a numbered snapshot ---
+const mapRevisionFromDb = (row: any): EstimateRevision => ({
+  id: row.id,
+  estimateId: row.estimate_id,
+  revisionNumber: Number(row.revision_number) || 0,
+  changedBy: row.changed_by || undefined,
+  changedByEmail: row.changed_by_email || '',
+  createdAt: row.created_at || new Date().toISOString(),
+  snapshot: row.snapshot,
+});
+
+/** Numbered one past the latest; retried when a concurrent save takes the same number */
+const recordRevision = async (estimate: Estimate, userId: string): Promise<void> => {
+  const snapshot = pickRevisionSnapshot(estimate);
+  const { data: { session } } = await supabase.auth.getSession();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: latest, error: latestError } = await supabase
+      .from('estimate_revisions')
+      .select('revision_number, snapshot')
+      .eq('estimate_id', estimate.id)
+      .order('revision_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (latestError) { console.error('recordRevision error:', latestError); return; }
+    if (latest && isSameSnapshot(latest.snapshot, snapshot)) return;
+
+    const { error } = await supabase
+      .from('estimate_revisions')
+      .insert({
+        user_id: userId,
+        estimate_id: estimate.id,
+        revision_number: (Number(latest?.revision_number) || 0) + 1,
+        changed_by: session?.user.id || null,
+        changed_by_email: session?.user.email || '',
+        snapshot,
+      });
+    if (!error) return;
+    // 23505 = unique_violation on (estimate_id, revision_number)
+    if (error.code !== '23505') { console.error('recordRevision error:', error); return; }
+  }
+  console.error('recordRevision error: revision number still taken after retries for estimate', estimate.id);
+};
+
+/** Newest first */
+export const getRevisions = async (estimateId: string): Promise<EstimateRevision[]> => {
+  const { data, error } = await supabase
+    .from('estimate_revisions')
+    .select('*')
+    .eq('estimate_id', estimateId)
+    .order('revision_number', { ascending: false });
+  if (error) { console.error('getRevisions error:', error); return []; }
+  return (data || []).map(mapRevisionFromDb);
 };
 
 export const deleteEstimate = async (id: string): Promise<void> => {
@@ -203,6 +298,155 @@ export const deleteEstimate = async (id: string): Promise<void> => {
   if (error) console.error('deleteEstimate error:', error);
 };
 
+/**
+ * Swaps a queued photo's placeholder on the saved estimate for its uploaded URLs.
+ * An estimate that already shows the uploaded URL counts as replaced; anything else missing
+ * means nothing references the upload right now (a save adding it may still be in flight).
+ */
+export const replaceEstimatePhoto = async (
+  estimateId: string,
+  placeholder: string,
+  uploaded: { url: string; thumbnailUrl: string }
+): Promise<QueuedPhotoPatch> => {
+  const { data, error } = await supabase
+    .from('estimates')
+    .select('images, thumbnails, photo_meta')
+    .eq('id', estimateId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) return 'estimate_missing';
+  const images: string[] = data.images || [];
+  if (images.includes(uploaded.url)) return 'replaced';
+  if (!images.includes(placeholder)) return 'placeholder_missing';
+
+  const patched = replaceQueuedPhoto(
+    { images, thumbnails: data.thumbnails || [], photoMeta: data.photo_meta || undefined },
+    placeholder,
+    uploaded
+  );
+  const { error: updateError } = await supabase
+    .from('estimates')
+    .update({ images: patched.images, thumbnails: patched.thumbnails, photo_meta: patched.photoMeta || null })
+    .eq('id', estimateId);
+  if (updateError) throw new Error(updateError.message);
+  return 'replaced';
+};
+
+/** The saved estimate whose images include this URL or placeholder, if any */
+export const findEstimateWithPhoto = async (url: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('estimates')
+    .select('id')
+    .contains('images', JSON.stringify([url]))
+    .limit(1)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data?.id || null;
+};
+
+// =============================================
+// --- Estimate Numbering (Supabase) ---
+// =============================================
+/** Next number from the company counter, skipping any already taken (e.g. older random numbers). Throws if none can be allocated. */
+export const allocateEstimateNumber = async (settings: AppSettings): Promise<string> => {
+  const year = numberingYear(settings);
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const { data, error } = await supabase.rpc('next_estimate_number', { p_year: year });
+    if (error || data == null) {
+      console.error('allocateEstimateNumber error:', error);
+      throw new Error(error?.message || 'Estimate numbering is unavailable');
+    }
+    const number = formatEstimateNumber(Number(data), year, settings);
+    const { data: taken, error: takenError } = await supabase.from('estimates').select('id').eq('number', number).limit(1);
+    if (takenError) throw new Error(takenError.message);
+    if (!taken?.length) return number;
+  }
+  throw new Error('No free estimate number found — check the numbering settings');
+};
+
+// =============================================
+// --- Estimate Acceptance (Supabase RPC, no login) ---
+// =============================================
+/** The estimate behind a share link, priced for the customer; null if the link is unknown or revoked */
+export const getEstimateForAcceptance = async (token: string): Promise<EstimateAcceptanceView | null> => {
+  const { data, error } = await supabase.rpc('get_estimate_for_acceptance', { p_token: token });
+  if (error) { console.error('getEstimateForAcceptance error:', error); return null; }
+  return (data as EstimateAcceptanceView) || null;
+};
+
+/** Throws with the database's message (already worded for the customer) when the signature is refused */
+export const acceptEstimate = async (
+  token: string,
+  signerName: string,
+  signatureDataUrl: string,
+  method: SignatureMethod,
+  optionId?: string
+): Promise<EstimateAcceptance> => {
+  const { data, error } = await supabase.rpc('accept_estimate', {
+    p_token: token,
+    p_signer_name: signerName,
+    p_signature: signatureDataUrl,
+    p_method: method,
+    p_option_id: optionId ?? null,
+  });
+  if (error) {
+    console.error('acceptEstimate error:', error);
+    throw new Error(error.message);
+  }
+  return data as EstimateAcceptance;
+};
+
+// =============================================
+// --- Estimate Templates (Supabase) ---
+// =============================================
+const mapTemplateFromDb = (row: any): EstimateTemplate => ({
+  id: row.id,
+  name: row.name || '',
+  calcData: row.calc_data,
+  pricingMode: row.pricing_mode || 'cost_plus',
+  pricePerSqFtWall: row.price_per_sqft_wall != null ? Number(row.price_per_sqft_wall) : undefined,
+  pricePerSqFtRoof: row.price_per_sqft_roof != null ? Number(row.price_per_sqft_roof) : undefined,
+  marginPricing: row.margin_pricing || undefined,
+  tripCharge: Number(row.trip_charge) || 0,
+  miscItems: row.misc_items || [],
+  createdAt: row.created_at || new Date().toISOString(),
+});
+
+export const getTemplates = async (): Promise<EstimateTemplate[]> => {
+  const { data, error } = await supabase
+    .from('estimate_templates')
+    .select('*')
+    .order('name', { ascending: true });
+  if (error) { console.error('getTemplates error:', error); return []; }
+  return (data || []).map(mapTemplateFromDb);
+};
+
+export const saveTemplate = async (template: Omit<EstimateTemplate, 'id' | 'createdAt'>): Promise<EstimateTemplate | null> => {
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('estimate_templates')
+    .insert({
+      user_id: userId,
+      name: template.name,
+      calc_data: template.calcData,
+      pricing_mode: template.pricingMode,
+      price_per_sqft_wall: template.pricePerSqFtWall ?? null,
+      price_per_sqft_roof: template.pricePerSqFtRoof ?? null,
+      margin_pricing: template.marginPricing || null,
+      trip_charge: template.tripCharge,
+      misc_items: template.miscItems,
+    })
+    .select()
+    .single();
+  if (error) { console.error('saveTemplate error:', error); return null; }
+  return mapTemplateFromDb(data);
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('estimate_templates').delete().eq('id', id);
+  if (error) console.error('deleteTemplate error:', error);
+};
+
 // =============================================
 // --- Inventory (Supabase) ---
 // =============================================
@@ -323,8 +567,24 @@ const mapSettingsFromDb = (row: any): AppSettings => ({
   closedCellYield: Number(row.closed_cell_yield) || DEFAULT_SETTINGS.closedCellYield,
   openCellCost: Number(row.open_cell_cost) || DEFAULT_SETTINGS.openCellCost,
   closedCellCost: Number(row.closed_cell_cost) || DEFAULT_SETTINGS.closedCellCost,
+  openCellRPerInch: Number(row.open_cell_r_per_inch) || DEFAULT_SETTINGS.openCellRPerInch,
+  closedCellRPerInch: Number(row.closed_cell_r_per_inch) || DEFAULT_SETTINGS.closedCellRPerInch,
+  closedCellMaxPass: Number(row.closed_cell_max_pass) || DEFAULT_SETTINGS.closedCellMaxPass,
+  closedCellCureMinutes: row.closed_cell_cure_minutes != null ? Number(row.closed_cell_cure_minutes) : DEFAULT_SETTINGS.closedCellCureMinutes,
+  openCellProductionRate: Number(row.open_cell_production_rate) || DEFAULT_SETTINGS.openCellProductionRate,
+  closedCellProductionRate: Number(row.closed_cell_production_rate) || DEFAULT_SETTINGS.closedCellProductionRate,
+  setupCleanupHours: row.setup_cleanup_hours != null ? Number(row.setup_cleanup_hours) : DEFAULT_SETTINGS.setupCleanupHours,
+  defaultCrewSize: Number(row.default_crew_size) || DEFAULT_SETTINGS.defaultCrewSize,
   laborRate: Number(row.labor_rate) || DEFAULT_SETTINGS.laborRate,
+  defaultMarginPct: row.default_margin_pct != null ? Number(row.default_margin_pct) : DEFAULT_SETTINGS.defaultMarginPct,
+  defaultMaterialMarkupPct: row.default_material_markup_pct != null ? Number(row.default_material_markup_pct) : DEFAULT_SETTINGS.defaultMaterialMarkupPct,
+  defaultLaborMarkupPct: row.default_labor_markup_pct != null ? Number(row.default_labor_markup_pct) : DEFAULT_SETTINGS.defaultLaborMarkupPct,
   taxRate: Number(row.tax_rate) ?? DEFAULT_SETTINGS.taxRate,
+  yieldAdjustments: row.yield_adjustments ? { ...DEFAULT_SETTINGS.yieldAdjustments, ...row.yield_adjustments } : DEFAULT_SETTINGS.yieldAdjustments,
+  estimateNumberPrefix: row.estimate_number_prefix || '',
+  estimateNumberPadding: row.estimate_number_padding != null ? Number(row.estimate_number_padding) : DEFAULT_SETTINGS.estimateNumberPadding,
+  estimateNumberYearlyReset: row.estimate_number_yearly_reset ?? DEFAULT_SETTINGS.estimateNumberYearlyReset,
+  defaultPaymentTerms: row.default_payment_terms || DEFAULT_SETTINGS.defaultPaymentTerms,
 });
 
 export const getSettings = async (): Promise<AppSettings> => {
@@ -353,8 +613,24 @@ export const saveSettings = async (settings: AppSettings): Promise<void> => {
       closed_cell_yield: settings.closedCellYield,
       open_cell_cost: settings.openCellCost,
       closed_cell_cost: settings.closedCellCost,
+      open_cell_r_per_inch: settings.openCellRPerInch,
+      closed_cell_r_per_inch: settings.closedCellRPerInch,
+      closed_cell_max_pass: settings.closedCellMaxPass,
+      closed_cell_cure_minutes: settings.closedCellCureMinutes,
+      open_cell_production_rate: settings.openCellProductionRate,
+      closed_cell_production_rate: settings.closedCellProductionRate,
+      setup_cleanup_hours: settings.setupCleanupHours,
+      default_crew_size: settings.defaultCrewSize,
       labor_rate: settings.laborRate,
+      default_margin_pct: settings.defaultMarginPct,
+      default_material_markup_pct: settings.defaultMaterialMarkupPct,
+      default_labor_markup_pct: settings.defaultLaborMarkupPct,
       tax_rate: settings.taxRate,
+      yield_adjustments: settings.yieldAdjustments,
+      estimate_number_prefix: settings.estimateNumberPrefix,
+      estimate_number_padding: settings.estimateNumberPadding,
+      estimate_number_yearly_reset: settings.estimateNumberYearlyReset,
+      default_payment_terms: settings.defaultPaymentTerms,
     })
     .eq('user_id', userId);
   if (error) console.error('saveSettings error:', error);
@@ -416,6 +692,7 @@ export const clearData = async (): Promise<void> => {
   await supabase.from('estimates').delete().eq('user_id', userId);
   await supabase.from('customers').delete().eq('user_id', userId);
   await supabase.from('inventory').delete().eq('user_id', userId);
+  await supabase.from('estimate_templates').delete().eq('user_id', userId);
 };
 
 // =============================================
@@ -425,7 +702,8 @@ const PDFS_BUCKET = 'saved-pdfs';
 
 export interface SavedPDF {
   id: string;
-  estimateId: string;
+  estimateId: string | null; // Null for customer-level documents like statements
+  customerId: string | null;
   documentType: string;
   documentNumber: string;
   customerName: string;
@@ -437,7 +715,8 @@ export interface SavedPDF {
 
 const mapSavedPdfFromDb = (row: any): SavedPDF => ({
   id: row.id,
-  estimateId: row.estimate_id,
+  estimateId: row.estimate_id || null,
+  customerId: row.customer_id || null,
   documentType: row.document_type,
   documentNumber: row.document_number,
   customerName: row.customer_name || '',
@@ -449,17 +728,19 @@ const mapSavedPdfFromDb = (row: any): SavedPDF => ({
 
 export const savePDFToSupabase = async (
   blob: Blob,
-  estimateId: string,
+  estimateId: string | null, // Null for a statement, which covers all of a customer's jobs
   documentType: string,
   documentNumber: string,
   customerName: string,
-  filename: string
+  filename: string,
+  customerId?: string
 ): Promise<SavedPDF | null> => {
   try {
     const userId = await getUserId();
     const timestamp = Date.now();
     const safeName = filename.replace(/[^a-zA-Z0-9._-]/g, '_');
-    const path = `${userId}/${estimateId}/${timestamp}_${safeName}`;
+    const folder = estimateId ?? `customers/${customerId}`;
+    const path = `${userId}/${folder}/${timestamp}_${safeName}`;
 
     // Upload PDF blob to storage
     const { error: uploadError } = await supabase.storage
@@ -484,6 +765,7 @@ export const savePDFToSupabase = async (
       .insert({
         user_id: userId,
         estimate_id: estimateId,
+        customer_id: customerId ?? null,
         document_type: documentType,
         document_number: documentNumber,
         customer_name: customerName,
@@ -534,6 +816,65 @@ export const deleteSavedPDF = async (pdf: SavedPDF): Promise<void> => {
   if (error) console.error('deleteSavedPDF error:', error);
 };
 
+// =============================================
+// --- Customer Portal (anon + x-portal-token header) ---
+// =============================================
+export interface CustomerPortalData {
+  customerName: string;
+  company: Pick<AppSettings, 'companyName' | 'companyAddress' | 'companyPhone' | 'companyEmail' | 'logoUrl'>;
+  estimates: Estimate[]; // Newest first; cost and margin columns are never readable here
+  documents: SavedPDF[];
+}
+
+// Must stay within the anon column grants in supabase_setup.sql
+const PORTAL_ESTIMATE_COLUMNS = 'id, number, customer_id, date, status, job_name, job_address, items, subtotal, tax, total, change_orders, payments, invoiced_at, payment_terms, acceptance_token, created_at';
+const PORTAL_PDF_COLUMNS = 'id, estimate_id, customer_id, document_type, document_number, file_url, created_at';
+
+/** Everything the portal shows for the token's customer; null if the link is unknown or revoked */
+export const getCustomerPortal = async (token: string): Promise<CustomerPortalData | null> => {
+  const portal = createPortalClient(token);
+  const { data: customer, error } = await portal.from('customers').select('id, name').maybeSingle();
+  if (error) { console.error('getCustomerPortal error:', error); return null; }
+  if (!customer) return null;
+
+  const [estimatesRes, pdfsRes, settingsRes, photosRes] = await Promise.all([
+    portal.from('estimates').select(PORTAL_ESTIMATE_COLUMNS).order('created_at', { ascending: false }),
+    portal.from('saved_pdfs').select(PORTAL_PDF_COLUMNS).order('created_at', { ascending: false }),
+    portal.from('settings').select('company_name, company_address, company_phone, company_email, logo_url').maybeSingle(),
+    portal.rpc('portal_job_photos'),
+  ]);
+  if (estimatesRes.error) console.error('getCustomerPortal estimates error:', estimatesRes.error);
+  if (pdfsRes.error) console.error('getCustomerPortal documents error:', pdfsRes.error);
+  if (settingsRes.error) console.error('getCustomerPortal company error:', settingsRes.error);
+  if (photosRes.error) console.error('getCustomerPortal photos error:', photosRes.error);
+
+  // Before/after photos only, with just the details the customer should see
+  const photos: any[] = photosRes.data || [];
+  const withPhotos = (estimate: Estimate): Estimate => {
+    const own = photos.filter(p => p.estimate_id === estimate.id);
+    return {
+      ...estimate,
+      images: own.map(p => p.url),
+      thumbnails: own.map(p => p.thumbnail_url),
+      photoMeta: own.map(p => ({ url: p.url, category: p.category, caption: p.caption || undefined })),
+    };
+  };
+
+  const company = settingsRes.data;
+  return {
+    customerName: customer.name,
+    company: {
+      companyName: company?.company_name || '',
+      companyAddress: company?.company_address || '',
+      companyPhone: company?.company_phone || '',
+      companyEmail: company?.company_email || '',
+      logoUrl: company?.logo_url || undefined,
+    },
+    estimates: (estimatesRes.data || []).map(row => withPhotos(mapEstimateFromDb(row))),
+    documents: (pdfsRes.data || []).map(mapSavedPdfFromDb),
+  };
+};
+
 // =============================================
 // --- Logo Upload (Supabase Storage) ---
 // =============================================
@@ -26,3 +26,14 @@ export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
     },
   },
 });
+
+/** Anonymous client for the customer portal — the token header is what the portal RLS policies check */
+export const createPortalClient = (portalToken: string) =>
+  createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { 'x-portal-token': portalToken } },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { parseVertices, polygonArea } from './takeoff';
+
+describe('takeoff', () => {
+  it('computes polygon area regardless of winding direction', () => {
+    const square = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+    expect(polygonArea(square)).toBe(100);
+    expect(polygonArea([...square].reverse())).toBe(100);
+    expect(polygonArea(square.slice(0, 2))).toBe(0);
+  });
+
+  it('parses vertex lists separated by spaces, semicolons or new lines', () => {
+    expect(parseVertices('0,0 20,0; 20, 12\n0,12')).toEqual([{ x: 0, y: 0 }, { x: 20, y: 0 }, { x: 20, y: 12 }, { x: 0, y: 12 }]);
+    expect(parseVertices('0,0 oops 5,5')).toEqual([{ x: 0, y: 0 }, { x: 5, y: 5 }]);
+  });
+});
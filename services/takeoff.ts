@@ -0,0 +1,31 @@
+import { TakeoffPoint, TakeoffRoom } from '../types';
+
+// ============================================================
+// Room-by-room / polygon takeoff for flat areas
+// ============================================================
+
+/** Shoelace area of a closed outline — vertex order can be either direction */
+export const polygonArea = (vertices: TakeoffPoint[]): number => {
+  if (vertices.length < 3) return 0;
+  let twiceArea = 0;
+  vertices.forEach((p, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    twiceArea += p.x * next.y - next.x * p.y;
+  });
+  return Math.abs(twiceArea) / 2;
+};
+
+export const roomArea = (room: TakeoffRoom): number =>
+  room.shape === 'polygon' ? polygonArea(room.vertices) : room.length * room.width;
+
+export const totalRoomArea = (rooms: TakeoffRoom[]): number => rooms.reduce((acc, room) => acc + roomArea(room), 0);
+
+/** Parse "0,0 20,0 20,12 0,12" — any x,y number pairs, whatever sits between them */
+export const parseVertices = (text: string): TakeoffPoint[] =>
+  Array.from(text.matchAll(/(-?\d*\.?\d+)\s*,\s*(-?\d*\.?\d+)/g), m => ({ x: Number(m[1]), y: Number(m[2]) }));
+
+export const formatVertices = (vertices: TakeoffPoint[]): string => vertices.map(p => `${p.x},${p.y}`).join(' ');
+
+/** Crew-facing list of the spaces in scope, one line per room */
+export const describeRooms = (rooms: TakeoffRoom[]): string[] =>
+  rooms.map(room => `${room.name || 'Room'}: ${Math.round(roomArea(room)).toLocaleString()} sq ft`);
@@ -0,0 +1,20 @@
+import { CalculationData, Estimate, FoamType, JobStatus } from '../types';
+
+// ============================================================
+// Shared test fixtures
+// ============================================================
+
+/** 20 × 30 ft of open-cell roof foam at 5.5" — the job most service tests price */
+export const testCalcData: CalculationData = {
+  length: 20, width: 30, wallHeight: 0, roofPitch: 0, isGable: false,
+  wallFoamType: FoamType.OPEN_CELL, wallThickness: 0, roofFoamType: FoamType.OPEN_CELL, roofThickness: 5.5, wastePct: 0,
+};
+
+/** A $3,000 draft estimate for customer c1; override whatever the test is about */
+export const makeEstimate = (overrides: Partial<Estimate> = {}): Estimate => ({
+  id: 'e1', number: 'EST-0042', customerId: 'c1', date: '2026-01-01', status: JobStatus.DRAFT, jobName: 'Attic',
+  calcData: testCalcData,
+  totalBoardFeetOpen: 0, totalBoardFeetClosed: 0, setsRequiredOpen: 0, setsRequiredClosed: 0,
+  items: [], subtotal: 3000, tax: 0, total: 3000,
+  ...overrides,
+});
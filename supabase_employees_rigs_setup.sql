@@ -107,10 +107,14 @@ CREATE TABLE IF NOT EXISTS public.rigs (
   model text,
   status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'maintenance', 'retired')),
   notes text,
+  yield_factor_pct numeric(6,2),
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
 
+-- Rigs created before yield tracking
+ALTER TABLE public.rigs ADD COLUMN IF NOT EXISTS yield_factor_pct numeric(6,2);
+
 CREATE INDEX IF NOT EXISTS idx_rigs_user_id ON public.rigs(user_id);
 
 ALTER TABLE public.rigs ENABLE ROW LEVEL SECURITY;
@@ -305,6 +309,14 @@ USING (
   user_id = (SELECT company_id FROM public.profiles WHERE id = auth.uid() AND role = 'employee')
 );
 
+-- Employees can read estimate templates (templates are shared across the company)
+DROP POLICY IF EXISTS "estimate_templates_select_employee" ON public.estimate_templates;
+CREATE POLICY "estimate_templates_select_employee" ON public.estimate_templates
+FOR SELECT TO authenticated
+USING (
+  user_id = (SELECT company_id FROM public.profiles WHERE id = auth.uid() AND role = 'employee')
+);
+
 -- --------------------------------------------------
 -- 8) Replica identity & realtime for new tables
 -- --------------------------------------------------
@@ -21,6 +21,7 @@ CREATE TABLE IF NOT EXISTS public.customers (
   state text,
   zip text,
   notes text,
+  portal_token text,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
@@ -37,8 +38,24 @@ CREATE TABLE IF NOT EXISTS public.settings (
   closed_cell_yield numeric(12,2) NOT NULL DEFAULT 4000,
   open_cell_cost numeric(12,2) NOT NULL DEFAULT 2000,
   closed_cell_cost numeric(12,2) NOT NULL DEFAULT 2600,
+  open_cell_r_per_inch numeric(6,2) NOT NULL DEFAULT 3.7,
+  closed_cell_r_per_inch numeric(6,2) NOT NULL DEFAULT 6.5,
+  closed_cell_max_pass numeric(6,2) NOT NULL DEFAULT 2,
+  closed_cell_cure_minutes integer NOT NULL DEFAULT 20,
+  open_cell_production_rate numeric(10,2) NOT NULL DEFAULT 1200,
+  closed_cell_production_rate numeric(10,2) NOT NULL DEFAULT 600,
+  setup_cleanup_hours numeric(6,2) NOT NULL DEFAULT 2,
+  default_crew_size integer NOT NULL DEFAULT 2,
   labor_rate numeric(12,2) NOT NULL DEFAULT 85,
+  default_margin_pct numeric(6,2) NOT NULL DEFAULT 35,
+  default_material_markup_pct numeric(6,2) NOT NULL DEFAULT 30,
+  default_labor_markup_pct numeric(6,2) NOT NULL DEFAULT 30,
   tax_rate numeric(8,3) NOT NULL DEFAULT 7.5,
+  yield_adjustments jsonb,
+  estimate_number_prefix text NOT NULL DEFAULT '',
+  estimate_number_padding integer NOT NULL DEFAULT 4,
+  estimate_number_yearly_reset boolean NOT NULL DEFAULT false,
+  default_payment_terms text NOT NULL DEFAULT 'Net 30',
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
@@ -67,10 +84,13 @@ CREATE TABLE IF NOT EXISTS public.estimates (
   location jsonb,
   images jsonb,
   thumbnails jsonb,
+  photo_meta jsonb,
   calc_data jsonb,
   pricing_mode text,
   price_per_sqft_wall numeric(12,2),
   price_per_sqft_roof numeric(12,2),
+  margin_pricing jsonb,
+  job_cost numeric(12,2),
   total_board_feet_open numeric(12,2) NOT NULL DEFAULT 0,
   total_board_feet_closed numeric(12,2) NOT NULL DEFAULT 0,
   sets_required_open numeric(12,2) NOT NULL DEFAULT 0,
@@ -80,15 +100,53 @@ CREATE TABLE IF NOT EXISTS public.estimates (
   subtotal numeric(12,2) NOT NULL DEFAULT 0,
   tax numeric(12,2) NOT NULL DEFAULT 0,
   total numeric(12,2) NOT NULL DEFAULT 0,
+  options jsonb,
+  selected_option_id text,
+  change_orders jsonb,
+  payments jsonb,
+  invoiced_at date,
+  payment_terms text,
+  acceptance_token text,
+  acceptance jsonb,
   notes text,
   created_at timestamptz NOT NULL DEFAULT now(),
   updated_at timestamptz NOT NULL DEFAULT now()
 );
 
-CREATE TABLE IF NOT EXISTS public.saved_pdfs (
+-- Snapshot of an estimate on every save that changed the quote
+CREATE TABLE IF NOT EXISTS public.estimate_revisions (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   estimate_id uuid NOT NULL REFERENCES public.estimates(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_by_email text,
+  snapshot jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (estimate_id, revision_number)
+);
+
+-- Named starting points for new estimates (no customer / job site)
+CREATE TABLE IF NOT EXISTS public.estimate_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  calc_data jsonb NOT NULL,
+  pricing_mode text,
+  price_per_sqft_wall numeric(12,2),
+  price_per_sqft_roof numeric(12,2),
+  margin_pricing jsonb,
+  trip_charge numeric(12,2) NOT NULL DEFAULT 0,
+  misc_items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.saved_pdfs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  estimate_id uuid REFERENCES public.estimates(id) ON DELETE CASCADE, -- Null for customer statements
+  customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE,
   document_type text NOT NULL DEFAULT 'ESTIMATE',
   document_number text NOT NULL,
   customer_name text,
@@ -100,17 +158,52 @@ CREATE TABLE IF NOT EXISTS public.saved_pdfs (
 
 -- Compatibility upgrades for existing deployments
 ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS thumbnails jsonb;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS closed_cell_max_pass numeric(6,2) NOT NULL DEFAULT 2;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS closed_cell_cure_minutes integer NOT NULL DEFAULT 20;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS open_cell_r_per_inch numeric(6,2) NOT NULL DEFAULT 3.7;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS closed_cell_r_per_inch numeric(6,2) NOT NULL DEFAULT 6.5;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS open_cell_production_rate numeric(10,2) NOT NULL DEFAULT 1200;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS closed_cell_production_rate numeric(10,2) NOT NULL DEFAULT 600;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS setup_cleanup_hours numeric(6,2) NOT NULL DEFAULT 2;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS default_crew_size integer NOT NULL DEFAULT 2;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS default_margin_pct numeric(6,2) NOT NULL DEFAULT 35;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS default_material_markup_pct numeric(6,2) NOT NULL DEFAULT 30;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS default_labor_markup_pct numeric(6,2) NOT NULL DEFAULT 30;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS margin_pricing jsonb;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS job_cost numeric(12,2);
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS options jsonb;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS selected_option_id text;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS change_orders jsonb;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS payments jsonb;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS invoiced_at date;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS payment_terms text;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS acceptance_token text;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS acceptance jsonb;
+ALTER TABLE public.customers ADD COLUMN IF NOT EXISTS portal_token text;
+ALTER TABLE public.estimates ADD COLUMN IF NOT EXISTS photo_meta jsonb;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS default_payment_terms text NOT NULL DEFAULT 'Net 30';
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS yield_adjustments jsonb;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS estimate_number_prefix text NOT NULL DEFAULT '';
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS estimate_number_padding integer NOT NULL DEFAULT 4;
+ALTER TABLE public.settings ADD COLUMN IF NOT EXISTS estimate_number_yearly_reset boolean NOT NULL DEFAULT false;
+ALTER TABLE public.saved_pdfs ALTER COLUMN estimate_id DROP NOT NULL;
+ALTER TABLE public.saved_pdfs ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES public.customers(id) ON DELETE CASCADE;
 
 -- --------------------------------------------------
 -- 2) Indexes
 -- --------------------------------------------------
 CREATE INDEX IF NOT EXISTS idx_customers_user_id ON public.customers(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_portal_token ON public.customers(portal_token) WHERE portal_token IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_estimates_user_id ON public.estimates(user_id);
 CREATE INDEX IF NOT EXISTS idx_estimates_customer_id ON public.estimates(customer_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_estimates_acceptance_token ON public.estimates(acceptance_token) WHERE acceptance_token IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_estimate_templates_user_id ON public.estimate_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_estimate_revisions_estimate_id ON public.estimate_revisions(estimate_id);
 CREATE INDEX IF NOT EXISTS idx_inventory_user_id ON public.inventory(user_id);
 CREATE INDEX IF NOT EXISTS idx_settings_user_id ON public.settings(user_id);
 CREATE INDEX IF NOT EXISTS idx_saved_pdfs_user_id ON public.saved_pdfs(user_id);
 CREATE INDEX IF NOT EXISTS idx_saved_pdfs_estimate_id ON public.saved_pdfs(estimate_id);
+CREATE INDEX IF NOT EXISTS idx_saved_pdfs_customer_id ON public.saved_pdfs(customer_id);
 
 -- --------------------------------------------------
 -- 3) updated_at trigger utility
@@ -145,6 +238,11 @@ CREATE TRIGGER trg_estimates_set_updated_at
 BEFORE UPDATE ON public.estimates
 FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
 
+DROP TRIGGER IF EXISTS trg_estimate_templates_set_updated_at ON public.estimate_templates;
+CREATE TRIGGER trg_estimate_templates_set_updated_at
+BEFORE UPDATE ON public.estimate_templates
+FOR EACH ROW EXECUTE FUNCTION public.set_updated_at();
+
 -- --------------------------------------------------
 -- 4) Row Level Security
 -- --------------------------------------------------
@@ -153,6 +251,8 @@ ALTER TABLE public.settings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.inventory ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.estimates ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.saved_pdfs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.estimate_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.estimate_revisions ENABLE ROW LEVEL SECURITY;
 
 -- Customers policies
 DROP POLICY IF EXISTS "customers_select_own" ON public.customers;
@@ -222,6 +322,36 @@ DROP POLICY IF EXISTS "estimates_delete_own" ON public.estimates;
 CREATE POLICY "estimates_delete_own" ON public.estimates
 FOR DELETE TO authenticated USING (user_id = auth.uid());
 
+-- Estimate revisions policies (append-only: no update policy)
+DROP POLICY IF EXISTS "estimate_revisions_select_own" ON public.estimate_revisions;
+CREATE POLICY "estimate_revisions_select_own" ON public.estimate_revisions
+FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "estimate_revisions_insert_own" ON public.estimate_revisions;
+CREATE POLICY "estimate_revisions_insert_own" ON public.estimate_revisions
+FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "estimate_revisions_delete_own" ON public.estimate_revisions;
+CREATE POLICY "estimate_revisions_delete_own" ON public.estimate_revisions
+FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+-- Estimate templates policies (employees read the company's templates via estimate_templates_select_employee in supabase_employees_rigs_setup.sql)
+DROP POLICY IF EXISTS "estimate_templates_select_own" ON public.estimate_templates;
+CREATE POLICY "estimate_templates_select_own" ON public.estimate_templates
+FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "estimate_templates_insert_own" ON public.estimate_templates;
+CREATE POLICY "estimate_templates_insert_own" ON public.estimate_templates
+FOR INSERT TO authenticated WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "estimate_templates_update_own" ON public.estimate_templates;
+CREATE POLICY "estimate_templates_update_own" ON public.estimate_templates
+FOR UPDATE TO authenticated USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "estimate_templates_delete_own" ON public.estimate_templates;
+CREATE POLICY "estimate_templates_delete_own" ON public.estimate_templates
+FOR DELETE TO authenticated USING (user_id = auth.uid());
+
 -- Saved PDFs policies
 DROP POLICY IF EXISTS "saved_pdfs_select_own" ON public.saved_pdfs;
 CREATE POLICY "saved_pdfs_select_own" ON public.saved_pdfs
@@ -380,6 +510,15 @@ SECURITY DEFINER
 SET search_path = public
 AS $$
 BEGIN
+  -- Customer statements aren't tied to one estimate; check the customer instead
+  IF NEW.estimate_id IS NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.customers WHERE id = NEW.customer_id AND user_id = NEW.user_id
+    ) THEN
+      RAISE EXCEPTION 'Cross-tenant violation: customer_id % does not belong to user %', NEW.customer_id, NEW.user_id;
+    END IF;
+    RETURN NEW;
+  END IF;
   IF NOT EXISTS (
     SELECT 1 FROM public.estimates WHERE id = NEW.estimate_id AND user_id = NEW.user_id
   ) THEN
@@ -394,6 +533,28 @@ CREATE TRIGGER trg_validate_pdf_estimate
 BEFORE INSERT OR UPDATE ON public.saved_pdfs
 FOR EACH ROW EXECUTE FUNCTION public.validate_pdf_estimate_ownership();
 
+-- Prevent user from recording revisions against another tenant's estimates
+CREATE OR REPLACE FUNCTION public.validate_revision_estimate_ownership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.estimates WHERE id = NEW.estimate_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Cross-tenant violation: revision estimate_id % does not belong to user %', NEW.estimate_id, NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_validate_revision_estimate ON public.estimate_revisions;
+CREATE TRIGGER trg_validate_revision_estimate
+BEFORE INSERT ON public.estimate_revisions
+FOR EACH ROW EXECUTE FUNCTION public.validate_revision_estimate_ownership();
+
 -- Unique estimate number per tenant
 CREATE UNIQUE INDEX IF NOT EXISTS idx_estimates_user_number_unique
 ON public.estimates (user_id, number) WHERE number IS NOT NULL AND number != '';
@@ -484,3 +645,275 @@ BEGIN
     ALTER PUBLICATION supabase_realtime ADD TABLE public.saved_pdfs;
   END IF;
 END $$;
+
+-- --------------------------------------------------
+-- 13) Sequential estimate numbering
+-- --------------------------------------------------
+-- One counter per company per year (year = 0 when numbering never resets)
+CREATE TABLE IF NOT EXISTS public.estimate_counters (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year integer NOT NULL DEFAULT 0,
+  last_number integer NOT NULL DEFAULT 0,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, year)
+);
+
+ALTER TABLE public.estimate_counters ENABLE ROW LEVEL SECURITY;
+
+-- Read-only to the app; numbers are only handed out by next_estimate_number()
+DROP POLICY IF EXISTS "estimate_counters_select_own" ON public.estimate_counters;
+CREATE POLICY "estimate_counters_select_own" ON public.estimate_counters
+FOR SELECT TO authenticated USING (user_id = auth.uid());
+
+-- Atomic: the upsert row-locks the counter, so two saves can never get the same number
+CREATE OR REPLACE FUNCTION public.next_estimate_number(p_year integer DEFAULT 0)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.estimate_counters AS c (user_id, year, last_number)
+  VALUES (auth.uid(), p_year, 1)
+  ON CONFLICT (user_id, year)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING c.last_number INTO v_next;
+
+  RETURN v_next;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.next_estimate_number(integer) FROM anon;
+GRANT EXECUTE ON FUNCTION public.next_estimate_number(integer) TO authenticated;
+
+-- --------------------------------------------------
+-- 14) Online estimate acceptance
+-- --------------------------------------------------
+-- Customers have no login: the share link's token is the only credential, so these
+-- functions are the sole way in for anon and expose prices but never costs or margins.
+CREATE OR REPLACE FUNCTION public.get_estimate_for_acceptance(p_token text)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'number', e.number,
+    'date', e.date,
+    'status', e.status,
+    'jobName', e.job_name,
+    'jobAddress', e.job_address,
+    'items', e.items,
+    'subtotal', e.subtotal,
+    'tax', e.tax,
+    'total', e.total,
+    'options', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o->'id', 'name', o->'name', 'items', o->'items',
+        'subtotal', o->'subtotal', 'tax', o->'tax', 'total', o->'total'
+      ))
+      FROM jsonb_array_elements(coalesce(e.options, '[]'::jsonb)) o
+    ), '[]'::jsonb),
+    'selectedOptionId', e.selected_option_id,
+    'notes', e.notes,
+    'acceptance', CASE WHEN e.acceptance ->> 'token' = p_token THEN e.acceptance END,
+    'customerName', c.name,
+    'company', jsonb_build_object(
+      'companyName', s.company_name,
+      'companyAddress', s.company_address,
+      'companyPhone', s.company_phone,
+      'companyEmail', s.company_email,
+      'logoUrl', s.logo_url
+    )
+  )
+  FROM public.estimates e
+  LEFT JOIN public.customers c ON c.id = e.customer_id
+  LEFT JOIN public.settings s ON s.user_id = e.user_id
+  WHERE length(p_token) >= 32 AND e.acceptance_token = p_token;
+$$;
+
+-- Records the signature only; the contractor's app converts the job to a work order
+-- so inventory and job costing go through the same path as a manual status change.
+CREATE OR REPLACE FUNCTION public.accept_estimate(
+  p_token text,
+  p_signer_name text,
+  p_signature text,
+  p_method text,
+  p_option_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_estimate public.estimates%ROWTYPE;
+  v_headers json;
+  v_ip text;
+  v_acceptance jsonb;
+BEGIN
+  IF length(coalesce(p_token, '')) < 32 THEN
+    RAISE EXCEPTION 'This link is not valid';
+  END IF;
+
+  SELECT * INTO v_estimate FROM public.estimates WHERE acceptance_token = p_token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This link is no longer valid. Please contact us for a new one.';
+  END IF;
+  IF v_estimate.acceptance ->> 'token' = p_token THEN
+    RAISE EXCEPTION 'This estimate has already been accepted';
+  END IF;
+  IF v_estimate.status <> 'Draft' THEN
+    RAISE EXCEPTION 'This estimate is no longer open for acceptance';
+  END IF;
+
+  IF length(trim(coalesce(p_signer_name, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please enter your name';
+  END IF;
+  IF p_signature IS NULL OR p_signature NOT LIKE 'data:image/png;base64,%' OR length(p_signature) > 500000 THEN
+    RAISE EXCEPTION 'Signature could not be read. Please sign again.';
+  END IF;
+  IF p_method NOT IN ('drawn', 'typed') THEN
+    RAISE EXCEPTION 'Unknown signature method';
+  END IF;
+
+  IF jsonb_array_length(coalesce(v_estimate.options, '[]'::jsonb)) > 0 THEN
+    IF coalesce(p_option_id, v_estimate.selected_option_id) IS NULL THEN
+      RAISE EXCEPTION 'Please choose an option';
+    END IF;
+    IF p_option_id IS NOT NULL AND NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements(v_estimate.options) o WHERE o ->> 'id' = p_option_id
+    ) THEN
+      RAISE EXCEPTION 'Unknown option';
+    END IF;
+  END IF;
+
+  -- PostgREST passes the request headers through; the first proxy hop is the client
+  v_headers := nullif(current_setting('request.headers', true), '')::json;
+  v_ip := coalesce(
+    v_headers ->> 'cf-connecting-ip',
+    v_headers ->> 'x-real-ip',
+    trim(split_part(v_headers ->> 'x-forwarded-for', ',', 1)),
+    ''
+  );
+
+  v_acceptance := jsonb_strip_nulls(jsonb_build_object(
+    'token', p_token,
+    'signerName', trim(p_signer_name),
+    'signatureDataUrl', p_signature,
+    'method', p_method,
+    'acceptedAt', to_char(now() AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"'),
+    'ipAddress', v_ip,
+    'userAgent', v_headers ->> 'user-agent',
+    'optionId', coalesce(p_option_id, v_estimate.selected_option_id)
+  ));
+
+  UPDATE public.estimates
+  SET acceptance = v_acceptance,
+      selected_option_id = coalesce(p_option_id, selected_option_id)
+  WHERE id = v_estimate.id;
+
+  RETURN v_acceptance;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_estimate_for_acceptance(text) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_estimate_for_acceptance(text) TO anon, authenticated;
+REVOKE ALL ON FUNCTION public.accept_estimate(text, text, text, text, text) FROM public;
+GRANT EXECUTE ON FUNCTION public.accept_estimate(text, text, text, text, text) TO anon, authenticated;
+
+-- --------------------------------------------------
+-- 15) Customer portal (read-only, magic link)
+-- --------------------------------------------------
+-- The portal calls PostgREST as anon with the customer's token in an x-portal-token
+-- header. Every anon policy below resolves that header to exactly one customer, so a
+-- token can only ever read its own customer's rows; with no header anon sees nothing.
+CREATE OR REPLACE FUNCTION public.portal_customer_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.customers c
+  WHERE length(c.portal_token) >= 32
+    AND c.portal_token = nullif(current_setting('request.headers', true), '')::json ->> 'x-portal-token';
+$$;
+
+-- The company the portal customer belongs to (for the header and contact details)
+CREATE OR REPLACE FUNCTION public.portal_company_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.user_id FROM public.customers c WHERE c.id = public.portal_customer_id();
+$$;
+
+REVOKE ALL ON FUNCTION public.portal_customer_id() FROM public;
+REVOKE ALL ON FUNCTION public.portal_company_id() FROM public;
+GRANT EXECUTE ON FUNCTION public.portal_customer_id() TO anon;
+GRANT EXECUTE ON FUNCTION public.portal_company_id() TO anon;
+
+DROP POLICY IF EXISTS "customers_select_portal" ON public.customers;
+CREATE POLICY "customers_select_portal" ON public.customers
+FOR SELECT TO anon USING (id = public.portal_customer_id());
+
+DROP POLICY IF EXISTS "estimates_select_portal" ON public.estimates;
+CREATE POLICY "estimates_select_portal" ON public.estimates
+FOR SELECT TO anon USING (customer_id = public.portal_customer_id());
+
+DROP POLICY IF EXISTS "saved_pdfs_select_portal" ON public.saved_pdfs;
+CREATE POLICY "saved_pdfs_select_portal" ON public.saved_pdfs
+FOR SELECT TO anon USING (
+  customer_id = public.portal_customer_id()
+  OR estimate_id IN (SELECT id FROM public.estimates WHERE customer_id = public.portal_customer_id())
+);
+
+DROP POLICY IF EXISTS "settings_select_portal" ON public.settings;
+CREATE POLICY "settings_select_portal" ON public.settings
+FOR SELECT TO anon USING (user_id = public.portal_company_id());
+
+-- Before/after photos on the customer's jobs: picture, category and caption only.
+-- photo_meta also holds GPS and uploader details, so the portal never reads it directly.
+CREATE OR REPLACE FUNCTION public.portal_job_photos()
+RETURNS TABLE (estimate_id uuid, url text, thumbnail_url text, category text, caption text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, img.url, coalesce(e.thumbnails ->> (img.ord - 1)::int, img.url), meta.m ->> 'category', meta.m ->> 'caption'
+  FROM public.estimates e
+  CROSS JOIN LATERAL jsonb_array_elements_text(coalesce(e.images, '[]'::jsonb)) WITH ORDINALITY AS img(url, ord)
+  CROSS JOIN LATERAL (
+    SELECT pm AS m FROM jsonb_array_elements(coalesce(e.photo_meta, '[]'::jsonb)) pm
+    WHERE pm ->> 'url' = img.url
+    LIMIT 1
+  ) meta
+  WHERE e.customer_id = public.portal_customer_id()
+    AND meta.m ->> 'category' IN ('before', 'after')
+  ORDER BY e.id, img.ord;
+$$;
+
+REVOKE ALL ON FUNCTION public.portal_job_photos() FROM public;
+GRANT EXECUTE ON FUNCTION public.portal_job_photos() TO anon;
+
+-- Column grants keep costs, margins, notes and tokens out of reach even on the customer's own rows
+REVOKE ALL ON public.customers, public.estimates, public.saved_pdfs, public.settings FROM anon;
+GRANT SELECT (id, name, company_name) ON public.customers TO anon;
+GRANT SELECT (
+  id, number, customer_id, date, status, job_name, job_address,
+  items, subtotal, tax, total, change_orders, payments, invoiced_at, payment_terms, acceptance_token, created_at
+) ON public.estimates TO anon;
+GRANT SELECT (id, estimate_id, customer_id, document_type, document_number, file_url, created_at) ON public.saved_pdfs TO anon;
+GRANT SELECT (user_id, company_name, company_address, company_phone, company_email, logo_url) ON public.settings TO anon;
@@ -10,6 +10,8 @@ export enum DocumentType {
   ESTIMATE = 'ESTIMATE',
   WORK_ORDER = 'WORK ORDER',
   INVOICE = 'INVOICE',
+  CHANGE_ORDER = 'CHANGE ORDER',
+  STATEMENT = 'STATEMENT',
 }
 
 /** Map a job status to the default document type for PDF generation */
@@ -25,14 +27,16 @@ export const statusToDocumentType = (status: JobStatus): DocumentType => {
   }
 };
 
-/** Generate a document-type-specific number prefix: EST-0042, WO-0042, INV-0042 */
+/** Generate a document-type-specific number prefix: EST-0042, WO-0042, INV-0042, CO-0042 */
 export const formatDocumentNumber = (baseNumber: string, docType: DocumentType): string => {
-  // Strip any existing prefix (EST-, WO-, INV-) to get the raw number
-  const raw = baseNumber.replace(/^(EST|WO|INV)-/i, '');
+  // Strip any existing prefix (EST-, WO-, INV-, CO-, STMT-) to get the raw number
+  const raw = baseNumber.replace(/^(EST|WO|INV|CO|STMT)-/i, '');
   const prefixMap: Record<DocumentType, string> = {
     [DocumentType.ESTIMATE]: 'EST',
     [DocumentType.WORK_ORDER]: 'WO',
     [DocumentType.INVOICE]: 'INV',
+    [DocumentType.CHANGE_ORDER]: 'CO',
+    [DocumentType.STATEMENT]: 'STMT',
   };
   return `${prefixMap[docType]}-${raw}`;
 };
@@ -53,6 +57,7 @@ export interface Customer {
   state: string;
   zip: string;
   notes?: string;
+  portalToken?: string; // Magic link to the read-only customer portal
   createdAt: string;
 }
 
@@ -67,17 +72,158 @@ export interface JobItem {
   inventoryQuantityUsed?: number;
 }
 
+/** Which calculator tab produced the calc data */
+export type CalculatorMode = 'building' | 'walls' | 'flat';
+
+export type PricingMode = 'cost_plus' | 'sqft' | 'margin';
+
+/** 'margin' targets a gross margin on the whole job; 'markup' marks material and labor up separately */
+export type MarginStrategy = 'margin' | 'markup';
+
+export interface MarginPricing {
+  strategy: MarginStrategy;
+  targetMarginPct: number;
+  materialMarkupPct: number;
+  laborMarkupPct: number;
+}
+
+export type RoofType = 'gable' | 'hip' | 'shed' | 'cathedral' | 'flat';
+
+/** Whether thickness is entered directly or derived from a target R-value */
+export type ThicknessMode = 'inches' | 'r_value';
+
+/** One pass of a hybrid stack, e.g. 1" closed cell flash under 4" open cell fill */
+export interface FoamLayer {
+  foamType: FoamType;
+  thickness: number; // inches
+}
+
+/** One box of a multi-section building (house, attached garage, bonus room, addition) */
+export interface BuildingSection {
+  id: string;
+  name: string;
+  length: number;
+  width: number;
+  wallHeight: number;
+  roofPitch: number; // 0-12
+  isGable: boolean; // Kept in sync with roofType for older readers
+  roofType?: RoofType; // Missing on legacy sections: derived from isGable
+  dormerCount?: number;
+  dormerWidth?: number; // ft
+  dormerHeight?: number; // ft, front wall height
+  wallFoamType: FoamType;
+  wallThickness: number; // inches
+  roofFoamType: FoamType;
+  roofThickness: number; // inches
+  wallTargetR?: number; // R-value mode: thickness is derived from these
+  roofTargetR?: number;
+  // Hybrid stacks, sprayed in order. When present the single foam fields mirror
+  // the first layer's type and the total thickness.
+  wallLayers?: FoamLayer[];
+  roofLayers?: FoamLayer[];
+}
+
+/** Achieved R-value for one sprayed surface */
+export interface SurfaceRValue {
+  label: string;
+  foamType: FoamType; // First layer
+  thickness: number; // inches, all layers
+  layers?: FoamLayer[]; // Only for hybrid stacks
+  rValue: number;
+}
+
+/** A window/door/garage door cut out of the wall area */
+export interface WallOpening {
+  id: string;
+  label: string;
+  width: number; // ft
+  height: number; // ft
+  count: number;
+  sectionId?: string; // Building section the opening sits in (defaults to the first section)
+}
+
+export type SpecialtySurfaceKind = 'rim_joist' | 'crawlspace';
+
+/** Rim joist / crawlspace work priced by the linear foot, sprayed on top of the main takeoff */
+export interface SpecialtySurface {
+  id: string;
+  kind: SpecialtySurfaceKind;
+  label: string;
+  linearFeet: number; // Rim joist run, or crawlspace perimeter
+  joistDepth: number; // Rim joist only: inches (9.25 for a 2x10)
+  wallHeight: number; // Crawlspace only: ft
+  floorArea: number; // Crawlspace only: sq ft of floor to spray (0 = walls only)
+  foamType: FoamType;
+  thickness: number;
+  pricePerLinearFt: number;
+  floorPricePerSqFt: number; // Crawlspace floor, when sprayed
+}
+
+/** A point on a room outline, in feet */
+export interface TakeoffPoint {
+  x: number;
+  y: number;
+}
+
+/** One space in a flat-area takeoff (attic bay, crawlspace, room) */
+export interface TakeoffRoom {
+  id: string;
+  name: string;
+  shape: 'rect' | 'polygon';
+  length: number; // rect only
+  width: number; // rect only
+  vertices: TakeoffPoint[]; // polygon only, in order around the outline
+}
+
 export interface CalculationData {
+  mode?: CalculatorMode; // Missing on older estimates: inferred from the dimensions
   length: number;
   width: number;
   wallHeight: number;
   roofPitch: number; // 0-12
   isGable: boolean;
+  roofType?: RoofType;
   wallFoamType: FoamType;
   wallThickness: number; // inches
   roofFoamType: FoamType;
   roofThickness: number; // inches
   wastePct: number;
+  maxPassThickness?: number; // Closed cell inches per lift (defaults to settings)
+  thicknessMode?: ThicknessMode; // Missing on older estimates: 'inches'
+  wallTargetR?: number; // Walls / flat tabs in R-value mode
+  roofTargetR?: number;
+  wallLayers?: FoamLayer[]; // Walls / flat tabs hybrid stacks
+  roofLayers?: FoamLayer[];
+  achievedRValues?: SurfaceRValue[]; // Snapshot printed on every document
+  // Full-building sections. When present, the top-level box fields mirror the first section
+  // so older readers keep working; estimates saved before sections existed omit this.
+  sections?: BuildingSection[];
+  openings?: WallOpening[];
+  openingDeductionSqFt?: number; // Total wall area removed for openings
+  yieldConditions?: YieldConditions;
+  rooms?: TakeoffRoom[]; // Flat tab: when present, the area is the sum of the rooms, not length x width
+  specialtySurfaces?: SpecialtySurface[]; // Rim joists & crawlspaces, on any tab
+  labor?: LaborEstimate;
+}
+
+/** Site conditions that derate foam yield, captured when the job is estimated */
+export interface YieldConditions {
+  ambientTempF: number | null; // null = not recorded, no temperature adjustment
+  humidityPct: number | null;
+  substrate: SubstrateType;
+  rigId?: string;
+  rigName?: string;
+  rigYieldFactorPct?: number; // Rig's factor at the time of the estimate
+}
+
+/** Suggested vs. entered labor, kept so estimates can be compared to actuals */
+export interface LaborEstimate {
+  suggestedHours: number; // Crew man-hours from production rates
+  overrideHours: number | null; // What the estimator typed instead, if anything
+  crewSize: number;
+  sprayHours: number; // Rig hours spraying
+  cureWaitHours: number;
+  setupHours: number;
 }
 
 export interface JobLocation {
@@ -86,6 +232,23 @@ export interface JobLocation {
   accuracy?: number;
 }
 
+export type PhotoCategory = 'before' | 'in_progress' | 'after' | 'damage' | 'other';
+
+/** What we know about one job photo */
+export interface JobPhotoMeta {
+  url: string; // Entry in Estimate.images this describes
+  category: PhotoCategory;
+  caption?: string;
+  takenAt?: string; // ISO — when the camera captured it, as far as the file tells us
+  location?: JobLocation; // Where the device was when the photo was added
+  uploadedBy?: string;
+  uploadedAt?: string;
+  pairedWith?: string; // On an "after" photo: URL of the "before" shot of the same spot
+}
+
+/** Outcome of patching an uploaded queued photo onto its saved estimate */
+export type QueuedPhotoPatch = 'replaced' | 'placeholder_missing' | 'estimate_missing';
+
 export interface Estimate {
   id: string;
   number: string;
@@ -99,14 +262,17 @@ export interface Estimate {
   location?: JobLocation;
   images?: string[]; // Storage URLs (legacy: base64)
   thumbnails?: string[]; // Thumbnail URLs for fast loading
+  photoMeta?: JobPhotoMeta[]; // Details per photo, matched to images by URL (older photos have none)
 
   // Calculation Snapshot
   calcData: CalculationData;
   
   // Pricing Strategy
-  pricingMode?: 'cost_plus' | 'sqft';
+  pricingMode?: PricingMode;
   pricePerSqFtWall?: number;
   pricePerSqFtRoof?: number;
+  marginPricing?: MarginPricing; // Only used in 'margin' pricing mode
+  jobCost?: number; // Internal material + labor cost — never shown to the customer
   
   // Results
   totalBoardFeetOpen: number;
@@ -122,10 +288,132 @@ export interface Estimate {
   subtotal: number;
   tax: number;
   total: number;
+
+  // Good / Better / Best — when present, the top-level pricing mirrors the option last edited
+  // (or the one the customer picked, once selectedOptionId is set)
+  options?: EstimateOption[];
+  selectedOptionId?: string;
+
+  // Scope changes after the job was sold. Approved ones add to the invoice and inventory deduction;
+  // the estimate's own totals stay the original contract.
+  changeOrders?: ChangeOrder[];
+
+  // Deposits and progress payments; the job goes PAID once they cover the contract total
+  payments?: Payment[];
+  invoicedAt?: string; // YYYY-MM-DD the job was invoiced (missing on older invoices)
+  paymentTerms?: string; // Terms in effect when invoiced, e.g. "Net 30"
+
+  // Online acceptance: the share link's token, and the signature captured through it
+  acceptanceToken?: string;
+  acceptance?: EstimateAcceptance; // Written only by the accept_estimate database function
   
   notes?: string;
 }
 
+export type SignatureMethod = 'drawn' | 'typed';
+
+/** The customer's signed acceptance of an estimate */
+export interface EstimateAcceptance {
+  token: string; // Link it was signed through — a new link needs a new signature
+  signerName: string;
+  signatureDataUrl: string; // PNG
+  method: SignatureMethod;
+  acceptedAt: string; // ISO timestamp from the database
+  ipAddress: string;
+  userAgent?: string;
+  optionId?: string; // Good/Better/Best tier the customer accepted
+}
+
+/** What the customer sees on the acceptance page — pricing only, never costs or margins */
+export interface EstimateAcceptanceView {
+  number: string;
+  date: string;
+  status: JobStatus;
+  jobName: string;
+  jobAddress?: string;
+  items: JobItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  options: Pick<EstimateOption, 'id' | 'name' | 'items' | 'subtotal' | 'tax' | 'total'>[];
+  selectedOptionId?: string;
+  notes?: string;
+  acceptance?: EstimateAcceptance;
+  customerName: string;
+  company: Pick<AppSettings, 'companyName' | 'companyAddress' | 'companyPhone' | 'companyEmail' | 'logoUrl'>;
+}
+
+export type PaymentMethod = 'cash' | 'check' | 'card' | 'ach' | 'financing' | 'other';
+
+/** Money received against a job */
+export interface Payment {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+  method: PaymentMethod;
+  reference?: string; // Check number, transaction id...
+  recordedAt: string;
+}
+
+export type ChangeOrderStatus = 'pending' | 'approved' | 'declined';
+
+/** A priced scope change on a work order ("add the garage ceiling") that the customer approves on its own */
+export interface ChangeOrder {
+  id: string;
+  number: number; // 1-based within the job: CO-0042-1
+  date: string;
+  description: string;
+  items: JobItem[];
+  setsRequiredOpen: number; // Extra foam the change needs
+  setsRequiredClosed: number;
+  subtotal: number;
+  tax: number;
+  total: number; // Price delta — negative for a credit
+  status: ChangeOrderStatus;
+  approvedBy?: string; // Customer name as given at approval
+  approvedAt?: string;
+  inventoryDeducted?: boolean;
+}
+
+/** The priced part of an estimate — what each Good/Better/Best option carries */
+export type PricedSnapshot = Pick<Estimate,
+  'calcData' | 'pricingMode' | 'pricePerSqFtWall' | 'pricePerSqFtRoof' | 'marginPricing' | 'jobCost' |
+  'totalBoardFeetOpen' | 'totalBoardFeetClosed' | 'setsRequiredOpen' | 'setsRequiredClosed' |
+  'items' | 'subtotal' | 'tax' | 'total'>;
+
+/** What a revision captures: the quote as the customer saw it, plus where the job stood */
+export type RevisionSnapshot = PricedSnapshot & Pick<Estimate, 'status' | 'jobName' | 'options' | 'selectedOptionId' | 'notes'>;
+
+/** One save of an estimate */
+export interface EstimateRevision {
+  id: string;
+  estimateId: string;
+  revisionNumber: number; // 1 = first save
+  changedBy?: string; // auth user id
+  changedByEmail: string;
+  createdAt: string;
+  snapshot: RevisionSnapshot;
+}
+
+/** Saved starting point for new estimates (pole barn, 2x4 walls, attic retrofit...) — no customer or job site */
+export interface EstimateTemplate {
+  id: string;
+  name: string;
+  calcData: CalculationData;
+  pricingMode: PricingMode;
+  pricePerSqFtWall?: number;
+  pricePerSqFtRoof?: number;
+  marginPricing?: MarginPricing;
+  tripCharge: number;
+  miscItems: JobItem[];
+  createdAt: string;
+}
+
+export interface EstimateOption extends PricedSnapshot {
+  id: string;
+  name: string; // e.g. "Good", "Better", "Best"
+}
+
 export interface InventoryItem {
   id: string;
   name: string;
@@ -146,9 +434,41 @@ export interface AppSettings {
   closedCellYield: number; // Board feet per set
   openCellCost: number; // Per set
   closedCellCost: number; // Per set
+  openCellRPerInch: number;
+  closedCellRPerInch: number;
+
+  closedCellMaxPass: number; // Max inches of closed cell per lift
+  closedCellCureMinutes: number; // Cool-down between closed cell lifts
+
+  openCellProductionRate: number; // Board feet per hour per rig
+  closedCellProductionRate: number; // Board feet per hour per rig
+  setupCleanupHours: number; // Per job, rig hours
+  defaultCrewSize: number;
   
   laborRate: number; // Per hour
+  defaultMarginPct: number; // Target gross margin for margin pricing
+  defaultMaterialMarkupPct: number;
+  defaultLaborMarkupPct: number;
   taxRate: number; // Percentage
+
+  yieldAdjustments: YieldAdjustments;
+
+  // Estimate numbering: EST-[prefix-][year-]0042 (WO-/INV- share the same base)
+  estimateNumberPrefix: string; // Optional series prefix, e.g. company initials
+  estimateNumberPadding: number; // Digits, zero-padded
+  estimateNumberYearlyReset: boolean; // Restart at 1 each year (the year goes in the number)
+
+  defaultPaymentTerms: string; // e.g. "Net 30" — stamped on each invoice and used for AR aging
+}
+
+export type SubstrateType = 'wood' | 'metal' | 'concrete' | 'masonry';
+
+/** Yield derating table. Factors are % of the rated set yield (100 = no change) */
+export interface YieldAdjustments {
+  temperatureBands: { minTempF: number; factorPct: number }[]; // Warmest first; the first band at or below ambient applies
+  humidityThresholdPct: number;
+  highHumidityFactorPct: number; // Applied when humidity is above the threshold
+  substrateFactors: Record<SubstrateType, number>;
 }
 
 export interface User {
@@ -191,6 +511,7 @@ export interface Rig {
   model?: string;
   status: RigStatus;
   notes?: string;
+  yieldFactorPct?: number; // % of rated set yield this rig actually gets (100 = as rated)
   createdAt: string;
 }
 